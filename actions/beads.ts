@@ -1,31 +1,81 @@
 "use server"
 
 import {
+  createBead as bdCreateBead,
   updateStatus as bdUpdateStatus,
   updatePriority as bdUpdatePriority,
   updateAssignee as bdUpdateAssignee,
   updateTitle as bdUpdateTitle,
   updateDescription as bdUpdateDescription,
+  updateDesign as bdUpdateDesign,
+  updateAcceptanceCriteria as bdUpdateAcceptanceCriteria,
+  updateNotes as bdUpdateNotes,
+  updateExternalRef as bdUpdateExternalRef,
   updateType as bdUpdateType,
   updateParent as bdUpdateParent,
   closeBead as bdCloseBead,
   deleteBead as bdDeleteBead,
+  restoreBead as bdRestoreBead,
+  listLinks as bdListLinks,
+  purgeBead as bdPurgeBead,
   addComment as bdAddComment,
   deleteComment as bdDeleteComment,
   addLabel as bdAddLabel,
   removeLabel as bdRemoveLabel,
+  addDependency as bdAddDependency,
+  removeDependency as bdRemoveDependency,
+  listDependencies as bdListDependencies,
   getCustomStatuses as bdGetCustomStatuses,
+  getBdInfo as bdGetBdInfo,
+  getActor,
+  updateBeads as bdUpdateBeads,
+  claimBead as bdClaimBead,
+  closeBeads as bdCloseBeads,
+  deleteBeads as bdDeleteBeads,
+  listBeads as bdListBeads,
   unmapPriority,
   type BdOptions,
+  type BdUpdateFields,
 } from "@/lib/bd"
-import type { BeadPriority, BeadType } from "@/lib/types"
+import { BdConflictError, toActionError, type BdErrorCode } from "@/lib/bd-error"
+import { convertBead } from "@/lib/convert"
+import { dependencyPath } from "@/lib/graph"
+import { getDependencyGraph } from "@/actions/epics"
+import type { Bead, BdInfo, BeadLink, BeadPriority, BeadType, BulkAction, BulkFailure, CreateBeadInput, DependencyRelation, ExpectedField } from "@/lib/types"
+
+// Create a new bead or epic
+export async function createBead(
+  input: CreateBeadInput,
+  dbPath?: string
+): Promise<{ success: boolean; bead?: Bead; error?: string; code?: BdErrorCode }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    const created = await bdCreateBead(
+      {
+        title: input.title,
+        type: input.type,
+        priority: unmapPriority(input.priority),
+        assignee: input.assignee,
+        labels: input.labels,
+        parent: input.parentId,
+        description: input.description,
+      },
+      options
+    )
+    return { success: true, bead: { ...convertBead(created), parentId: input.parentId } }
+  } catch (error) {
+    console.error("Failed to create bead:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
 
 // Update bead status
 export async function updateBeadStatus(
   id: string,
   status: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -33,7 +83,7 @@ export async function updateBeadStatus(
     return { success: true }
   } catch (error) {
     console.error("Failed to update status:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -50,12 +100,49 @@ export async function getAvailableStatuses(dbPath?: string): Promise<string[]> {
   }
 }
 
+// Get the installed bd version and the features it supports
+export async function getBdInfo(): Promise<BdInfo> {
+  return bdGetBdInfo()
+}
+
+// Get the current user's name, as bd records it (used for "assignee:me")
+export async function getCurrentUser(): Promise<string> {
+  return getActor()
+}
+
+// Claim a bead: assign it to the current user and start it
+// `expected` holds the assignee and status it was loaded with; a conflict means someone else claimed it first
+export async function claimBead(
+  id: string,
+  expected: { assignee: ExpectedField; status: ExpectedField },
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode; assignee?: string }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    const assignee = await getActor()
+    await bdClaimBead(id, assignee, expected, options)
+    return { success: true, assignee }
+  } catch (error) {
+    if (error instanceof BdConflictError) {
+      const claimedBy = error.current.assignee
+      return {
+        success: false,
+        error: claimedBy ? `${id} was already claimed by ${claimedBy}` : `${id} was changed elsewhere`,
+        code: "conflict",
+      }
+    }
+    console.error("Failed to claim bead:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
 // Update bead priority
 export async function updateBeadPriority(
   id: string,
   priority: BeadPriority,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -63,7 +150,7 @@ export async function updateBeadPriority(
     return { success: true }
   } catch (error) {
     console.error("Failed to update priority:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -72,7 +159,7 @@ export async function updateBeadAssignee(
   id: string,
   assignee: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -80,24 +167,33 @@ export async function updateBeadAssignee(
     return { success: true }
   } catch (error) {
     console.error("Failed to update assignee:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
+// Result of a text field save; `current` is set when the save was rejected as a conflicting edit
+type FieldSaveResult = { success: boolean; error?: string; code?: BdErrorCode; current?: Bead }
+
+function conflictResult(error: BdConflictError): FieldSaveResult {
+  return { success: false, ...toActionError(error), current: convertBead(error.current) }
+}
+
 // Update bead title
 export async function updateBeadTitle(
   id: string,
   title: string,
-  dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
-    await bdUpdateTitle(id, title, options)
+    await bdUpdateTitle(id, title, options, expected)
     return { success: true }
   } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
     console.error("Failed to update title:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -105,16 +201,94 @@ export async function updateBeadTitle(
 export async function updateBeadDescription(
   id: string,
   description: string,
-  dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
-    await bdUpdateDescription(id, description, options)
+    await bdUpdateDescription(id, description, options, expected)
     return { success: true }
   } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
     console.error("Failed to update description:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Update bead design
+export async function updateBeadDesign(
+  id: string,
+  design: string,
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdUpdateDesign(id, design, options, expected)
+    return { success: true }
+  } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
+    console.error("Failed to update design:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Update bead acceptance criteria
+export async function updateBeadAcceptanceCriteria(
+  id: string,
+  acceptanceCriteria: string,
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdUpdateAcceptanceCriteria(id, acceptanceCriteria, options, expected)
+    return { success: true }
+  } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
+    console.error("Failed to update acceptance criteria:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Update bead notes
+export async function updateBeadNotes(
+  id: string,
+  notes: string,
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdUpdateNotes(id, notes, options, expected)
+    return { success: true }
+  } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
+    console.error("Failed to update notes:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Update bead external ref
+export async function updateBeadExternalRef(
+  id: string,
+  externalRef: string,
+  dbPath?: string,
+  expected?: ExpectedField
+): Promise<FieldSaveResult> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdUpdateExternalRef(id, externalRef, options, expected)
+    return { success: true }
+  } catch (error) {
+    if (error instanceof BdConflictError) return conflictResult(error)
+    console.error("Failed to update external ref:", error)
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -123,7 +297,7 @@ export async function updateBeadType(
   id: string,
   type: BeadType,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -131,7 +305,7 @@ export async function updateBeadType(
     return { success: true }
   } catch (error) {
     console.error("Failed to update type:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -139,7 +313,7 @@ export async function updateBeadType(
 export async function closeBead(
   id: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -147,7 +321,7 @@ export async function closeBead(
     return { success: true }
   } catch (error) {
     console.error("Failed to close bead:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -156,7 +330,7 @@ export async function addComment(
   id: string,
   text: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -164,7 +338,7 @@ export async function addComment(
     return { success: true }
   } catch (error) {
     console.error("Failed to add comment:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -172,9 +346,9 @@ export async function addComment(
 export async function deleteCommentAction(
   commentId: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   if (!dbPath) {
-    return { success: false, error: "Database path required" }
+    return { success: false, error: "Database path required", code: "validation" }
   }
   const options: BdOptions = { db: dbPath }
 
@@ -183,7 +357,7 @@ export async function deleteCommentAction(
     return { success: true }
   } catch (error) {
     console.error("Failed to delete comment:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -192,7 +366,7 @@ export async function updateBeadParent(
   id: string,
   parentId: string | null,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -200,23 +374,59 @@ export async function updateBeadParent(
     return { success: true }
   } catch (error) {
     console.error("Failed to update parent:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
-// Delete a bead
+// Delete a bead, returning the dependencies bd drops with it so a restore can re-add them
 export async function deleteBead(
   id: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode; links?: BeadLink[] }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
+    const links = (await bdListLinks([id], options))[id] ?? []
     await bdDeleteBead(id, options)
-    return { success: true }
+    return { success: true, links }
   } catch (error) {
     console.error("Failed to delete bead:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Restore a deleted bead and the dependencies recorded when it was deleted (used by undo)
+export async function restoreBead(
+  id: string,
+  status: string,
+  parentId: string | null,
+  links: BeadLink[],
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdRestoreBead(id, status, parentId, links, options)
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to restore bead:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Permanently delete a tombstoned bead
+export async function purgeBead(
+  id: string,
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    await bdPurgeBead(id, options)
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to purge bead:", error)
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -225,7 +435,7 @@ export async function archiveBead(
   id: string,
   archived: boolean,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -237,7 +447,7 @@ export async function archiveBead(
     return { success: true }
   } catch (error) {
     console.error("Failed to archive bead:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -246,7 +456,7 @@ export async function backlogBead(
   id: string,
   inBacklog: boolean,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -258,7 +468,7 @@ export async function backlogBead(
     return { success: true }
   } catch (error) {
     console.error("Failed to update backlog status:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -267,7 +477,7 @@ export async function addLabelAction(
   id: string,
   label: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -275,7 +485,7 @@ export async function addLabelAction(
     return { success: true }
   } catch (error) {
     console.error("Failed to add label:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
 
@@ -284,7 +494,7 @@ export async function removeLabelAction(
   id: string,
   label: string,
   dbPath?: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
 
   try {
@@ -292,6 +502,179 @@ export async function removeLabelAction(
     return { success: true }
   } catch (error) {
     console.error("Failed to remove label:", error)
-    return { success: false, error: String(error) }
+    return { success: false, ...toActionError(error) }
   }
 }
+
+// Translate a relation seen from `id` into bd's (issue, depends-on, type) triple
+function toDependencyEdge(
+  id: string,
+  relation: DependencyRelation,
+  otherId: string
+): { issueId: string; dependsOnId: string; type: "blocks" | "related" | "parent-child" } {
+  switch (relation) {
+    case "blocked-by":
+      return { issueId: id, dependsOnId: otherId, type: "blocks" }
+    case "blocks":
+      return { issueId: otherId, dependsOnId: id, type: "blocks" }
+    case "related":
+      return { issueId: id, dependsOnId: otherId, type: "related" }
+    case "parent":
+      return { issueId: id, dependsOnId: otherId, type: "parent-child" }
+    case "child":
+      return { issueId: otherId, dependsOnId: id, type: "parent-child" }
+  }
+}
+
+// Add a dependency between two beads (rejects edits that would create a cycle)
+export async function addDependencyAction(
+  id: string,
+  relation: DependencyRelation,
+  otherId: string,
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+  const edge = toDependencyEdge(id, relation, otherId)
+
+  if (edge.issueId === edge.dependsOnId) {
+    return { success: false, error: "A bead cannot depend on itself", code: "validation" }
+  }
+
+  // Related links carry no ordering, so they can never form a cycle.
+  // The check reads every edge at once; if that fails the edit is refused rather than allowed unchecked.
+  if (edge.type !== "related") {
+    let path: string[] | null
+    try {
+      const { edges } = await getDependencyGraph(dbPath, true)
+      path = dependencyPath(edges, edge.dependsOnId, edge.issueId)
+    } catch (error) {
+      console.error("Failed to check for a dependency cycle:", error)
+      const { error: message, code } = toActionError(error)
+      return { success: false, error: `Couldn't verify the dependency won't create a cycle: ${message}`, code }
+    }
+    if (path) {
+      return {
+        success: false,
+        error: `This would create a dependency cycle: ${edge.dependsOnId} already depends on ${edge.issueId} (${path.join(" → ")})`,
+        code: "validation",
+      }
+    }
+  }
+
+  try {
+    await bdAddDependency(edge.issueId, edge.dependsOnId, edge.type, options)
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to add dependency:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Remove a dependency between two beads
+export async function removeDependencyAction(
+  id: string,
+  relation: DependencyRelation,
+  otherId: string,
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+  let edge = toDependencyEdge(id, relation, otherId)
+
+  try {
+    // Related links are shown from both sides, so the stored one may run otherId -> id
+    if (edge.type === "related") {
+      const deps = await bdListDependencies(id, options)
+      const stored = deps.some(dep => dep.id === otherId && dep.dependency_type === "related")
+      if (!stored) edge = { ...edge, issueId: otherId, dependsOnId: id }
+    }
+
+    await bdRemoveDependency(edge.issueId, edge.dependsOnId, options)
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to remove dependency:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
+
+// Max IDs per bd invocation for bulk actions (keeps argv small)
+const BULK_BATCH_SIZE = 50
+
+// Map a bulk action to update fields (close/delete use their own commands)
+function toUpdateFields(action: BulkAction): BdUpdateFields {
+  switch (action.kind) {
+    case "status":
+      return { status: action.status }
+    case "priority":
+      return { priority: unmapPriority(action.priority) }
+    case "assignee":
+      return { assignee: action.assignee }
+    case "labels":
+      return { addLabels: action.add, removeLabels: action.remove }
+    case "move":
+      return { parent: action.parentId }
+    case "backlog":
+      return action.inBacklog ? { addLabels: ["backlog"] } : { removeLabels: ["backlog"] }
+    case "archive":
+      return action.archived ? { addLabels: ["archived"] } : { removeLabels: ["archived"] }
+    case "close":
+    case "delete":
+      return {}
+  }
+}
+
+// The beads of `ids` not yet deleted (all of them when that can't be read)
+async function stillPresent(ids: string[], options: BdOptions): Promise<string[]> {
+  try {
+    const live = new Set((await bdListBeads(options))
+      .filter(b => b.status !== "tombstone" && !b.deleted_at)
+      .map(b => b.id))
+    return ids.filter(id => live.has(id))
+  } catch {
+    return ids
+  }
+}
+
+// Apply one action to many beads
+// Runs batched bd calls; when a batch fails, retries its beads one by one
+// so the failures can be reported per bead (a failed delete may have removed some already)
+// Deletes also return each bead's dependencies, recorded before bd drops them, for undo
+export async function bulkUpdateBeads(
+  ids: string[],
+  action: BulkAction,
+  dbPath?: string
+): Promise<{ success: boolean; failed: BulkFailure[]; links: Record<string, BeadLink[]> }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+  const links: Record<string, BeadLink[]> = {}
+
+  const run = async (batch: string[]) => {
+    switch (action.kind) {
+      case "close":
+        return bdCloseBeads(batch, options)
+      case "delete":
+        Object.assign(links, await bdListLinks(batch, options))
+        return bdDeleteBeads(batch, options)
+      default:
+        return bdUpdateBeads(batch, toUpdateFields(action), options)
+    }
+  }
+
+  const failed: BulkFailure[] = []
+  for (let i = 0; i < ids.length; i += BULK_BATCH_SIZE) {
+    const batch = ids.slice(i, i + BULK_BATCH_SIZE)
+    try {
+      await run(batch)
+    } catch {
+      const retry = action.kind === "delete" ? await stillPresent(batch, options) : batch
+      for (const id of retry) {
+        try {
+          await run([id])
+        } catch (error) {
+          console.error(`Bulk ${action.kind} failed for ${id}:`, error)
+          failed.push({ id, ...toActionError(error) })
+        }
+      }
+    }
+  }
+
+  return { success: failed.length === 0, failed, links }
+}
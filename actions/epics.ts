@@ -7,107 +7,122 @@ import {
   getComments,
   listDependencies,
   listDependents,
-  mapPriority,
-  mapType,
+  listTombstones,
+  listReady,
   type BdBead,
   type BdComment,
+  type BdDependency,
   type BdOptions,
 } from "@/lib/bd"
-import type { Epic, Bead, Comment, BeadStatus, BeadPriority, BeadType } from "@/lib/types"
-
-// Convert bd ISO date string to Date
-function toDate(isoString?: string): Date | undefined {
-  if (!isoString) return undefined
-  return new Date(isoString)
-}
-
-// Convert BdComment to Comment
-function convertComment(bdComment: BdComment): Comment {
-  return {
-    id: bdComment.id,
-    author: bdComment.author,
-    content: bdComment.text,
-    timestamp: new Date(bdComment.created_at),
-  }
-}
-
-// Convert BdBead to Bead (without children/childEpics)
-function convertBead(bdBead: BdBead, comments: Comment[] = []): Bead {
-  return {
-    id: bdBead.id,
-    type: mapType(bdBead.issue_type) as BeadType,
-    title: bdBead.title,
-    description: bdBead.description || "",
-    design: bdBead.design,
-    acceptanceCriteria: bdBead.acceptance_criteria,
-    notes: bdBead.notes,
-    externalRef: bdBead.external_ref,
-    status: bdBead.status as BeadStatus,
-    priority: mapPriority(bdBead.priority) as BeadPriority,
-    assignee: bdBead.assignee || "",
-    labels: bdBead.labels || [],
-    comments,
-    parentId: bdBead.parent,
-    createdAt: toDate(bdBead.created_at),
-    updatedAt: toDate(bdBead.updated_at),
-  }
+import { convertBead, convertComment, convertEvent } from "@/lib/convert"
+import { isSqliteSourceEnabled, readEvents, readSnapshot, searchComments as searchCommentsSqlite } from "@/lib/sqlite"
+import { parseSearchTerms } from "@/lib/search"
+import type { DependencyGraph, GraphEdge, GraphEdgeType } from "@/lib/graph"
+import type { Epic, Bead, BeadWorkspace, Comment, ActivityEvent } from "@/lib/types"
+
+// Raw data the epic hierarchy is built from, independent of where it was read
+interface HierarchySource {
+  allBeads: BdBead[]                       // All live beads (epics included)
+  dependentsById: Map<string, BdBead[]>    // Dependents of epics and parent beads
+  commentsById?: Map<string, BdComment[]>  // Only available from SQLite
+  blockedIds: Set<string>                  // Beads waiting on open blockers
+  trash?: BdBead[]                         // Tombstoned beads, only available from SQLite
 }
 
-// Build epic hierarchy from flat list of beads
-// Optimized: uses only 2 bd CLI calls instead of N+1
-async function buildEpicHierarchy(options: BdOptions = {}): Promise<Epic[]> {
+// Load hierarchy data via the bd CLI
+// Optimized: uses only 3 bd CLI calls instead of N+1
+// Strict loads fail instead of leaving out dependents bd couldn't show (for checks that need every edge)
+async function loadFromCli(options: BdOptions, strict = false): Promise<HierarchySource> {
   // Step 1: Get ALL beads in one call (includes parent field)
   const allBeads = await listBeads(options)
-
-  // Separate epics from regular beads
-  const epicBeads = allBeads.filter(b => b.issue_type === "epic")
-  const nonEpicBeads = allBeads.filter(b => b.issue_type !== "epic")
+  const dependentsById = new Map<string, BdBead[]>()
 
   // Step 2: Get all epics with their dependents in ONE batched call
-  const epicIds = epicBeads.map(e => e.id)
-  let epicsWithDependents: BdBead[] = []
+  const epicIds = allBeads.filter(b => b.issue_type === "epic").map(e => e.id)
   if (epicIds.length > 0) {
     try {
-      epicsWithDependents = await showBeads(epicIds, options)
-    } catch {
+      for (const epic of await showBeads(epicIds, options)) {
+        dependentsById.set(epic.id, epic.dependents || [])
+      }
+    } catch (error) {
+      if (strict) throw error
       // Fallback: use basic epic data without dependents
-      epicsWithDependents = epicBeads
     }
   }
 
-  // Build lookup maps for O(1) access
-  const beadById = new Map<string, BdBead>(allBeads.map(b => [b.id, b]))
-  const epicDependentsById = new Map<string, BdBead[]>(
-    epicsWithDependents.map(e => [e.id, e.dependents || []])
-  )
-
-  // Find non-epic beads that have children (dependent_count > 0)
-  // These need their dependents fetched to build subtask hierarchy
-  const parentBeadIds = nonEpicBeads
-    .filter(b => (b.dependent_count ?? 0) > 0)
+  // Step 3: Fetch dependents for non-epic beads that have children (dependent_count > 0)
+  const parentBeadIds = allBeads
+    .filter(b => b.issue_type !== "epic" && (b.dependent_count ?? 0) > 0)
     .map(b => b.id)
-
-  // Fetch dependents for parent beads in one batched call
-  const childrenByParent = new Map<string, BdBead[]>()
   if (parentBeadIds.length > 0) {
     try {
-      const parentBeadsWithDeps = await showBeads(parentBeadIds, options)
-      for (const parent of parentBeadsWithDeps) {
-        const children = (parent.dependents || [])
-          .filter(d => d.dependency_type === "parent-child")
-          .filter(d => d.status !== "tombstone" && !d.deleted_at)
-        if (children.length > 0) {
-          childrenByParent.set(parent.id, children)
-        }
+      for (const parent of await showBeads(parentBeadIds, options)) {
+        dependentsById.set(parent.id, parent.dependents || [])
       }
-    } catch {
+    } catch (error) {
+      if (strict) throw error
       // Ignore errors - subtasks just won't be nested
     }
   }
 
+  // Every bead with dependents was shown above, so its "blocks" dependents are all here
+  // Same rule as the SQLite snapshot: blocked while the blocker isn't closed
+  const beadById = new Map(allBeads.map(b => [b.id, b]))
+  const blockedIds = new Set<string>()
+  for (const [id, dependents] of dependentsById) {
+    const blocker = beadById.get(id)
+    if (!blocker || ["closed", "tombstone"].includes(blocker.status) || blocker.deleted_at) continue
+    for (const d of dependents) {
+      if (d.dependency_type === "blocks") blockedIds.add(d.id)
+    }
+  }
+
+  return { allBeads, dependentsById, blockedIds }
+}
+
+// Load hierarchy data from the database file in one read-only query
+// Returns null when the schema is unknown so the caller can fall back to the CLI
+async function loadFromSqlite(dbPath: string): Promise<HierarchySource | null> {
+  const snapshot = await readSnapshot(dbPath)
+  if (!snapshot) return null
+
+  return {
+    allBeads: snapshot.beads,
+    dependentsById: new Map(snapshot.beads.map(b => [b.id, b.dependents || []])),
+    commentsById: snapshot.comments,
+    blockedIds: snapshot.blockedIds,
+    trash: snapshot.trash,
+  }
+}
+
+// Build epic hierarchy from flat list of beads (no I/O - all from memory)
+function buildEpicHierarchy({ allBeads, dependentsById, commentsById, blockedIds }: HierarchySource): Epic[] {
+  // Separate epics from regular beads
+  const epicBeads = allBeads.filter(b => b.issue_type === "epic")
+  const nonEpicBeads = allBeads.filter(b => b.issue_type !== "epic")
+
+  // Build lookup map for O(1) access
+  const beadById = new Map<string, BdBead>(allBeads.map(b => [b.id, b]))
+
+  // Children of non-epic parent beads
+  const childrenByParent = new Map<string, BdBead[]>()
+  for (const parent of nonEpicBeads) {
+    const children = (dependentsById.get(parent.id) || [])
+      .filter(d => d.dependency_type === "parent-child")
+      .filter(d => d.status !== "tombstone" && !d.deleted_at)
+    if (children.length > 0) {
+      childrenByParent.set(parent.id, children)
+    }
+  }
+
+  const toBead = (bdBead: BdBead): Bead => ({
+    ...convertBead(bdBead, (commentsById?.get(bdBead.id) || []).map(convertComment)),
+    blocked: blockedIds.has(bdBead.id),
+  })
+
   // Recursively build bead with children (no network calls - all from memory)
   function buildBeadWithChildren(bdBead: BdBead, depth: number = 0): Bead {
-    const baseBead = convertBead(bdBead)
+    const baseBead = toBead(bdBead)
     if (depth >= 5) return baseBead // Max depth
 
     const children = childrenByParent.get(bdBead.id) || []
@@ -124,9 +139,9 @@ async function buildEpicHierarchy(options: BdOptions = {}): Promise<Epic[]> {
   const childEpicIds = new Set<string>()
 
   // First pass: create all Epic objects
-  for (const bdEpic of epicsWithDependents) {
+  for (const bdEpic of epicBeads) {
     const epic: Epic = {
-      ...convertBead(bdEpic),
+      ...toBead(bdEpic),
       type: "epic",
       children: [],
       childEpics: [],
@@ -135,9 +150,9 @@ async function buildEpicHierarchy(options: BdOptions = {}): Promise<Epic[]> {
   }
 
   // Second pass: populate children and childEpics from dependents
-  for (const bdEpic of epicsWithDependents) {
+  for (const bdEpic of epicBeads) {
     const epic = epicMap.get(bdEpic.id)!
-    const dependents = epicDependentsById.get(bdEpic.id) || []
+    const dependents = dependentsById.get(bdEpic.id) || []
 
     for (const dependent of dependents) {
       if (dependent.dependency_type !== "parent-child") continue
@@ -167,8 +182,8 @@ async function buildEpicHierarchy(options: BdOptions = {}): Promise<Epic[]> {
 
   // Find orphan beads (not under any epic, not a child of any parent bead)
   const beadsUnderEpics = new Set<string>()
-  for (const bdEpic of epicsWithDependents) {
-    const dependents = epicDependentsById.get(bdEpic.id) || []
+  for (const bdEpic of epicBeads) {
+    const dependents = dependentsById.get(bdEpic.id) || []
     for (const dep of dependents) {
       beadsUnderEpics.add(dep.id)
     }
@@ -206,10 +221,164 @@ async function buildEpicHierarchy(options: BdOptions = {}): Promise<Epic[]> {
   return topLevelEpics
 }
 
+// Load a workspace's beads and dependents
+async function loadSource(dbPath?: string, strict = false): Promise<HierarchySource> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  // Optional direct SQLite source (BEADS_UI_DATA_SOURCE=sqlite), falls back to bd CLI
+  if (dbPath && isSqliteSourceEnabled()) {
+    const source = await loadFromSqlite(dbPath)
+    if (source) return source
+  }
+
+  return loadFromCli(options, strict)
+}
+
 // Get all epics with their hierarchy
 export async function getEpics(dbPath?: string): Promise<Epic[]> {
+  return buildEpicHierarchy(await loadSource(dbPath))
+}
+
+// Epics plus the Trash. Tombstones come with the SQLite snapshot; through the CLI they take
+// another bd call, so they're only listed when `loadTrash` is set (the Trash section is open).
+// `trash` is null when it wasn't loaded.
+export async function getEpicsWithTrash(
+  dbPath?: string,
+  loadTrash = true
+): Promise<{ epics: Epic[]; trash: Bead[] | null }> {
+  const source = await loadSource(dbPath)
+  const epics = buildEpicHierarchy(source)
+  if (source.trash) return { epics, trash: toTrash(source.trash) }
+  return { epics, trash: loadTrash ? await getTrashedBeads(dbPath) : null }
+}
+
+const GRAPH_EDGE_TYPES: GraphEdgeType[] = ["blocks", "parent-child", "related"]
+
+// Every live bead and the dependencies between them, for the graph view and cycle checks
+// Strict: throw rather than return a graph with edges missing
+export async function getDependencyGraph(dbPath?: string, strict = false): Promise<DependencyGraph> {
+  const { allBeads, dependentsById, blockedIds } = await loadSource(dbPath, strict)
+  const live = allBeads.filter(b => b.status !== "tombstone" && !b.deleted_at)
+  const ids = new Set(live.map(b => b.id))
+
+  const edges: GraphEdge[] = []
+  for (const [id, dependents] of dependentsById) {
+    for (const dependent of dependents) {
+      const type = dependent.dependency_type
+      if (!type || !GRAPH_EDGE_TYPES.includes(type) || !ids.has(id) || !ids.has(dependent.id)) continue
+      edges.push({ from: id, to: dependent.id, type })
+    }
+  }
+
+  return {
+    nodes: live.map(b => ({ ...convertBead(b), blocked: blockedIds.has(b.id) })),
+    edges,
+  }
+}
+
+// Combined graph of several workspaces (all-workspaces view); workspaces that fail are skipped
+export async function getDependencyGraphForWorkspaces(workspaces: BeadWorkspace[]): Promise<DependencyGraph> {
+  const graphs = await Promise.all(workspaces.map(async (workspace) => {
+    try {
+      const graph = await getDependencyGraph(workspace.databasePath)
+      return { ...graph, nodes: graph.nodes.map(bead => ({ ...bead, workspace })) }
+    } catch (error) {
+      console.error(`Failed to load the dependency graph for ${workspace.name}:`, error)
+      return { nodes: [], edges: [] }
+    }
+  }))
+  return { nodes: graphs.flatMap(g => g.nodes), edges: graphs.flatMap(g => g.edges) }
+}
+
+// Mark a bead and everything under it as coming from a workspace
+function tagWorkspace<T extends Bead & { childEpics?: Epic[] }>(bead: T, workspace: BeadWorkspace): T {
+  return {
+    ...bead,
+    workspace,
+    children: bead.children?.map(child => tagWorkspace(child, workspace)),
+    childEpics: bead.childEpics?.map(epic => tagWorkspace(epic, workspace)),
+  }
+}
+
+// Load several workspaces in parallel for the all-workspaces view. Each workspace's standalone
+// beads are merged into one "_standalone" group; bead IDs are assumed unique across workspaces
+// (bd prefixes them per database). Workspaces that fail to load are reported by name.
+// The trash is loaded as in getEpicsWithTrash (null when it wasn't).
+export async function getEpicsForWorkspaces(
+  workspaces: BeadWorkspace[],
+  loadTrash = true
+): Promise<{ epics: Epic[]; trash: Bead[] | null; failed: string[] }> {
+  const results = await Promise.all(workspaces.map(async (workspace) => {
+    try {
+      const { epics, trash } = await getEpicsWithTrash(workspace.databasePath, loadTrash)
+      return {
+        workspace,
+        epics: epics.map(e => tagWorkspace(e, workspace)),
+        trash: trash?.map(b => tagWorkspace(b, workspace)) ?? null,
+      }
+    } catch (error) {
+      console.error(`Failed to load workspace ${workspace.name}:`, error)
+      return { workspace, epics: null, trash: [] }
+    }
+  }))
+
+  const epics: Epic[] = []
+  const standalone: Epic[] = []
+  for (const result of results) {
+    for (const epic of result.epics ?? []) {
+      if (epic.id === "_standalone") standalone.push(epic)
+      else epics.push(epic)
+    }
+  }
+  if (standalone.length > 0) {
+    epics.push({ ...standalone[0], workspace: undefined, children: standalone.flatMap(e => e.children) })
+  }
+
+  return {
+    epics,
+    trash: results.some(r => r.trash === null) ? null : results
+      .flatMap(r => r.trash ?? [])
+      .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0)),
+    failed: results.filter(r => r.epics === null).map(r => r.workspace.name),
+  }
+}
+
+// Get deleted (tombstoned) beads for the Trash view, most recently deleted first
+export async function getTrashedBeads(dbPath?: string): Promise<Bead[]> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  try {
+    return toTrash(await listTombstones(options))
+  } catch {
+    return []
+  }
+}
+
+function toTrash(tombstones: BdBead[]): Bead[] {
+  return tombstones
+    .filter(b => b.status === "tombstone" || b.deleted_at)
+    .map(b => convertBead(b))
+    .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0))
+}
+
+// Unblocked work for the Ready view (epics are containers, not work to claim)
+export async function getReadyBeads(dbPath?: string): Promise<Bead[]> {
   const options: BdOptions = dbPath ? { db: dbPath } : {}
-  return buildEpicHierarchy(options)
+  const ready = await listReady(options)
+  return ready.map(b => convertBead(b)).filter(b => b.type !== "epic")
+}
+
+// Ready work across several workspaces (all-workspaces view); workspaces that fail are skipped
+export async function getReadyBeadsForWorkspaces(workspaces: BeadWorkspace[]): Promise<Bead[]> {
+  const results = await Promise.all(workspaces.map(async (workspace) => {
+    try {
+      return (await getReadyBeads(workspace.databasePath)).map(bead => ({ ...bead, workspace }))
+    } catch (error) {
+      console.error(`Failed to load ready beads for ${workspace.name}:`, error)
+      return []
+    }
+  }))
+  return results.flat()
 }
 
 // Get a single bead with full details
@@ -226,18 +395,27 @@ export async function getBeadDetail(id: string, dbPath?: string): Promise<Bead |
 
     const bead = convertBead(bdBead, comments.map(convertComment))
 
-    // Add blocking dependencies
-    const blockedBy = deps
-      .filter(d => d.dependency_type === "blocks")
-      .map(d => ({ id: d.id, title: d.title }))
-    const blocks = dependents
-      .filter(d => d.dependency_type === "blocks")
-      .map(d => ({ id: d.id, title: d.title }))
+    // Group dependencies by type and direction
+    const pick = (list: BdDependency[], type: BdDependency["dependency_type"]) => {
+      const matches = list
+        .filter(d => d.dependency_type === type)
+        .map(d => ({ id: d.id, title: d.title }))
+      return matches.length > 0 ? matches : undefined
+    }
+
+    // Related links are symmetric, so merge both directions
+    const relatedById = new Map<string, { id: string; title: string }>()
+    for (const d of [...deps, ...dependents]) {
+      if (d.dependency_type === "related") relatedById.set(d.id, { id: d.id, title: d.title })
+    }
 
     return {
       ...bead,
-      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
-      blocks: blocks.length > 0 ? blocks : undefined,
+      blockedBy: pick(deps, "blocks"),
+      blocks: pick(dependents, "blocks"),
+      related: relatedById.size > 0 ? Array.from(relatedById.values()) : undefined,
+      childOf: pick(deps, "parent-child"),
+      parentOf: pick(dependents, "parent-child"),
     }
   } catch {
     return null
@@ -255,3 +433,34 @@ export async function getBeadComments(id: string, dbPath?: string): Promise<Comm
     return []
   }
 }
+
+// Activity history of a bead from bd's events table, oldest first (comments not included)
+// Needs a database path and the sqlite3 CLI; returns null when the history can't be read
+export async function getBeadActivity(id: string, dbPath?: string): Promise<ActivityEvent[] | null> {
+  if (!dbPath) return null
+
+  try {
+    const events = await readEvents(dbPath, id)
+    return events && events.filter(e => e.event_type !== "commented").map(convertEvent)
+  } catch (error) {
+    console.warn("Activity read failed:", (error as Error).message)
+    return null
+  }
+}
+
+// Find comment texts matching a search query, keyed by bead ID
+// Needs a database path (several in the all-workspaces view) and the sqlite3 CLI;
+// returns {} when unavailable (search then skips comments)
+export async function searchComments(query: string, dbPath?: string | string[]): Promise<Record<string, string[]>> {
+  const terms = parseSearchTerms(query)
+  const dbPaths = Array.isArray(dbPath) ? dbPath : dbPath ? [dbPath] : []
+  if (dbPaths.length === 0 || terms.length === 0) return {}
+
+  try {
+    const results = await Promise.all(dbPaths.map(path => searchCommentsSqlite(path, terms)))
+    return Object.fromEntries(results.flatMap(matches => Array.from(matches)))
+  } catch (error) {
+    console.warn("Comment search failed:", (error as Error).message)
+    return {}
+  }
+}
@@ -0,0 +1,114 @@
+"use server"
+
+import {
+  getBdInfo,
+  getConfig,
+  setConfig,
+  getCustomStatuses,
+  setCustomStatuses,
+  listBeads,
+  updateBeads,
+  type BdOptions,
+} from "@/lib/bd"
+import { toActionError, type BdErrorCode } from "@/lib/bd-error"
+import {
+  buildStatusDefinitions,
+  mergeStatusDefinitions,
+  toStatusMetadata,
+  CORE_STATUSES,
+  STATUS_METADATA_KEY,
+  STATUS_NAME_PATTERN,
+  type StatusDefinition,
+} from "@/lib/status"
+
+const MIGRATION_BATCH_SIZE = 50
+
+// Get the status definitions for a workspace (core + custom, with their display settings),
+// or the combined statuses of several workspaces
+export async function getStatusDefinitions(dbPath?: string | string[]): Promise<StatusDefinition[]> {
+  if (Array.isArray(dbPath)) {
+    return mergeStatusDefinitions(await Promise.all(dbPath.map(path => getStatusDefinitions(path))))
+  }
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+
+  const [custom, metadata] = await Promise.all([
+    getCustomStatuses(options).catch(() => []),
+    getConfig(STATUS_METADATA_KEY, options),
+  ])
+  let parsed: unknown = null
+  try {
+    parsed = metadata ? JSON.parse(metadata) : null
+  } catch {
+    // Malformed metadata - fall back to the default styles
+  }
+  return buildStatusDefinitions(custom, parsed)
+}
+
+// Save the workspace's statuses. `migrations` maps renamed or removed statuses to the status
+// their beads should move to; beads are migrated before the old status is dropped from bd.
+export async function saveStatusDefinitions(
+  definitions: StatusDefinition[],
+  migrations: Record<string, string>,
+  dbPath?: string
+): Promise<{ success: boolean; error?: string; code?: BdErrorCode; definitions?: StatusDefinition[]; migrated?: number }> {
+  const options: BdOptions = dbPath ? { db: dbPath } : {}
+  const names = definitions.map(d => d.name)
+  const custom = names.filter(name => !CORE_STATUSES.includes(name))
+
+  const invalid = custom.find(name => !STATUS_NAME_PATTERN.test(name))
+  if (invalid) {
+    return { success: false, error: `"${invalid}" isn't a valid status name (use lowercase letters, digits and _)` }
+  }
+  if (new Set(names).size !== names.length) {
+    return { success: false, error: "Status names must be unique" }
+  }
+  if (CORE_STATUSES.some(name => !names.includes(name))) {
+    return { success: false, error: "Core statuses can't be removed" }
+  }
+  const badTarget = Object.values(migrations).find(to => !names.includes(to))
+  if (badTarget) {
+    return { success: false, error: `Can't move beads to unknown status "${badTarget}"` }
+  }
+
+  try {
+    const { capabilities } = await getBdInfo()
+    const previous = await getCustomStatuses(options)
+    const customChanged = previous.join(",") !== custom.join(",")
+    if (customChanged && !capabilities.customStatuses) {
+      return { success: false, error: "This bd version doesn't support custom statuses" }
+    }
+
+    // Refuse to drop a status that beads still use without saying where they go
+    const removed = previous.filter(name => !names.includes(name))
+    const beads = removed.length > 0 || Object.keys(migrations).length > 0 ? await listBeads(options) : []
+    const stranded = removed.filter(name => !migrations[name] && beads.some(b => b.status === name))
+    if (stranded.length > 0) {
+      return { success: false, error: `Beads still use ${stranded.map(s => `"${s}"`).join(", ")} - choose a status to move them to` }
+    }
+
+    // bd must accept both the old and new names while beads move over
+    if (customChanged) {
+      await setCustomStatuses([...new Set([...previous, ...custom])], options)
+    }
+
+    let migrated = 0
+    for (const [from, to] of Object.entries(migrations)) {
+      if (from === to) continue
+      const ids = beads.filter(b => b.status === from).map(b => b.id)
+      for (let i = 0; i < ids.length; i += MIGRATION_BATCH_SIZE) {
+        await updateBeads(ids.slice(i, i + MIGRATION_BATCH_SIZE), { status: to }, options)
+      }
+      migrated += ids.length
+    }
+
+    if (customChanged) {
+      await setCustomStatuses(custom, options)
+    }
+    await setConfig(STATUS_METADATA_KEY, JSON.stringify(toStatusMetadata(definitions)), options)
+
+    return { success: true, definitions: buildStatusDefinitions(custom, toStatusMetadata(definitions)), migrated }
+  } catch (error) {
+    console.error("Failed to save statuses:", error)
+    return { success: false, ...toActionError(error) }
+  }
+}
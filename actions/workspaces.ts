@@ -1,18 +1,126 @@
 "use server"
 
-import { detectWorkspaces, resolveDbPath, type Workspace as DbWorkspace } from "@/lib/db"
-import type { Workspace } from "@/lib/types"
+import { basename, dirname } from "path"
+import {
+  detectWorkspaces,
+  findWorkspaceDb,
+  isDbAccessible,
+  readWorkspaceConfig,
+  resolveDbPath,
+  writeWorkspaceConfig,
+  type Workspace as DbWorkspace,
+} from "@/lib/db"
+import {
+  applyWorkspaceConfig,
+  reorderWorkspaceEntries,
+  updateWorkspaceEntry,
+  type WorkspaceConfig,
+} from "@/lib/workspaces"
+import type { Workspace, WorkspaceColor } from "@/lib/types"
 
-// Get all available workspaces
-export async function getWorkspaces(): Promise<Workspace[]> {
-  const workspaces = await detectWorkspaces()
+type WorkspacesResult = { success: boolean; error?: string; workspaces?: Workspace[] }
 
-  return workspaces.map((ws) => ({
+// Detected workspaces with the manager's settings applied
+async function loadWorkspaces(config: WorkspaceConfig): Promise<Workspace[]> {
+  const detected: Workspace[] = (await detectWorkspaces()).map((ws) => ({
     id: ws.id,
     name: ws.name,
     path: ws.path,
     databasePath: ws.databasePath,
   }))
+  const workspaces = applyWorkspaceConfig(detected, config)
+
+  // Flag workspaces whose database is gone (stale registry entries, deleted projects)
+  return Promise.all(workspaces.map(async (ws) =>
+    ws.databasePath && !(await isDbAccessible(ws.databasePath)) ? { ...ws, missing: true } : ws
+  ))
+}
+
+// Save a config change and return the updated workspace list
+async function saveConfig(config: WorkspaceConfig): Promise<WorkspacesResult> {
+  try {
+    await writeWorkspaceConfig(config)
+    return { success: true, workspaces: await loadWorkspaces(config) }
+  } catch (error) {
+    console.error("Failed to save workspace settings:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Failed to save workspace settings" }
+  }
+}
+
+// Get all available workspaces (including hidden ones - the header leaves those out)
+export async function getWorkspaces(): Promise<Workspace[]> {
+  return loadWorkspaces(await readWorkspaceConfig())
+}
+
+// Add a workspace by project directory or .db path
+export async function addWorkspace(
+  path: string,
+  name?: string,
+  color?: WorkspaceColor
+): Promise<WorkspacesResult> {
+  if (!path.trim()) return { success: false, error: "Enter a directory or database path" }
+
+  const databasePath = await findWorkspaceDb(path.trim())
+  if (!databasePath) {
+    return {
+      success: false,
+      error: path.trim().endsWith(".db")
+        ? `No beads database found at ${path.trim()}`
+        : `No beads database in ${path.trim()} (looked for .beads/*.db)`,
+    }
+  }
+
+  const config = await readWorkspaceConfig()
+  const existing = (await loadWorkspaces(config)).find(ws => ws.databasePath === databasePath)
+  if (existing) {
+    return { success: false, error: `Already added as "${existing.name}"` }
+  }
+
+  const projectPath = dirname(dirname(databasePath)) // <project>/.beads/<name>.db
+  return saveConfig({
+    ...config,
+    workspaces: [
+      ...config.workspaces,
+      {
+        id: `added-${databasePath}`,
+        name: name?.trim() || basename(projectPath),
+        color,
+        path: projectPath,
+        databasePath,
+      },
+    ],
+  })
+}
+
+// Rename, recolor, hide or show a workspace
+export async function updateWorkspace(
+  id: string,
+  changes: { name?: string; color?: WorkspaceColor; hidden?: boolean }
+): Promise<WorkspacesResult> {
+  const config = await readWorkspaceConfig()
+  const entry = config.workspaces.find(e => e.id === id)
+  // An empty name goes back to the detected one (the folder name for added workspaces)
+  const defaultName = entry?.path ? basename(entry.path) : undefined
+  return saveConfig(updateWorkspaceEntry(config, id, {
+    ...changes,
+    ...(changes.name !== undefined && { name: changes.name.trim() || defaultName }),
+  }))
+}
+
+// Set the display order of workspaces
+export async function reorderWorkspaces(ids: string[]): Promise<WorkspacesResult> {
+  const config = await readWorkspaceConfig()
+  return saveConfig(reorderWorkspaceEntries(config, ids))
+}
+
+// Remove a workspace: added ones are forgotten, detected ones are kept out of the list
+export async function removeWorkspace(id: string): Promise<WorkspacesResult> {
+  const config = await readWorkspaceConfig()
+  const entry = config.workspaces.find(e => e.id === id)
+  if (entry?.databasePath) {
+    return saveConfig({ ...config, workspaces: config.workspaces.filter(e => e.id !== id) })
+  }
+  return saveConfig(updateWorkspaceEntry(config, id, { removed: true }))
 }
 
 // Resolve the current database path
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getWriteQueueDepth } from "@/lib/bd"
+
+// Pending bd writes for a database, or summed over several (?db=a&db=b, the all-workspaces view)
+// A route handler rather than a server action: actions from one client run one at a time,
+// so a depth poll would wait behind the very writes it's reporting on
+export async function GET(request: NextRequest) {
+  const dbs = request.nextUrl.searchParams.getAll("db")
+  const depths = await Promise.all(dbs.length > 0 ? dbs.map(db => getWriteQueueDepth({ db })) : [getWriteQueueDepth()])
+  return NextResponse.json({ depth: depths.reduce((sum, depth) => sum + depth, 0) })
+}
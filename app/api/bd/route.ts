@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { execFile } from "child_process"
 import { promisify } from "util"
+import { getBdInfo } from "@/lib/bd"
 
 const execFileAsync = promisify(execFile)
 
@@ -29,7 +30,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const bdArgs = ["--no-daemon", "--allow-stale"]
+    const { capabilities } = await getBdInfo()
+    const bdArgs: string[] = []
+    if (capabilities.noDaemon) bdArgs.push("--no-daemon")
+    if (capabilities.allowStale) bdArgs.push("--allow-stale")
     if (db && typeof db === "string" && !/[;&|`$(){}]/.test(db)) {
       bdArgs.push("--db", db)
     }
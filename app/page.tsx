@@ -9,17 +9,44 @@ declare global {
 import { useState, useEffect, useMemo, useTransition, useCallback, Suspense, useRef } from "react"
 import { useSearchParams, useRouter } from "next/navigation"
 import { Header } from "@/components/header"
-import { EpicTree } from "@/components/epic-tree"
+import { EpicTree, type TreeSection } from "@/components/epic-tree"
 import { BeadDetailPanel } from "@/components/bead-detail-panel"
 import { FilterBar, type Filters, type SortOption } from "@/components/filter-bar"
-import { getEpics, getBeadDetail, getBeadComments } from "@/actions/epics"
-import { getWorkspaces } from "@/actions/workspaces"
-import { updateBeadStatus, updateBeadPriority, updateBeadParent, addComment as addCommentAction, deleteBead, archiveBead, backlogBead, getAvailableStatuses } from "@/actions/beads"
+import { CreateBeadDialog } from "@/components/create-bead-dialog"
+import { BulkActionBar } from "@/components/bulk-action-bar"
+import { SavedViewsMenu } from "@/components/saved-views-menu"
+import { LabelManagerDialog } from "@/components/label-manager-dialog"
+import { CommandPalette } from "@/components/command-palette"
+import { StatusSettingsDialog } from "@/components/status-settings-dialog"
+import { WorkspaceManagerDialog } from "@/components/workspace-manager-dialog"
+import { ReadyQueue, type ReadyGrouping } from "@/components/ready-queue"
+import { KanbanBoard, type BoardCard, type Swimlanes } from "@/components/kanban-board"
+import { DependencyGraph } from "@/components/dependency-graph"
+import { MetricsDashboard } from "@/components/metrics-dashboard"
+import { LayoutSwitcher, parseBoardLayout, type BoardLayout } from "@/components/layout-switcher"
+import { Button } from "@/components/ui/button"
+import { Plus } from "lucide-react"
+import { getEpicsWithTrash, getEpicsForWorkspaces, getReadyBeads, getReadyBeadsForWorkspaces, getDependencyGraph, getDependencyGraphForWorkspaces, getBeadDetail, getBeadComments, searchComments } from "@/actions/epics"
+import { getWorkspaces, addWorkspace, updateWorkspace, reorderWorkspaces, removeWorkspace } from "@/actions/workspaces"
+import { createBead, updateBeadStatus, updateBeadPriority, updateBeadParent, addComment as addCommentAction, deleteBead, restoreBead, purgeBead, archiveBead, backlogBead, bulkUpdateBeads, claimBead, getBdInfo, getCurrentUser } from "@/actions/beads"
+import { getStatusDefinitions, saveStatusDefinitions } from "@/actions/statuses"
 import { useWebSocket } from "@/hooks/use-websocket"
+import { useUndoHistory } from "@/hooks/use-undo-history"
+import { useWriteQueueDepth } from "@/hooks/use-write-queue-depth"
+import { invertBulkAction, type BulkStep } from "@/lib/undo"
+import { parseSearchTerms, searchBead, type SearchHit, type SearchState } from "@/lib/search"
+import { getClauseValues, matchesQuery, parseQuery, type ParsedQuery, type QueryContext } from "@/lib/query"
+import { DEFAULT_STATUS_DEFINITIONS, statusRank, type StatusDefinition } from "@/lib/status"
+import type { DependencyGraph as Graph } from "@/lib/graph"
+import type { MetricsRange } from "@/lib/metrics"
+import { bdErrorInfo } from "@/lib/bd-error"
+import { toastActionError } from "@/lib/error-toast"
 import { getWorkspaceCookie, setWorkspaceCookie } from "@/lib/workspace-cookie"
-import { getSortPreference, setSortPreference, getFiltersPreference, setFiltersPreference } from "@/lib/local-storage"
+import { ALL_WORKSPACES, aggregatedWorkspaces } from "@/lib/workspaces"
+import { getSortPreference, setSortPreference, getFiltersPreference, setFiltersPreference, getSavedViews, setSavedViews, getReadyGroupingPreference, setReadyGroupingPreference, getSwimlanesPreference, setSwimlanesPreference, getWipLimits, setWipLimits, getMetricsRangePreference, setMetricsRangePreference } from "@/lib/local-storage"
+import { DEFAULT_SECTIONS, decodeViewParam, encodeViewParam, exportViews, mergeViews, parseViewsFile, viewMatches, type SavedView, type ViewDefinition } from "@/lib/views"
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable"
-import type { Workspace, Epic, Bead, BeadStatus, BeadPriority, Comment } from "@/lib/types"
+import type { Workspace, Epic, Bead, BeadWorkspace, BdInfo, BeadStatus, BeadPriority, Comment, CreateBeadInput, BulkAction, BulkFailure, BeadLink } from "@/lib/types"
 import { toast } from "sonner"
 import {
   AlertDialog,
@@ -54,41 +81,104 @@ function extractAssignees(epics: Epic[]): string[] {
   return Array.from(assignees).sort()
 }
 
-// Filter beads based on criteria
-function matchesBead(bead: Bead, filters: Filters): boolean {
-  // Hide messages unless explicitly shown
-  if (!filters.showMessages && bead.type === "message") {
-    return false
+// Map every label in use to the IDs of the beads carrying it
+function collectLabelUsage(epics: Epic[]): Map<string, string[]> {
+  const usage = new Map<string, string[]>()
+
+  function traverseBead(bead: Bead) {
+    bead.labels?.forEach(label => usage.set(label, [...(usage.get(label) ?? []), bead.id]))
+    bead.children?.forEach(traverseBead)
   }
-  if (filters.status !== "all" && bead.status !== filters.status) {
-    return false
+
+  function traverseEpic(epic: Epic) {
+    if (epic.id !== "_standalone") traverseBead(epic)
+    else epic.children.forEach(traverseBead)
+    epic.childEpics?.forEach(traverseEpic)
   }
-  if (filters.priority !== "all" && bead.priority !== filters.priority) {
+
+  epics.forEach(traverseEpic)
+  return usage
+}
+
+// Count beads per status (for the status settings)
+function collectStatusUsage(epics: Epic[]): Map<string, number> {
+  const usage = new Map<string, number>()
+
+  function traverseBead(bead: Bead) {
+    usage.set(bead.status, (usage.get(bead.status) ?? 0) + 1)
+    bead.children?.forEach(traverseBead)
+  }
+
+  function traverseEpic(epic: Epic) {
+    if (epic.id !== "_standalone") traverseBead(epic)
+    else epic.children.forEach(traverseBead)
+    epic.childEpics?.forEach(traverseEpic)
+  }
+
+  epics.forEach(traverseEpic)
+  return usage
+}
+
+// Run a full-text search over the whole tree
+// `best` holds each bead's top score among itself and its descendants, used to rank matches
+function searchTree(epics: Epic[], terms: string[], commentMatches: Record<string, string[]>): SearchState | null {
+  if (terms.length === 0) return null
+
+  const hits = new Map<string, SearchHit>()
+  const best = new Map<string, number>()
+
+  function visitBead(bead: Bead): number {
+    const hit = searchBead(bead, terms, commentMatches[bead.id])
+    if (hit) hits.set(bead.id, hit)
+    let score = hit?.score ?? 0
+    bead.children?.forEach(child => { score = Math.max(score, visitBead(child)) })
+    best.set(bead.id, score)
+    return score
+  }
+
+  function visitEpic(epic: Epic): number {
+    let score = visitBead(epic)
+    epic.childEpics?.forEach(child => { score = Math.max(score, visitEpic(child)) })
+    best.set(epic.id, score)
+    return score
+  }
+
+  epics.forEach(visitEpic)
+  return { terms, hits, best }
+}
+
+// Everything the tree is filtered by, resolved from Filters
+interface FilterCriteria {
+  showMessages: boolean
+  query: ParsedQuery       // Clauses from the search box
+  context: QueryContext
+  search: SearchState | null // Full-text matches for the free text in the search box
+}
+
+// Filter beads based on criteria
+function matchesBead(bead: Bead, criteria: FilterCriteria): boolean {
+  // Hide messages unless shown, or asked for with type:message
+  if (bead.type === "message" && !criteria.showMessages && !getClauseValues(criteria.query, "type").includes("message")) {
     return false
   }
-  if (filters.assignee !== "all" && bead.assignee !== filters.assignee) {
+  if (!matchesQuery(bead, criteria.query, criteria.context)) {
     return false
   }
-  if (filters.search) {
-    const searchLower = filters.search.toLowerCase()
-    const matchesTitle = bead.title.toLowerCase().includes(searchLower)
-    const matchesId = bead.id.toLowerCase().includes(searchLower)
-    if (!matchesTitle && !matchesId) {
-      return false
-    }
+  if (criteria.search && !criteria.search.hits.has(bead.id)) {
+    return false
   }
   return true
 }
 
 // Recursively filter a bead and its children
-function filterBead(bead: Bead, filters: Filters): Bead | null {
+function filterBead(bead: Bead, criteria: FilterCriteria): Bead | null {
   // Recursively filter children first
   const filteredChildren = bead.children
-    ?.map((child) => filterBead(child, filters))
+    ?.map((child) => filterBead(child, criteria))
     .filter((b): b is Bead => b !== null)
 
   // Check if bead itself matches
-  const beadMatches = matchesBead(bead, filters)
+  const beadMatches = matchesBead(bead, criteria)
 
   // Keep bead if it matches or has matching children
   if (beadMatches || (filteredChildren && filteredChildren.length > 0)) {
@@ -102,15 +192,15 @@ function filterBead(bead: Bead, filters: Filters): Bead | null {
 }
 
 // Recursively filter epics - keep epic if it or any descendant matches
-function filterEpic(epic: Epic, filters: Filters): Epic | null {
+function filterEpic(epic: Epic, criteria: FilterCriteria): Epic | null {
   // Filter child beads (including their subtasks)
   const filteredChildren = (epic.children ?? [])
-    .map((child) => filterBead(child, filters))
+    .map((child) => filterBead(child, criteria))
     .filter((b): b is Bead => b !== null)
 
   // Recursively filter child epics
   const filteredChildEpics = epic.childEpics
-    ?.map((childEpic) => filterEpic(childEpic, filters))
+    ?.map((childEpic) => filterEpic(childEpic, criteria))
     .filter((e): e is Epic => e !== null) ?? []
 
   // The _standalone pseudo-epic should only show if it has matching children
@@ -123,7 +213,7 @@ function filterEpic(epic: Epic, filters: Filters): Epic | null {
   }
 
   // Check if epic itself matches
-  const epicMatches = matchesBead(epic, filters)
+  const epicMatches = matchesBead(epic, criteria)
 
   // Keep epic if it matches, or has matching descendants
   if (epicMatches || filteredChildren.length > 0 || filteredChildEpics.length > 0) {
@@ -137,37 +227,22 @@ function filterEpic(epic: Epic, filters: Filters): Epic | null {
   return null
 }
 
-function filterEpics(epics: Epic[], filters: Filters): Epic[] {
+function filterEpics(epics: Epic[], criteria: FilterCriteria): Epic[] {
   // If no filters applied, return all
-  if (
-    filters.status === "all" &&
-    filters.priority === "all" &&
-    filters.assignee === "all" &&
-    !filters.search &&
-    filters.showMessages
-  ) {
+  if (criteria.query.clauses.length === 0 && !criteria.search && criteria.showMessages) {
     return epics
   }
 
   return epics
-    .map((epic) => filterEpic(epic, filters))
+    .map((epic) => filterEpic(epic, criteria))
     .filter((e): e is Epic => e !== null)
 }
 
 // Priority order for sorting (lower = higher priority)
-const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 }
-// Status order for sorting (higher = closer to completion)
-const statusOrder: Record<string, number> = {
-  open: 0,
-  in_progress: 1,
-  ready_for_qa: 2,
-  in_qa: 3,
-  qa_passed: 4,
-  ready_to_ship: 5,
-  closed: 6,
-}
+const priorityOrder: Record<BeadPriority, number> = { critical: 0, high: 1, medium: 2, low: 3, none: 4 }
 
-function compareBead(a: Bead, b: Bead, sort: SortOption): number {
+// Status sorts by its position in the workspace workflow
+function compareBead(a: Bead, b: Bead, sort: SortOption, statuses: StatusDefinition[]): number {
   let cmp = 0
   switch (sort.field) {
     case "title":
@@ -177,7 +252,7 @@ function compareBead(a: Bead, b: Bead, sort: SortOption): number {
       cmp = (priorityOrder[a.priority] ?? 99) - (priorityOrder[b.priority] ?? 99)
       break
     case "status":
-      cmp = (statusOrder[a.status] ?? 99) - (statusOrder[b.status] ?? 99)
+      cmp = statusRank(statuses, a.status) - statusRank(statuses, b.status)
       break
     case "updated":
       cmp = (a.updatedAt?.getTime() ?? 0) - (b.updatedAt?.getTime() ?? 0)
@@ -186,23 +261,29 @@ function compareBead(a: Bead, b: Bead, sort: SortOption): number {
   return sort.direction === "asc" ? cmp : -cmp
 }
 
-function sortBeads(beads: Bead[], sort: SortOption): Bead[] {
+// While searching, best matches (including matching descendants) come first
+function compareSearchRank(a: Bead, b: Bead, search: SearchState | null): number {
+  if (!search) return 0
+  return (search.best.get(b.id) ?? 0) - (search.best.get(a.id) ?? 0)
+}
+
+function sortBeads(beads: Bead[], sort: SortOption, search: SearchState | null, statuses: StatusDefinition[]): Bead[] {
   return [...beads]
     .map((bead) => ({
       ...bead,
-      children: bead.children ? sortBeads(bead.children, sort) : undefined,
+      children: bead.children ? sortBeads(bead.children, sort, search, statuses) : undefined,
     }))
-    .sort((a, b) => compareBead(a, b, sort))
+    .sort((a, b) => compareSearchRank(a, b, search) || compareBead(a, b, sort, statuses))
 }
 
-function sortEpics(epics: Epic[], sort: SortOption): Epic[] {
+function sortEpics(epics: Epic[], sort: SortOption, search: SearchState | null, statuses: StatusDefinition[]): Epic[] {
   return [...epics]
     .map((epic) => ({
       ...epic,
-      children: sortBeads(epic.children ?? [], sort),
-      childEpics: epic.childEpics ? sortEpics(epic.childEpics, sort) : undefined,
+      children: sortBeads(epic.children ?? [], sort, search, statuses),
+      childEpics: epic.childEpics ? sortEpics(epic.childEpics, sort, search, statuses) : undefined,
     }))
-    .sort((a, b) => compareBead(a, b, sort))
+    .sort((a, b) => compareSearchRank(a, b, search) || compareBead(a, b, sort, statuses))
 }
 
 // Build parent path for a bead
@@ -252,6 +333,75 @@ function findBeadById(epics: Epic[], beadId: string): Bead | null {
   return null
 }
 
+// Flatten all real epics (including nested ones) for parent pickers
+function flattenEpics(epics: Epic[]): { id: string; title: string; workspaceId?: string }[] {
+  const result: { id: string; title: string; workspaceId?: string }[] = []
+  function visit(epic: Epic) {
+    if (epic.id !== "_standalone") {
+      result.push({ id: epic.id, title: epic.title, workspaceId: epic.workspace?.id })
+    }
+    epic.childEpics?.forEach(visit)
+  }
+  epics.forEach(visit)
+  return result
+}
+
+// Flatten every bead and epic into ID/title pairs for bead pickers
+function flattenBeadOptions(epics: Epic[]): { id: string; title: string }[] {
+  const result: { id: string; title: string }[] = []
+  function visitBead(bead: Bead) {
+    result.push({ id: bead.id, title: bead.title })
+    bead.children?.forEach(visitBead)
+  }
+  function visitEpic(epic: Epic) {
+    if (epic.id !== "_standalone") {
+      result.push({ id: epic.id, title: epic.title })
+    }
+    epic.children?.forEach(visitBead)
+    epic.childEpics?.forEach(visitEpic)
+  }
+  epics.forEach(visitEpic)
+  return result
+}
+
+// Insert a new bead under its parent epic (or as a loose bead / top-level epic)
+function insertBead(epics: Epic[], bead: Bead, parentId?: string): Epic[] {
+  const asEpic = (): Epic => ({ ...bead, type: "epic", children: [], childEpics: [] })
+
+  if (!parentId) {
+    if (bead.type === "epic") {
+      return [...epics, asEpic()]
+    }
+    const hasStandalone = epics.some(e => e.id === "_standalone")
+    if (!hasStandalone) {
+      return [...epics, {
+        id: "_standalone",
+        type: "epic",
+        title: "Beads (No Epic)",
+        description: "Beads without a parent epic",
+        status: "open",
+        priority: "low",
+        assignee: "",
+        labels: [],
+        comments: [],
+        children: [bead],
+        childEpics: [],
+      }]
+    }
+    return epics.map(e => e.id === "_standalone" ? { ...e, children: [...e.children, bead] } : e)
+  }
+
+  const insertInto = (epic: Epic): Epic => {
+    if (epic.id === parentId) {
+      return bead.type === "epic"
+        ? { ...epic, childEpics: [...(epic.childEpics ?? []), asEpic()] }
+        : { ...epic, children: [...(epic.children ?? []), bead] }
+    }
+    return { ...epic, childEpics: epic.childEpics?.map(insertInto) }
+  }
+  return epics.map(insertInto)
+}
+
 // Check if childId is a descendant of the epic with parentId (to prevent circular references)
 function isDescendantOf(parentId: string, childId: string, epics: Epic[]): boolean {
   function checkEpic(epic: Epic): boolean {
@@ -268,6 +418,113 @@ function isDescendantOf(parentId: string, childId: string, epics: Epic[]): boole
   return findAndCheck(epics)
 }
 
+// Every non-epic bead with its nearest epic, for the board (archived beads stay off it)
+function flattenBoardCards(epics: Epic[]): BoardCard[] {
+  const result: BoardCard[] = []
+
+  function traverseBead(bead: Bead, epic?: Epic) {
+    if (!bead.labels?.includes("archived")) {
+      result.push({ bead, epic: epic && { id: epic.id, title: epic.title } })
+    }
+    bead.children?.forEach(child => traverseBead(child, epic))
+  }
+
+  function traverseEpic(epic: Epic) {
+    if (epic.labels?.includes("archived")) return
+    const parent = epic.id === "_standalone" ? undefined : epic
+    epic.children?.forEach(child => traverseBead(child, parent))
+    epic.childEpics?.forEach(traverseEpic)
+  }
+
+  epics.forEach(traverseEpic)
+  return result
+}
+
+// Index every bead and epic in the tree by ID
+function indexBeads(epics: Epic[]): Map<string, Bead> {
+  const result = new Map<string, Bead>()
+
+  function traverseBead(bead: Bead) {
+    result.set(bead.id, bead)
+    bead.children?.forEach(traverseBead)
+  }
+
+  function traverseEpic(epic: Epic) {
+    if (epic.id !== "_standalone") result.set(epic.id, epic)
+    epic.children?.forEach(traverseBead)
+    epic.childEpics?.forEach(traverseEpic)
+  }
+
+  epics.forEach(traverseEpic)
+  return result
+}
+
+// Map every loaded bead ID to the workspaces holding it (all-workspaces view).
+// Two databases with the same prefix can both hold an ID, so one ID can map to several workspaces.
+function collectBeadWorkspaces(epics: Epic[], trash: Bead[]): Map<string, BeadWorkspace[]> {
+  const result = new Map<string, BeadWorkspace[]>()
+
+  function traverseBead(bead: Bead) {
+    const workspace = bead.workspace
+    const holders = result.get(bead.id) ?? []
+    if (workspace && !holders.some(ws => ws.id === workspace.id)) result.set(bead.id, [...holders, workspace])
+    bead.children?.forEach(traverseBead)
+  }
+
+  function traverseEpic(epic: Epic) {
+    traverseBead(epic)
+    epic.children?.forEach(traverseBead)
+    epic.childEpics?.forEach(traverseEpic)
+  }
+
+  epics.forEach(traverseEpic)
+  trash.forEach(traverseBead)
+  return result
+}
+
+// Database a bead's writes go to: a path, undefined for the default database,
+// or null when the all-workspaces view can't tell which workspace holds the bead
+type DbPathResolver = (id: string) => string | undefined | null
+
+const UNKNOWN_WORKSPACE_ERROR = "Couldn't tell which workspace this bead belongs to"
+
+function toastUnknownWorkspace(beadId: string) {
+  toast.error(`Couldn't tell which workspace ${beadId} belongs to`, {
+    description: "Nothing was changed. Open the bead from its own workspace to edit it.",
+  })
+}
+
+// Split bead IDs by the database they live in (null: the workspace is unknown)
+function groupByDbPath(ids: string[], dbPathFor: DbPathResolver): Map<string | undefined | null, string[]> {
+  const groups = new Map<string | undefined | null, string[]>()
+  for (const id of ids) {
+    const dbPath = dbPathFor(id)
+    groups.set(dbPath, [...(groups.get(dbPath) ?? []), id])
+  }
+  return groups
+}
+
+// Run bulk steps in order, merging per-bead failures into one result
+async function runBulkSteps(
+  steps: BulkStep[],
+  dbPathFor: DbPathResolver
+): Promise<{ success: boolean; error?: string }> {
+  const failed: string[] = []
+  for (const step of steps) {
+    for (const [dbPath, ids] of groupByDbPath(step.ids, dbPathFor)) {
+      if (dbPath === null) {
+        failed.push(...ids)
+        continue
+      }
+      const result = await bulkUpdateBeads(ids, step.action, dbPath)
+      failed.push(...result.failed.map(f => f.id))
+    }
+  }
+  return failed.length === 0
+    ? { success: true }
+    : { success: false, error: `Failed for ${failed.join(", ")}` }
+}
+
 function BeadsEpicsViewer() {
   const [isDark, setIsDark] = useState(true)
   const [workspaces, setWorkspaces] = useState<Workspace[]>([])
@@ -277,9 +534,6 @@ function BeadsEpicsViewer() {
   const [loadingWorkspaceId, setLoadingWorkspaceId] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
   const [filters, setFiltersState] = useState<Filters>({
-    status: "all",
-    assignee: "all",
-    priority: "all",
     showMessages: false,
     search: "",
   })
@@ -328,6 +582,19 @@ function BeadsEpicsViewer() {
   // Local state for expanded beads (subtasks) - kept separate from URL to avoid clutter
   const [expandedBeads, setExpandedBeads] = useState<Set<string>>(new Set())
 
+  // URL-based layout of the left panel (tree or ready queue)
+  const layout = parseBoardLayout(searchParams.get("layout"))
+
+  const handleLayoutChange = useCallback((next: BoardLayout) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (next === "tree") {
+      params.delete("layout")
+    } else {
+      params.set("layout", next)
+    }
+    router.replace(`?${params.toString()}`, { scroll: false })
+  }, [searchParams, router])
+
   // URL-based bead selection state
   const beadIdParam = searchParams.get("bead")
   const [selectedBead, setSelectedBead] = useState<Bead | null>(null)
@@ -336,15 +603,65 @@ function BeadsEpicsViewer() {
   // Delete confirmation state
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
 
+  // Trash (tombstoned beads) and purge confirmation state
+  // null until loaded: without the SQLite source the trash is only listed while its section is open
+  const [trashBeads, setTrashBeads] = useState<Bead[] | null>(null)
+  const [purgeConfirmBead, setPurgeConfirmBead] = useState<Bead | null>(null)
+  // Dependencies of beads deleted in this session, by database and id, so restoring from the
+  // trash can re-add them (bd drops them on delete)
+  const deletedLinksRef = useRef(new Map<string, BeadLink[]>())
+
+  // Create dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+
   // Keyboard navigation focus state (separate from URL-based selection)
   const [focusedItemId, setFocusedItemId] = useState<string | null>(null)
 
+  // Multi-select state for bulk actions (shift/ctrl-click, Shift+arrows)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const selectionAnchorRef = useRef<string | null>(null)
+  const [isBulkRunning, setIsBulkRunning] = useState(false)
+  const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false)
+
   // Panel focus state for left/right navigation
   const [focusedPanel, setFocusedPanel] = useState<"left" | "right">("left")
   const detailPanelRef = useRef<{ navigateComments: (direction: "up" | "down") => void; scrollToLatestComment: () => void } | null>(null)
 
-  // Available statuses for the current workspace (core + custom)
-  const [availableStatuses, setAvailableStatuses] = useState<string[]>(["open", "in_progress", "closed"])
+  // Statuses for the current workspace (core + custom, with their display settings)
+  const [statusDefinitions, setStatusDefinitions] = useState<StatusDefinition[]>(DEFAULT_STATUS_DEFINITIONS)
+
+  // All-workspaces view: beads come from several databases, so writes go to each bead's own
+  const isAllWorkspaces = currentWorkspace?.id === ALL_WORKSPACES.id
+  const aggregated = useMemo(() => aggregatedWorkspaces(workspaces), [workspaces])
+  const aggregatedDbPaths = useMemo(() => aggregated.map(ws => ws.databasePath!), [aggregated])
+  // Writes there go to each bead's own database, so the indicator sums their queues
+  const pendingWrites = useWriteQueueDepth(isAllWorkspaces ? aggregatedDbPaths : currentWorkspace?.databasePath, isPending)
+  const beadWorkspaces = useMemo(
+    () => isAllWorkspaces ? collectBeadWorkspaces(epics, trashBeads ?? []) : new Map<string, BeadWorkspace[]>(),
+    [isAllWorkspaces, epics, trashBeads]
+  )
+  // The bead's own workspace wins; by ID alone only when exactly one workspace holds it.
+  // Never falls back to the default database in the all-workspaces view (null instead).
+  const dbPathFor = useCallback(
+    (beadId: string, workspace?: BeadWorkspace): string | undefined | null => {
+      if (!isAllWorkspaces) return currentWorkspace?.databasePath
+      const holders = workspace ? [workspace] : beadWorkspaces.get(beadId) ?? []
+      return holders.length === 1 && holders[0].databasePath ? holders[0].databasePath : null
+    },
+    [isAllWorkspaces, beadWorkspaces, currentWorkspace?.databasePath]
+  )
+
+  // Installed bd version and capabilities (detected once per server)
+  const [bdInfo, setBdInfo] = useState<BdInfo | null>(null)
+  useEffect(() => {
+    getBdInfo().then(setBdInfo).catch(() => setBdInfo(null))
+  }, [])
+
+  // Current user, for assignee:me
+  const [currentUser, setCurrentUser] = useState<string | undefined>(undefined)
+  useEffect(() => {
+    getCurrentUser().then(setCurrentUser).catch(() => setCurrentUser(undefined))
+  }, [])
 
   // Ref for scrolling focused items into view
   const treeContainerRef = useRef<HTMLDivElement>(null)
@@ -378,11 +695,14 @@ function BeadsEpicsViewer() {
     // New bead - show cached data immediately, then fetch full details with comments
     loadedBeadIdRef.current = beadIdParam
     setSelectedBead(cachedBead)
+    const dbPath = dbPathFor(beadIdParam, cachedBead.workspace)
+    if (dbPath === null) return
     setIsLoadingBead(true)
 
-    getBeadDetail(beadIdParam, currentWorkspace?.databasePath)
-      .then((fullBead) => {
-        if (fullBead) {
+    getBeadDetail(beadIdParam, dbPath)
+      .then((detail) => {
+        if (detail) {
+          const fullBead = { ...detail, workspace: cachedBead.workspace }
           setSelectedBead(fullBead)
           // If data changed externally, update the bead in epics without full reload
           const hasChanges =
@@ -397,14 +717,15 @@ function BeadsEpicsViewer() {
       .finally(() => {
         setIsLoadingBead(false)
       })
-  }, [beadIdParam, epics, currentWorkspace?.databasePath])
+  }, [beadIdParam, epics, dbPathFor])
   // Poll for comment updates when a bead is selected (every 5 seconds)
+  const selectedDbPath = selectedBead ? dbPathFor(selectedBead.id, selectedBead.workspace) : undefined
   useEffect(() => {
-    if (!selectedBead || !currentWorkspace?.databasePath) return
+    if (!selectedBead || !selectedDbPath) return
 
     const pollComments = async () => {
       try {
-        const freshComments = await getBeadComments(selectedBead.id, currentWorkspace.databasePath)
+        const freshComments = await getBeadComments(selectedBead.id, selectedDbPath)
         setSelectedBead(prev => {
           if (!prev || prev.id !== selectedBead.id) return prev
           // Only update if comments actually changed
@@ -422,7 +743,7 @@ function BeadsEpicsViewer() {
 
     const interval = setInterval(pollComments, 5000)
     return () => clearInterval(interval)
-  }, [selectedBead?.id, currentWorkspace?.databasePath])
+  }, [selectedBead?.id, selectedDbPath])
 
   const parentPath = useMemo(() => {
     if (!beadIdParam) return []
@@ -448,6 +769,137 @@ function BeadsEpicsViewer() {
     router.replace(`?${params.toString()}`, { scroll: false })
   }, [expandedEpics, searchParams, router])
 
+  // Open tree sections (Epics, Backlog, Archived, Trash)
+  const [openSections, setOpenSections] = useState<Set<TreeSection>>(() => new Set(DEFAULT_SECTIONS))
+  // Read by loadEpics, which only lists the trash (another bd call) while the section is open
+  const isTrashOpen = openSections.has("trash")
+  const isTrashOpenRef = useRef(isTrashOpen)
+  useEffect(() => {
+    isTrashOpenRef.current = isTrashOpen
+  }, [isTrashOpen])
+
+  const handleToggleSection = useCallback((section: TreeSection) => {
+    setOpenSections((prev) => {
+      const next = new Set(prev)
+      if (next.has(section)) {
+        next.delete(section)
+      } else {
+        next.add(section)
+      }
+      return next
+    })
+  }, [])
+
+  // Saved views (named filter/sort/layout presets)
+  const [savedViews, setSavedViewsState] = useState<SavedView[]>([])
+
+  useEffect(() => {
+    setSavedViewsState(getSavedViews())
+  }, [])
+
+  const updateSavedViews = useCallback((views: SavedView[]) => {
+    setSavedViewsState(views)
+    setSavedViews(views)
+  }, [])
+
+  const activeViewId = useMemo(
+    () => savedViews.find(v => viewMatches(v, filters, sort, openSections))?.id ?? null,
+    [savedViews, filters, sort, openSections]
+  )
+
+  const captureView = useCallback((name: string): ViewDefinition => ({
+    name,
+    filters,
+    sort,
+    expandedEpics: Array.from(expandedEpics),
+    openSections: Array.from(openSections),
+  }), [filters, sort, expandedEpics, openSections])
+
+  const applyView = useCallback((view: ViewDefinition) => {
+    setFilters(view.filters)
+    setSort(view.sort)
+    setOpenSections(new Set(view.openSections))
+
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete("share")
+    if (view.expandedEpics.length > 0) {
+      params.set("expanded", view.expandedEpics.join(","))
+    } else {
+      params.delete("expanded")
+    }
+    router.replace(`?${params.toString()}`, { scroll: false })
+  }, [setFilters, setSort, searchParams, router])
+
+  const handleSaveView = useCallback((name: string) => {
+    updateSavedViews(mergeViews(savedViews, [captureView(name)]))
+    toast.success(`Saved view "${name}"`)
+  }, [savedViews, captureView, updateSavedViews])
+
+  const handleUpdateView = useCallback((view: SavedView) => {
+    updateSavedViews(savedViews.map(v => v.id === view.id ? { ...captureView(view.name), id: view.id } : v))
+    toast.success(`Updated view "${view.name}"`)
+  }, [savedViews, captureView, updateSavedViews])
+
+  const handleDeleteView = useCallback((view: SavedView) => {
+    const previous = savedViews
+    updateSavedViews(savedViews.filter(v => v.id !== view.id))
+    toast.success(`Deleted view "${view.name}"`, {
+      action: { label: "Undo", onClick: () => updateSavedViews(previous) },
+    })
+  }, [savedViews, updateSavedViews])
+
+  const handleCopyViewLink = useCallback(async (view: SavedView | null) => {
+    const param = encodeViewParam(view ?? captureView("Shared view"))
+    const url = `${window.location.origin}${window.location.pathname}?share=${param}`
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success("Link copied to clipboard")
+    } catch (err) {
+      console.error("Failed to copy:", err)
+      toast.error("Couldn't copy the link")
+    }
+  }, [captureView])
+
+  const handleExportViews = useCallback(() => {
+    const blob = new Blob([exportViews(savedViews)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "beads-views.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [savedViews])
+
+  const handleImportViews = useCallback(async (file: File) => {
+    try {
+      const imported = parseViewsFile(await file.text())
+      updateSavedViews(mergeViews(savedViews, imported))
+      toast.success(`Imported ${imported.length} view${imported.length === 1 ? "" : "s"}`)
+    } catch (error) {
+      toast.error("Couldn't import views", { description: (error as Error).message })
+    }
+  }, [savedViews, updateSavedViews])
+
+  // Apply a view shared as ?share=... and offer to save it
+  const shareParam = searchParams.get("share")
+  const handledShareRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!shareParam || handledShareRef.current === shareParam) return
+    handledShareRef.current = shareParam
+    const view = decodeViewParam(shareParam)
+    if (!view) {
+      toast.error("This shared view link is invalid")
+      return
+    }
+    applyView(view)
+    toast(`Showing shared view "${view.name}"`, {
+      action: {
+        label: "Save",
+        onClick: () => updateSavedViews(mergeViews(getSavedViews(), [view])),
+      },
+    })
+  }, [shareParam, applyView, updateSavedViews])
+
   const handleToggleBead = useCallback((beadId: string) => {
     setExpandedBeads((prev) => {
       const next = new Set(prev)
@@ -461,8 +913,56 @@ function BeadsEpicsViewer() {
   }, [])
 
   const assignees = useMemo(() => extractAssignees(epics), [epics])
-  const filteredEpics = useMemo(() => filterEpics(epics, filters), [epics, filters])
-  const sortedEpics = useMemo(() => sortEpics(filteredEpics, sort), [filteredEpics, sort])
+  const epicOptions = useMemo(() => flattenEpics(epics), [epics])
+  const beadOptions = useMemo(() => flattenBeadOptions(epics), [epics])
+  const labelUsage = useMemo(() => collectLabelUsage(epics), [epics])
+  const labels = useMemo(() => Array.from(labelUsage.keys()).sort(), [labelUsage])
+  const labelCounts = useMemo(
+    () => Array.from(labelUsage, ([label, ids]) => ({ label, count: ids.length }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    [labelUsage]
+  )
+  const statusUsage = useMemo(() => collectStatusUsage(epics), [epics])
+  const query = useMemo(() => parseQuery(filters.search), [filters.search])
+
+  // Comments matching the search, fetched from the database (debounced). Refetched on websocket
+  // change events rather than on every tree reload, so polling doesn't repeat the search
+  const [commentMatches, setCommentMatches] = useState<Record<string, string[]>>({})
+  const [changeCount, setChangeCount] = useState(0)
+  useEffect(() => {
+    if (!query.text.trim()) {
+      setCommentMatches({})
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const matches = await searchComments(query.text, isAllWorkspaces ? aggregatedDbPaths : currentWorkspace?.databasePath)
+      if (!cancelled) setCommentMatches(matches)
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query.text, isAllWorkspaces, aggregatedDbPaths, currentWorkspace?.databasePath, changeCount])
+
+  const search = useMemo(
+    () => searchTree(epics, parseSearchTerms(query.text), commentMatches),
+    [epics, query.text, commentMatches]
+  )
+  const criteria = useMemo<FilterCriteria>(
+    () => ({
+      showMessages: filters.showMessages,
+      query,
+      context: { me: currentUser, now: Date.now() },
+      search,
+    }),
+    [filters.showMessages, query, currentUser, search]
+  )
+  const filteredEpics = useMemo(() => filterEpics(epics, criteria), [epics, criteria])
+  const sortedEpics = useMemo(
+    () => sortEpics(filteredEpics, sort, search, statusDefinitions),
+    [filteredEpics, sort, search, statusDefinitions]
+  )
 
   // Helper to check if a bead is backlogged
   const isBacklogged = useCallback((b: Bead) => b.labels?.includes("backlog"), [])
@@ -563,6 +1063,20 @@ function BeadsEpicsViewer() {
     return { navigableItems: items, itemIndexMap: indexMap }
   }, [activeEpicsWithFilteredStandalone, backlogBeads, backlogEpics, archivedEpics, expandedEpics, expandedBeads])
 
+  // IDs of navigable items between two items (inclusive), for range selection
+  const getRangeIds = useCallback((fromId: string, toId: string): Set<string> => {
+    const from = itemIndexMap.get(fromId)
+    const to = itemIndexMap.get(toId)
+    if (from === undefined || to === undefined) return new Set([toId])
+    const [start, end] = from <= to ? [from, to] : [to, from]
+    return new Set(
+      navigableItems
+        .slice(start, end + 1)
+        .map(item => item.id)
+        .filter(id => id !== "_standalone")
+    )
+  }, [navigableItems, itemIndexMap])
+
   // Fetch workspaces on mount and restore saved selection
   useEffect(() => {
     async function loadWorkspaces() {
@@ -572,11 +1086,13 @@ function BeadsEpicsViewer() {
       if (ws.length > 0 && !currentWorkspace) {
         // Try to restore saved workspace from cookie
         const savedWorkspaceId = getWorkspaceCookie()
-        const savedWorkspace = savedWorkspaceId
-          ? ws.find((w) => w.id === savedWorkspaceId)
-          : null
+        const savedWorkspace = savedWorkspaceId === ALL_WORKSPACES.id
+          ? ALL_WORKSPACES
+          : savedWorkspaceId
+            ? ws.find((w) => w.id === savedWorkspaceId)
+            : null
 
-        setCurrentWorkspace(savedWorkspace || ws[0])
+        setCurrentWorkspace(savedWorkspace || ws.find((w) => !w.hidden) || ws[0])
       }
     }
     loadWorkspaces()
@@ -585,23 +1101,86 @@ function BeadsEpicsViewer() {
   // Handle workspace change and persist to cookie
   const handleWorkspaceChange = useCallback((workspace: Workspace) => {
     setLoadingWorkspaceId(workspace.id)
+    setSelectedIds(new Set())
     setCurrentWorkspace(workspace)
     setWorkspaceCookie(workspace.id)
   }, [])
 
+  // Workspace manager: every change saves bdui's workspace config and returns the new list
+  const [isWorkspaceManagerOpen, setIsWorkspaceManagerOpen] = useState(false)
+  const [isSavingWorkspaces, setIsSavingWorkspaces] = useState(false)
+
+  const runWorkspaceChange = useCallback(async (
+    change: () => Promise<{ success: boolean; error?: string; workspaces?: Workspace[] }>,
+    failure: string
+  ): Promise<boolean> => {
+    setIsSavingWorkspaces(true)
+    const result = await change()
+    setIsSavingWorkspaces(false)
+    if (!result.success || !result.workspaces) {
+      toastActionError(failure, result)
+      return false
+    }
+    const updated = result.workspaces
+    setWorkspaces(updated)
+    // Switch away from the current workspace if it was removed
+    if (currentWorkspace?.id !== ALL_WORKSPACES.id && !updated.some((w) => w.id === currentWorkspace?.id)) {
+      const next = updated.find((w) => !w.hidden) ?? updated[0]
+      if (next) handleWorkspaceChange(next)
+    }
+    return true
+  }, [currentWorkspace?.id, handleWorkspaceChange])
+
+  const handleAddWorkspace = useCallback(
+    (path: string, name: string) => runWorkspaceChange(() => addWorkspace(path, name), "Failed to add workspace"),
+    [runWorkspaceChange]
+  )
+
+  const handleUpdateWorkspace = useCallback(
+    (id: string, changes: Parameters<typeof updateWorkspace>[1]) => {
+      runWorkspaceChange(() => updateWorkspace(id, changes), "Failed to update workspace")
+    },
+    [runWorkspaceChange]
+  )
+
+  const handleReorderWorkspaces = useCallback((ids: string[]) => {
+    runWorkspaceChange(() => reorderWorkspaces(ids), "Failed to reorder workspaces")
+  }, [runWorkspaceChange])
+
+  const handleRemoveWorkspace = useCallback(async (workspace: Workspace) => {
+    if (await runWorkspaceChange(() => removeWorkspace(workspace.id), "Failed to remove workspace")) {
+      toast.success(`Removed workspace ${workspace.name}`)
+    }
+  }, [runWorkspaceChange])
+
   // Fetch epics when workspace changes
-  const loadEpics = useCallback(async () => {
+  // The trash is relisted only when asked (opening it, deletes and restores, websocket changes),
+  // so the poll doesn't add a bd call; the SQLite source returns it with every load anyway
+  const loadEpics = useCallback(async (withTrash = false) => {
     // Set flag to ignore WebSocket notifications triggered by our own read
     // (SQLite WAL checkpoint can modify db file timestamp)
     loadInProgressRef.current = true
     setIsLoading(true)
     try {
-      const dbPath = currentWorkspace?.databasePath
-      const epicData = await getEpics(dbPath)
-      setEpics(epicData)
+      if (isAllWorkspaces) {
+        const targets = aggregated.map(({ id, name, color, databasePath }) => ({ id, name, color, databasePath }))
+        const { epics: epicData, trash, failed } = await getEpicsForWorkspaces(targets, withTrash && isTrashOpenRef.current)
+        setEpics(epicData)
+        if (trash || withTrash) setTrashBeads(trash)
+        if (failed.length > 0) {
+          toast.warning(`Couldn't load ${failed.join(", ")}`)
+        }
+      } else {
+        const dbPath = currentWorkspace?.databasePath
+        const { epics: epicData, trash } = await getEpicsWithTrash(dbPath, withTrash && isTrashOpenRef.current)
+        setEpics(epicData)
+        // null when the trash wasn't listed: keep the last listing
+        if (trash || withTrash) setTrashBeads(trash)
+      }
     } catch (error) {
       console.error("Failed to load epics:", error)
       setEpics([])
+      setTrashBeads([])
     } finally {
       setIsLoading(false)
       setLoadingWorkspaceId(null)
@@ -611,31 +1190,61 @@ function BeadsEpicsViewer() {
         loadInProgressRef.current = false
       }, 300)
     }
-  }, [currentWorkspace?.databasePath])
+  }, [isAllWorkspaces, aggregated, currentWorkspace?.databasePath])
 
   useEffect(() => {
     if (currentWorkspace) {
-      loadEpics()
-      // Fetch available statuses for this workspace
-      getAvailableStatuses(currentWorkspace.databasePath).then(setAvailableStatuses)
+      loadEpics(true)
+      // Fetch the statuses for this workspace
+      getStatusDefinitions(isAllWorkspaces ? aggregatedDbPaths : currentWorkspace.databasePath).then(setStatusDefinitions)
       // Expose db path for console commands
       if (typeof window !== "undefined") {
         window.__BEADS_DB__ = currentWorkspace.databasePath
       }
     }
-  }, [currentWorkspace, loadEpics])
+  }, [currentWorkspace, isAllWorkspaces, aggregatedDbPaths, loadEpics])
+
+  // Load the trash when its section is opened (unless it came with the tree), and drop it on
+  // close so reopening lists it again
+  useEffect(() => {
+    if (!isTrashOpen) setTrashBeads(null)
+  }, [isTrashOpen])
+
+  useEffect(() => {
+    if (isTrashOpen && trashBeads === null && currentWorkspace) loadEpics(true)
+  }, [isTrashOpen, trashBeads, currentWorkspace, loadEpics])
 
   // Subscribe to real-time database changes
   // Skip if a load is in progress (to avoid WAL checkpoint loops)
   const handleSSEChange = useCallback(() => {
+    setChangeCount(count => count + 1)
     if (loadInProgressRef.current) {
       return
     }
-    loadEpics()
+    loadEpics(true)
   }, [loadEpics])
 
+  // Undo/redo history for mutations; reload tree and open bead after applying
+  const handleHistoryApplied = useCallback(() => {
+    loadEpics(true)
+    const workspace = selectedBead?.id === beadIdParam ? selectedBead.workspace : undefined
+    const dbPath = beadIdParam ? dbPathFor(beadIdParam, workspace) : null
+    if (beadIdParam && dbPath !== null) {
+      getBeadDetail(beadIdParam, dbPath).then((fullBead) => {
+        if (fullBead) setSelectedBead({ ...fullBead, workspace })
+      })
+    }
+  }, [loadEpics, beadIdParam, dbPathFor, selectedBead?.id, selectedBead?.workspace])
+
+  const { record, undo, redo, clear: clearHistory } = useUndoHistory({ onApplied: handleHistoryApplied })
+
+  // History entries are bound to a database, so start fresh on workspace switch
+  useEffect(() => {
+    clearHistory()
+  }, [currentWorkspace?.id, clearHistory])
+
   useWebSocket({
-    dbPath: currentWorkspace?.databasePath,
+    dbPath: isAllWorkspaces ? aggregatedDbPaths : currentWorkspace?.databasePath,
     onChange: handleSSEChange,
     enabled: !!currentWorkspace,
   })
@@ -651,6 +1260,127 @@ function BeadsEpicsViewer() {
     return () => clearInterval(interval)
   }, [currentWorkspace, loadEpics])
 
+  // Ready view: unblocked work from bd ready, shown with the tree's (fresher) copy of each bead
+  const [readyBeads, setReadyBeads] = useState<Bead[]>([])
+  const [isLoadingReady, setIsLoadingReady] = useState(false)
+  const [readyGrouping, setReadyGroupingState] = useState<ReadyGrouping>("priority")
+  const [claimingIds, setClaimingIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    setReadyGroupingState(getReadyGroupingPreference())
+  }, [])
+
+  const setReadyGrouping = useCallback((grouping: ReadyGrouping) => {
+    setReadyGroupingState(grouping)
+    setReadyGroupingPreference(grouping)
+  }, [])
+
+  const loadReady = useCallback(async () => {
+    setIsLoadingReady(true)
+    try {
+      setReadyBeads(isAllWorkspaces
+        ? await getReadyBeadsForWorkspaces(aggregated.map(({ id, name, color, databasePath }) => ({ id, name, color, databasePath })))
+        : await getReadyBeads(currentWorkspace?.databasePath))
+    } catch (error) {
+      console.error("Failed to load ready beads:", error)
+      setReadyBeads([])
+    } finally {
+      setIsLoadingReady(false)
+    }
+  }, [isAllWorkspaces, aggregated, currentWorkspace?.databasePath])
+
+  // Reload whenever the tree does (live updates, polling, edits), so beads appear as their blockers close
+  useEffect(() => {
+    if (layout === "ready" && currentWorkspace) loadReady()
+  }, [layout, currentWorkspace, epics, loadReady])
+
+  // Graph view: beads and their dependencies, reloaded with the tree like the Ready view
+  const [graph, setGraph] = useState<Graph | null>(null)
+  const [isLoadingGraph, setIsLoadingGraph] = useState(false)
+
+  const loadGraph = useCallback(async () => {
+    setIsLoadingGraph(true)
+    try {
+      setGraph(isAllWorkspaces
+        ? await getDependencyGraphForWorkspaces(aggregated.map(({ id, name, color, databasePath }) => ({ id, name, color, databasePath })))
+        : await getDependencyGraph(currentWorkspace?.databasePath))
+    } catch (error) {
+      console.error("Failed to load dependency graph:", error)
+      setGraph(null)
+    } finally {
+      setIsLoadingGraph(false)
+    }
+  }, [isAllWorkspaces, aggregated, currentWorkspace?.databasePath])
+
+  useEffect(() => {
+    if (layout === "graph" && currentWorkspace) loadGraph()
+  }, [layout, currentWorkspace, epics, loadGraph])
+
+  // Board view: every bead by status, respecting the filters and sort
+  const [swimlanes, setSwimlanesState] = useState<Swimlanes>("none")
+  const [wipLimits, setWipLimitsState] = useState<Record<string, number>>({})
+
+  useEffect(() => {
+    setSwimlanesState(getSwimlanesPreference())
+  }, [])
+
+  useEffect(() => {
+    if (currentWorkspace) setWipLimitsState(getWipLimits(currentWorkspace.id))
+  }, [currentWorkspace])
+
+  const setSwimlanes = useCallback((next: Swimlanes) => {
+    setSwimlanesState(next)
+    setSwimlanesPreference(next)
+  }, [])
+
+  const handleWipLimitChange = useCallback((status: string, limit: number | null) => {
+    if (!currentWorkspace) return
+    const next = { ...wipLimits }
+    if (limit) {
+      next[status] = limit
+    } else {
+      delete next[status]
+    }
+    setWipLimitsState(next)
+    setWipLimits(currentWorkspace.id, next)
+  }, [currentWorkspace, wipLimits])
+
+  const boardCards = useMemo(
+    () => flattenBoardCards(epics)
+      .filter(card => card.bead.type !== "epic" && matchesBead(card.bead, criteria))
+      .sort((a, b) => compareSearchRank(a.bead, b.bead, search) || compareBead(a.bead, b.bead, sort, statusDefinitions)),
+    [epics, criteria, search, sort, statusDefinitions]
+  )
+
+  // Metrics view: the filtered beads (epics are containers, not work), scoped to an epic in the dashboard
+  const [metricsRange, setMetricsRangeState] = useState<MetricsRange>("30d")
+  const [metricsEpicId, setMetricsEpicId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMetricsRangeState(getMetricsRangePreference())
+  }, [])
+
+  const setMetricsRange = useCallback((next: MetricsRange) => {
+    setMetricsRangeState(next)
+    setMetricsRangePreference(next)
+  }, [])
+
+  const beadIndex = useMemo(() => indexBeads(epics), [epics])
+
+  // Every bead counts towards metrics, archived ones included (unlike the board)
+  const metricsBeads = useMemo(
+    () => Array.from(beadIndex.values()).filter(bead => bead.type !== "epic" && matchesBead(bead, criteria)),
+    [beadIndex, criteria]
+  )
+  const readyInTree = useMemo(
+    () => readyBeads.map(bead => beadIndex.get(bead.id) ?? bead),
+    [readyBeads, beadIndex]
+  )
+  const filteredReady = useMemo(
+    () => readyInTree.filter(bead => matchesBead(bead, criteria)),
+    [readyInTree, criteria]
+  )
+
   useEffect(() => {
     document.documentElement.classList.toggle("dark", isDark)
   }, [isDark])
@@ -659,11 +1389,39 @@ function BeadsEpicsViewer() {
     setIsDark(!isDark)
   }
 
-  const handleBeadClick = useCallback((bead: Bead) => {
+  const handleBeadClick = useCallback((bead: Bead, event?: React.MouseEvent) => {
+    // Shift-click selects a range from the anchor
+    if (event?.shiftKey) {
+      const anchor = selectionAnchorRef.current ?? beadIdParam ?? bead.id
+      setSelectedIds(getRangeIds(anchor, bead.id))
+      return
+    }
+    // Ctrl/Cmd-click toggles a single bead
+    if (event?.metaKey || event?.ctrlKey) {
+      setSelectedIds((prev) => {
+        const next = new Set(prev)
+        // Start from the open bead so the first ctrl-click selects both
+        if (next.size === 0 && beadIdParam && beadIdParam !== bead.id) {
+          next.add(beadIdParam)
+        }
+        if (next.has(bead.id)) {
+          next.delete(bead.id)
+        } else {
+          next.add(bead.id)
+        }
+        return next
+      })
+      selectionAnchorRef.current = bead.id
+      return
+    }
+
+    // Plain click clears the multi-selection and opens the bead
+    selectionAnchorRef.current = bead.id
+    setSelectedIds(new Set())
     const params = new URLSearchParams(searchParams.toString())
     params.set("bead", bead.id)
     router.replace(`?${params.toString()}`, { scroll: false })
-  }, [searchParams, router])
+  }, [searchParams, router, beadIdParam, getRangeIds])
 
   const handleBeadNavigate = useCallback((beadId: string) => {
     const params = new URLSearchParams(searchParams.toString())
@@ -685,6 +1443,17 @@ function BeadsEpicsViewer() {
         return
       }
 
+      // Undo/redo (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl+Y)
+      if ((e.metaKey || e.ctrlKey) && (e.key.toLowerCase() === "z" || e.key === "y")) {
+        e.preventDefault()
+        if (e.shiftKey || e.key === "y") {
+          redo()
+        } else {
+          undo()
+        }
+        return
+      }
+
       // O(1) lookup instead of O(n) findIndex
       const currentIndex = focusedItemId ? (itemIndexMap.get(focusedItemId) ?? -1) : -1
 
@@ -722,7 +1491,13 @@ function BeadsEpicsViewer() {
         case "ArrowDown":
         case "j":
           e.preventDefault()
-          if (currentIndex < navigableItems.length - 1) {
+          if (e.shiftKey && currentIndex >= 0 && currentIndex < navigableItems.length - 1) {
+            // Extend selection downwards
+            const nextId = navigableItems[currentIndex + 1].id
+            selectionAnchorRef.current ??= focusedItemId
+            setSelectedIds(getRangeIds(selectionAnchorRef.current!, nextId))
+            setFocusedItemId(nextId)
+          } else if (currentIndex < navigableItems.length - 1) {
             setFocusedItemId(navigableItems[currentIndex + 1].id)
           } else if (currentIndex === -1 && navigableItems.length > 0) {
             setFocusedItemId(navigableItems[0].id)
@@ -732,7 +1507,13 @@ function BeadsEpicsViewer() {
         case "ArrowUp":
         case "k":
           e.preventDefault()
-          if (currentIndex > 0) {
+          if (e.shiftKey && currentIndex > 0) {
+            // Extend selection upwards
+            const prevId = navigableItems[currentIndex - 1].id
+            selectionAnchorRef.current ??= focusedItemId
+            setSelectedIds(getRangeIds(selectionAnchorRef.current!, prevId))
+            setFocusedItemId(prevId)
+          } else if (currentIndex > 0) {
             setFocusedItemId(navigableItems[currentIndex - 1].id)
           }
           break
@@ -778,7 +1559,9 @@ function BeadsEpicsViewer() {
 
         case "Escape":
           e.preventDefault()
-          if (beadIdParam) {
+          if (selectedIds.size > 0) {
+            setSelectedIds(new Set())
+          } else if (beadIdParam) {
             handleCloseDetail()
           } else {
             setFocusedItemId(null)
@@ -789,7 +1572,7 @@ function BeadsEpicsViewer() {
 
     window.addEventListener("keydown", handleKeyDown)
     return () => window.removeEventListener("keydown", handleKeyDown)
-  }, [focusedItemId, navigableItems, itemIndexMap, expandedEpics, expandedBeads, beadIdParam, selectedBead, focusedPanel, handleToggleEpic, handleToggleBead, handleBeadClick, handleCloseDetail])
+  }, [focusedItemId, navigableItems, itemIndexMap, expandedEpics, expandedBeads, beadIdParam, selectedBead, focusedPanel, handleToggleEpic, handleToggleBead, handleBeadClick, handleCloseDetail, selectedIds, getRangeIds, undo, redo])
 
   // Scroll focused item into view
   useEffect(() => {
@@ -829,13 +1612,23 @@ function BeadsEpicsViewer() {
   }
 
   const handleStatusChange = (beadId: string, status: BeadStatus) => {
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
+    const prevStatus = findBeadById(epics, beadId)?.status
     // Optimistic update for instant feedback
     updateBeadInEpics(beadId, (bead) => ({ ...bead, status }))
     // Server update
     startTransition(async () => {
-      const result = await updateBeadStatus(beadId, status, currentWorkspace?.databasePath)
+      const result = await updateBeadStatus(beadId, status, dbPath)
       if (!result.success) {
         console.error("Failed to update status:", result.error)
+        toastActionError("Failed to update status", result, () => handleStatusChange(beadId, status))
+      } else if (prevStatus && prevStatus !== status) {
+        record({
+          label: `Set status of ${beadId} to ${status}`,
+          undo: () => updateBeadStatus(beadId, prevStatus, dbPath),
+          redo: () => updateBeadStatus(beadId, status, dbPath),
+        })
       }
       // Always reload to ensure consistency
       loadEpics()
@@ -843,26 +1636,80 @@ function BeadsEpicsViewer() {
   }
 
   const handlePriorityChange = (beadId: string, priority: BeadPriority) => {
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
+    const prevPriority = findBeadById(epics, beadId)?.priority
     // Optimistic update for instant feedback
     updateBeadInEpics(beadId, (bead) => ({ ...bead, priority }))
     // Server update
     startTransition(async () => {
-      const result = await updateBeadPriority(beadId, priority, currentWorkspace?.databasePath)
+      const result = await updateBeadPriority(beadId, priority, dbPath)
       if (!result.success) {
         console.error("Failed to update priority:", result.error)
+        toastActionError("Failed to update priority", result, () => handlePriorityChange(beadId, priority))
+      } else if (prevPriority && prevPriority !== priority) {
+        record({
+          label: `Set priority of ${beadId} to ${priority}`,
+          undo: () => updateBeadPriority(beadId, prevPriority, dbPath),
+          redo: () => updateBeadPriority(beadId, priority, dbPath),
+        })
       }
       // Always reload to ensure consistency
       loadEpics()
     })
   }
 
+  // Claim from the Ready view: assign to me and start
+  const handleClaim = (bead: Bead) => {
+    const dbPath = dbPathFor(bead.id, bead.workspace)
+    if (dbPath === null) return toastUnknownWorkspace(bead.id)
+    const prev = { status: bead.status, assignee: bead.assignee }
+    // Claim only if nobody changed the assignee or status since this bead was loaded
+    const updatedAt = bead.updatedAt ? new Date(bead.updatedAt).toISOString() : ""
+    const expected = {
+      assignee: { updatedAt, value: bead.assignee ?? "" },
+      status: { updatedAt, value: bead.status },
+    }
+    setClaimingIds(ids => new Set(ids).add(bead.id))
+    // Optimistic update for instant feedback
+    if (currentUser) updateBeadInEpics(bead.id, (b) => ({ ...b, status: "in_progress", assignee: currentUser }))
+    startTransition(async () => {
+      const result = await claimBead(bead.id, expected, dbPath)
+      setClaimingIds(ids => {
+        const next = new Set(ids)
+        next.delete(bead.id)
+        return next
+      })
+      if (result.code === "conflict") {
+        toast.error("Couldn't claim bead", { description: result.error })
+      } else if (!result.success) {
+        console.error("Failed to claim bead:", result.error)
+        toastActionError("Failed to claim bead", result, () => handleClaim(bead))
+      } else {
+        record({
+          label: `Claimed ${bead.id}`,
+          undo: () => runBulkSteps([
+            { ids: [bead.id], action: { kind: "status", status: prev.status } },
+            { ids: [bead.id], action: { kind: "assignee", assignee: prev.assignee } },
+          ], () => dbPath),
+          redo: () => claimBead(bead.id, expected, dbPath),
+        })
+      }
+      loadEpics()
+    })
+  }
+
   const handleBeadUpdate = (updatedBead: Bead) => {
     updateBeadInEpics(updatedBead.id, () => updatedBead)
+    // Keep the detail panel in sync (fields like dependencies aren't re-synced from the tree)
+    setSelectedBead(prev => prev?.id === updatedBead.id ? updatedBead : prev)
     // Reload to ensure left pane reflects the change
     loadEpics()
   }
 
   const handleAddComment = (beadId: string, comment: Comment) => {
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
     // Optimistic update for instant feedback
     updateBeadInEpics(beadId, (bead) => ({
       ...bead,
@@ -870,9 +1717,10 @@ function BeadsEpicsViewer() {
     }))
     // Server update
     startTransition(async () => {
-      const result = await addCommentAction(beadId, comment.content, currentWorkspace?.databasePath)
+      const result = await addCommentAction(beadId, comment.content, dbPath)
       if (!result.success) {
         console.error("Failed to add comment:", result.error)
+        toastActionError("Failed to add comment", result, () => handleAddComment(beadId, comment))
       }
       // Always reload to ensure consistency
       loadEpics()
@@ -880,20 +1728,258 @@ function BeadsEpicsViewer() {
   }
 
   const handleDelete = useCallback((beadId: string) => {
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
+    const prev = findBeadById(epics, beadId)
     // Close the detail panel first
     handleCloseDetail()
     // Delete on server and reload
     startTransition(async () => {
-      const result = await deleteBead(beadId, currentWorkspace?.databasePath)
+      const result = await deleteBead(beadId, dbPath)
       if (result.success) {
-        toast.success("Bead deleted")
+        const links = result.links ?? []
+        deletedLinksRef.current.set(`${dbPath}:${beadId}`, links)
+        // Undo restores the tombstone to its previous status and parent, with its dependencies
+        record({
+          label: `Deleted ${beadId}`,
+          undo: () => restoreBead(beadId, prev?.status ?? "open", prev?.parentId ?? null, links, dbPath),
+          redo: () => deleteBead(beadId, dbPath),
+        })
       } else {
         console.error("Failed to delete bead:", result.error)
-        toast.error("Failed to delete bead", { description: result.error })
+        toastActionError("Failed to delete bead", result, () => handleDelete(beadId))
+      }
+      loadEpics(true)
+    })
+  }, [handleCloseDetail, dbPathFor, loadEpics, epics, record])
+
+  // Restore a bead from the trash to open, under its original parent
+  // Its other dependencies come back only if it was deleted in this session
+  const handleRestore = useCallback((bead: Bead) => {
+    const dbPath = dbPathFor(bead.id, bead.workspace)
+    if (dbPath === null) return toastUnknownWorkspace(bead.id)
+    const parentId = bead.parentId ?? null
+    const links = deletedLinksRef.current.get(`${dbPath}:${bead.id}`)
+    startTransition(async () => {
+      const result = await restoreBead(bead.id, "open", parentId, links ?? [], dbPath)
+      if (result.success) {
+        if (!links) toast.warning(`Restored ${bead.id} without its dependencies (they weren't recorded when it was deleted)`)
+        record({
+          label: `Restored ${bead.id}`,
+          undo: () => deleteBead(bead.id, dbPath),
+          redo: () => restoreBead(bead.id, "open", parentId, links ?? [], dbPath),
+        })
+      } else {
+        console.error("Failed to restore bead:", result.error)
+        toastActionError("Failed to restore bead", result, () => handleRestore(bead))
+      }
+      loadEpics(true)
+    })
+  }, [dbPathFor, loadEpics, record])
+
+  // Permanently remove a tombstoned bead (not undoable)
+  const handlePurge = useCallback((beadId: string) => {
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
+    startTransition(async () => {
+      const result = await purgeBead(beadId, dbPath)
+      if (result.success) {
+        toast.success(`Permanently deleted ${beadId}`)
+      } else {
+        console.error("Failed to purge bead:", result.error)
+        toastActionError("Failed to delete permanently", result, () => handlePurge(beadId))
+      }
+      loadEpics(true)
+    })
+  }, [dbPathFor, loadEpics])
+
+  const handleCreateBead = useCallback((input: CreateBeadInput, workspaceId?: string) => {
+    // In the all-workspaces view a bead goes to its parent's workspace, or the one picked in the dialog
+    const parentWorkspaces = input.parentId ? beadWorkspaces.get(input.parentId) ?? [] : []
+    const workspace = isAllWorkspaces
+      ? (input.parentId ? (parentWorkspaces.length === 1 ? parentWorkspaces[0] : undefined) : aggregated.find(ws => ws.id === workspaceId))
+      : undefined
+    const dbPath = isAllWorkspaces ? workspace?.databasePath : currentWorkspace?.databasePath
+    if (isAllWorkspaces && !dbPath) {
+      if (input.parentId) toastUnknownWorkspace(input.parentId)
+      else toast.error("Choose a workspace for the new bead")
+      return
+    }
+
+    // Optimistic insert with a temporary ID until bd returns the real one
+    const tempId = `pending-${Date.now()}`
+    const optimisticBead: Bead = {
+      id: tempId,
+      type: input.type,
+      title: input.title,
+      description: input.description || "",
+      status: "open",
+      priority: input.priority,
+      assignee: input.assignee || "",
+      labels: input.labels || [],
+      comments: [],
+      parentId: input.parentId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      workspace,
+    }
+    setEpics((prevEpics) => insertBead(prevEpics, optimisticBead, input.parentId))
+    if (input.parentId && !expandedEpics.has(input.parentId)) {
+      handleToggleEpic(input.parentId)
+    }
+
+    startTransition(async () => {
+      const result = await createBead(input, dbPath)
+      if (result.success && result.bead) {
+        const newId = result.bead.id
+        updateBeadInEpics(tempId, () => ({ ...result.bead!, workspace }))
+        record({
+          label: `Created ${newId}`,
+          undo: () => deleteBead(newId, dbPath),
+          redo: () => restoreBead(newId, "open", input.parentId ?? null, [], dbPath),
+        })
+      } else {
+        console.error("Failed to create bead:", result.error)
+        toastActionError("Failed to create bead", result, () => handleCreateBead(input, workspaceId))
       }
       loadEpics()
     })
-  }, [handleCloseDetail, currentWorkspace?.databasePath, loadEpics])
+  }, [isAllWorkspaces, beadWorkspaces, aggregated, currentWorkspace?.databasePath, loadEpics, expandedEpics, handleToggleEpic, record])
+
+  const handleQuickAdd = useCallback((epicId: string, title: string) => {
+    handleCreateBead({ type: "task", title, priority: "medium", parentId: epicId })
+  }, [handleCreateBead])
+
+  // Apply a bulk action to every selected bead
+  // Apply an action to the selected beads (or the given ones)
+  const runBulkAction = useCallback((action: BulkAction, targetIds?: string[], undoLabel?: string) => {
+    const ids = targetIds ?? Array.from(selectedIds)
+    if (ids.length === 0) return
+    // Snapshot previous values for undo
+    const before = ids.map(id => findBeadById(epics, id)).filter((b): b is Bead => b !== null)
+
+    // Optimistic update for simple field changes
+    if (action.kind === "status") ids.forEach(id => updateBeadInEpics(id, (bead) => ({ ...bead, status: action.status })))
+    if (action.kind === "priority") ids.forEach(id => updateBeadInEpics(id, (bead) => ({ ...bead, priority: action.priority })))
+    if (action.kind === "assignee") ids.forEach(id => updateBeadInEpics(id, (bead) => ({ ...bead, assignee: action.assignee })))
+    if (action.kind === "delete" && beadIdParam && ids.includes(beadIdParam)) handleCloseDetail()
+
+    // Same rule as drag and drop: an epic can't move under itself or one of its descendants
+    const parentId = action.kind === "move" ? action.parentId : null
+    const circular = parentId ? ids.filter(id => id === parentId || isDescendantOf(id, parentId, epics)) : []
+
+    setIsBulkRunning(true)
+    startTransition(async () => {
+      // One bulk update per database (the selection can span workspaces)
+      const failed: BulkFailure[] = circular.map(id => ({
+        id,
+        error: `Can't move ${id} under itself or one of its own epics`,
+        code: "validation" as const,
+      }))
+      const valid = ids.filter(id => !circular.includes(id))
+      for (const [dbPath, group] of groupByDbPath(valid, dbPathFor)) {
+        if (dbPath === null) {
+          failed.push(...group.map(id => ({ id, error: UNKNOWN_WORKSPACE_ERROR })))
+          continue
+        }
+        const result = await bulkUpdateBeads(group, action, dbPath)
+        failed.push(...result.failed)
+        for (const [id, links] of Object.entries(result.links)) deletedLinksRef.current.set(`${dbPath}:${id}`, links)
+      }
+      const failedIds = new Set(failed.map(f => f.id))
+      const succeeded = ids.length - failedIds.size
+      const verb = action.kind === "delete" ? "Deleted" : action.kind === "close" ? "Closed" : "Updated"
+
+      if (succeeded > 0) {
+        const changed = before.filter(b => !failedIds.has(b.id))
+        const changedIds = ids.filter(id => !failedIds.has(id))
+        record({
+          label: undoLabel ?? `${verb} ${succeeded} bead${succeeded === 1 ? "" : "s"}`,
+          undo: action.kind === "delete"
+            ? async () => {
+              // One at a time, each re-adding only the links to beads already back, so a link
+              // between two deleted beads is re-added once, after both are restored
+              const restored: { success: boolean; error?: string }[] = []
+              for (const [i, b] of changed.entries()) {
+                const dbPath = dbPathFor(b.id, b.workspace)
+                const pending = new Set(changed.slice(i + 1).map(c => c.id))
+                const links = (deletedLinksRef.current.get(`${dbPath}:${b.id}`) ?? [])
+                  .filter(link => !pending.has(link.id) && !pending.has(link.dependsOnId))
+                restored.push(dbPath === null
+                  ? { success: false, error: UNKNOWN_WORKSPACE_ERROR }
+                  : await restoreBead(b.id, b.status, b.parentId ?? null, links, dbPath))
+              }
+              const failedRestore = changed.filter((_, i) => !restored[i].success).map(b => b.id)
+              return failedRestore.length === 0
+                ? { success: true }
+                : { success: false, error: `Failed for ${failedRestore.join(", ")}` }
+            }
+            : () => runBulkSteps(invertBulkAction(changed, action), dbPathFor),
+          redo: () => runBulkSteps([{ ids: changedIds, action }], dbPathFor),
+        })
+      }
+      if (failed.length > 0) {
+        const details = failed.slice(0, 5).map(f => `${f.id}: ${f.error}`)
+        if (failed.length > 5) details.push(`...and ${failed.length - 5} more`)
+        // Add the hint when every failure has the same cause
+        const codes = new Set(failed.map(f => f.code ?? "unknown"))
+        const hint = codes.size === 1 ? bdErrorInfo[Array.from(codes)[0]].hint : undefined
+        if (hint) details.push(hint)
+        toast.error(`${failed.length} of ${ids.length} beads failed`, { description: details.join("\n") })
+      }
+
+      // Keep failed beads selected so they can be retried (when acting on the selection)
+      if (!targetIds) setSelectedIds(failedIds)
+      setIsBulkRunning(false)
+      loadEpics(action.kind === "delete")
+    })
+  }, [selectedIds, beadIdParam, handleCloseDetail, dbPathFor, loadEpics, epics, record])
+
+  // Label manager: rename/merge and delete a label on every bead that has it
+  const [isLabelManagerOpen, setIsLabelManagerOpen] = useState(false)
+
+  const handleRenameLabel = useCallback((from: string, to: string) => {
+    const ids = labelUsage.get(from) ?? []
+    const merging = labelUsage.has(to)
+    runBulkAction(
+      { kind: "labels", add: [to], remove: [from] },
+      ids,
+      merging ? `Merged label ${from} into ${to}` : `Renamed label ${from} to ${to}`
+    )
+  }, [labelUsage, runBulkAction])
+
+  const handleDeleteLabel = useCallback((label: string) => {
+    runBulkAction({ kind: "labels", add: [], remove: [label] }, labelUsage.get(label) ?? [], `Deleted label ${label}`)
+  }, [labelUsage, runBulkAction])
+
+  // Status settings: beads of renamed/removed statuses are migrated on the server
+  const [isStatusSettingsOpen, setIsStatusSettingsOpen] = useState(false)
+  const [isSavingStatuses, setIsSavingStatuses] = useState(false)
+
+  const handleSaveStatuses = useCallback(async (definitions: StatusDefinition[], migrations: Record<string, string>) => {
+    setIsSavingStatuses(true)
+    const result = await saveStatusDefinitions(definitions, migrations, currentWorkspace?.databasePath)
+    setIsSavingStatuses(false)
+    if (!result.success || !result.definitions) {
+      toastActionError("Failed to save statuses", result)
+      return
+    }
+    setStatusDefinitions(result.definitions)
+    setIsStatusSettingsOpen(false)
+    toast.success(result.migrated
+      ? `Saved statuses and moved ${result.migrated} bead${result.migrated === 1 ? "" : "s"}`
+      : "Saved statuses")
+    if (result.migrated) loadEpics()
+  }, [currentWorkspace?.databasePath, loadEpics])
+
+  // Deletion asks for confirmation first
+  const handleBulkAction = useCallback((action: BulkAction) => {
+    if (action.kind === "delete") {
+      setBulkDeleteConfirm(true)
+    } else {
+      runBulkAction(action)
+    }
+  }, [runBulkAction])
 
   // Drag and drop handlers
   const handleDragStart = useCallback((beadId: string) => {
@@ -934,26 +2020,46 @@ function BeadsEpicsViewer() {
     const bead = findBead(beadId, [...epics, ...backlogEpics, ...archivedEpics])
     const isInBacklog = bead?.labels?.includes("backlog")
     const isInArchive = bead?.labels?.includes("archived")
+    const prevParentId = bead?.parentId ?? null
+    const dbPath = dbPathFor(beadId)
+    if (dbPath === null) return toastUnknownWorkspace(beadId)
+    // A parent has to live in the same database
+    if (isAllWorkspaces && newParentId && dbPathFor(newParentId) !== dbPath) {
+      toast.error("Beads can't be moved to an epic in another workspace")
+      return
+    }
 
-    startTransition(async () => {
-      // Update parent
-      const result = await updateBeadParent(beadId, newParentId, currentWorkspace?.databasePath)
-      if (!result.success) {
-        console.error("Failed to move bead:", result.error)
-      }
-
-      // If moving from backlog or archive, remove those labels
+    // Set parent and backlog/archive labels together (used for move, undo and redo)
+    const applyMove = async (parentId: string | null, restoreLabels: boolean) => {
+      const result = await updateBeadParent(beadId, parentId, dbPath)
+      if (!result.success) return result
+      // If moving from backlog or archive, remove those labels (undo puts them back)
       if (isInBacklog) {
-        await backlogBead(beadId, false, currentWorkspace?.databasePath)
+        await backlogBead(beadId, restoreLabels, dbPath)
       }
       if (isInArchive) {
-        await archiveBead(beadId, false, currentWorkspace?.databasePath)
+        await archiveBead(beadId, restoreLabels, dbPath)
+      }
+      return result
+    }
+
+    startTransition(async () => {
+      const result = await applyMove(newParentId, false)
+      if (!result.success) {
+        console.error("Failed to move bead:", result.error)
+        toastActionError("Failed to move bead", result, () => handleBeadMove(beadId, targetEpicId))
+      } else {
+        record({
+          label: newParentId ? `Moved ${beadId} to ${newParentId}` : `Removed ${beadId} from its epic`,
+          undo: () => applyMove(prevParentId, true),
+          redo: () => applyMove(newParentId, false),
+        })
       }
 
       // Reload to show the moved bead in its new location
       loadEpics()
     })
-  }, [currentWorkspace?.databasePath, loadEpics, epics, backlogEpics, archivedEpics])
+  }, [dbPathFor, isAllWorkspaces, loadEpics, epics, backlogEpics, archivedEpics, record])
 
   // Validate if an epic can be moved to a target (prevents circular references)
   const canMoveEpic = useCallback((epicId: string, targetEpicId: string): boolean => {
@@ -964,27 +2070,60 @@ function BeadsEpicsViewer() {
 
   // Archive/unarchive handler
   const handleArchive = useCallback(async (id: string, archived: boolean) => {
+    const dbPath = dbPathFor(id)
+    if (dbPath === null) return toastUnknownWorkspace(id)
     startTransition(async () => {
-      const result = await archiveBead(id, archived, currentWorkspace?.databasePath)
+      const result = await archiveBead(id, archived, dbPath)
       if (!result.success) {
         console.error("Failed to archive bead:", result.error)
-        toast.error(archived ? "Failed to archive" : "Failed to unarchive", { description: result.error })
+        toastActionError(archived ? "Failed to archive" : "Failed to unarchive", result, () => handleArchive(id, archived))
+      } else {
+        record({
+          label: archived ? `Archived ${id}` : `Unarchived ${id}`,
+          undo: () => archiveBead(id, !archived, dbPath),
+          redo: () => archiveBead(id, archived, dbPath),
+        })
       }
       loadEpics()
     })
-  }, [currentWorkspace?.databasePath, loadEpics])
+  }, [dbPathFor, loadEpics, record])
 
   // Backlog handler
   const handleBacklog = useCallback(async (id: string, inBacklog: boolean) => {
+    const dbPath = dbPathFor(id)
+    if (dbPath === null) return toastUnknownWorkspace(id)
     startTransition(async () => {
-      const result = await backlogBead(id, inBacklog, currentWorkspace?.databasePath)
+      const result = await backlogBead(id, inBacklog, dbPath)
       if (!result.success) {
         console.error("Failed to update backlog status:", result.error)
-        toast.error(inBacklog ? "Failed to move to backlog" : "Failed to remove from backlog", { description: result.error })
+        toastActionError(inBacklog ? "Failed to move to backlog" : "Failed to remove from backlog", result, () => handleBacklog(id, inBacklog))
+      } else {
+        record({
+          label: inBacklog ? `Moved ${id} to backlog` : `Removed ${id} from backlog`,
+          undo: () => backlogBead(id, !inBacklog, dbPath),
+          redo: () => backlogBead(id, inBacklog, dbPath),
+        })
       }
       loadEpics()
     })
-  }, [currentWorkspace?.databasePath, loadEpics])
+  }, [dbPathFor, loadEpics, record])
+
+  // Command palette (Ctrl/Cmd+K): jump to beads, switch workspace, apply views, act on the open or focused bead
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false)
+
+  const paletteBeads = useMemo(() => Array.from(beadIndex.values()), [beadIndex])
+  const paletteTarget = selectedBead
+    ? beadIndex.get(selectedBead.id) ?? selectedBead
+    : focusedItemId ? beadIndex.get(focusedItemId) ?? null : null
+  // Same workspaces as the header tabs
+  const paletteWorkspaces = useMemo(() => [
+    ...(aggregated.length > 1 || isAllWorkspaces ? [ALL_WORKSPACES] : []),
+    ...workspaces.filter(w => !w.hidden || w.id === currentWorkspace?.id),
+  ], [aggregated, isAllWorkspaces, workspaces, currentWorkspace?.id])
+
+  const handlePaletteAction = useCallback((bead: Bead, action: BulkAction) => {
+    runBulkAction(action, [bead.id], `Updated ${bead.id}`)
+  }, [runBulkAction])
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -996,17 +2135,50 @@ function BeadsEpicsViewer() {
         onThemeToggle={handleThemeToggle}
         loadingWorkspaceId={loadingWorkspaceId}
         isPending={isPending}
+        pendingWrites={pendingWrites}
+        bdInfo={bdInfo}
+        // Statuses are configured per workspace
+        onOpenStatusSettings={isAllWorkspaces ? undefined : () => setIsStatusSettingsOpen(true)}
+        onManageWorkspaces={() => setIsWorkspaceManagerOpen(true)}
       />
 
       <main className="flex-1 flex flex-col px-6 py-4 min-h-0">
-        <div className="mb-4">
-          <FilterBar
-            filters={filters}
-            onFiltersChange={setFilters}
-            assignees={assignees}
-            sort={sort}
-            onSortChange={setSort}
+        <div className="mb-4 flex items-center gap-3">
+          <LayoutSwitcher layout={layout} onLayoutChange={handleLayoutChange} />
+          <SavedViewsMenu
+            views={savedViews}
+            activeViewId={activeViewId}
+            onApply={applyView}
+            onSave={handleSaveView}
+            onUpdate={handleUpdateView}
+            onDelete={handleDeleteView}
+            onCopyLink={handleCopyViewLink}
+            onExport={handleExportViews}
+            onImport={handleImportViews}
           />
+          <div className="flex-1 min-w-0">
+            <FilterBar
+              filters={filters}
+              onFiltersChange={setFilters}
+              assignees={assignees}
+              labels={labels}
+              statuses={statusDefinitions}
+              sort={sort}
+              onSortChange={setSort}
+              onManageLabels={() => setIsLabelManagerOpen(true)}
+              dateRange={layout === "metrics" ? metricsRange : undefined}
+              onDateRangeChange={setMetricsRange}
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setIsCreateOpen(true)}
+            disabled={!currentWorkspace}
+            className="shrink-0"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
         </div>
 
         <ResizablePanelGroup
@@ -1017,41 +2189,112 @@ function BeadsEpicsViewer() {
           {/* Epic Tree - Left Panel */}
           <ResizablePanel defaultSize={55} minSize={30}>
             <div ref={treeContainerRef} className="h-full overflow-y-auto pr-4 hide-scrollbar">
-              {isLoading && epics.length === 0 ? (
-                <div className="text-center py-12 text-muted-foreground">
-                  Loading epics...
-                </div>
-              ) : activeEpicsWithFilteredStandalone.length > 0 || backlogEpics.length > 0 || backlogBeads.length > 0 || archivedEpics.length > 0 ? (
-                <EpicTree
-                  epics={activeEpicsWithFilteredStandalone}
-                  archivedEpics={archivedEpics}
-                  backlogEpics={backlogEpics}
-                  backlogBeads={backlogBeads}
-                  expandedEpics={expandedEpics}
-                  onToggleEpic={handleToggleEpic}
+              {layout === "metrics" ? (
+                <MetricsDashboard
+                  beads={metricsBeads}
+                  epics={epics}
+                  epicId={metricsEpicId}
+                  onEpicChange={setMetricsEpicId}
+                  range={metricsRange}
+                  statuses={statusDefinitions}
+                />
+              ) : layout === "graph" ? (
+                <DependencyGraph
+                  graph={graph}
+                  isLoading={isLoadingGraph}
+                  statuses={statusDefinitions}
+                  selectedBeadId={beadIdParam}
                   onBeadClick={handleBeadClick}
+                />
+              ) : layout === "board" ? (
+                <KanbanBoard
+                  cards={boardCards}
+                  statuses={statusDefinitions}
+                  swimlanes={swimlanes}
+                  onSwimlanesChange={setSwimlanes}
+                  wipLimits={wipLimits}
+                  onWipLimitChange={handleWipLimitChange}
                   onStatusChange={handleStatusChange}
-                  onPriorityChange={handlePriorityChange}
-                  onDelete={setDeleteConfirmId}
-                  onBeadMove={handleBeadMove}
-                  canMoveEpic={canMoveEpic}
-                  dragOverEpicId={dragOverEpicId}
-                  onDragOver={handleDragOver}
-                  onDragStart={handleDragStart}
-                  onDragEnd={handleDragEnd}
-                  draggedBeadId={draggedBeadId}
-                  expandedBeads={expandedBeads}
-                  onToggleBead={handleToggleBead}
-                  focusedItemId={focusedItemId}
-                  onFocusItem={setFocusedItemId}
-                  onArchive={handleArchive}
-                  onBacklog={handleBacklog}
+                  onBeadClick={handleBeadClick}
+                  selectedBeadId={beadIdParam}
+                  search={search}
+                />
+              ) : layout === "ready" ? (
+                <ReadyQueue
+                  beads={filteredReady}
+                  totalCount={readyBeads.length}
+                  isLoading={isLoadingReady}
+                  grouping={readyGrouping}
+                  onGroupingChange={setReadyGrouping}
+                  currentUser={currentUser}
+                  onBeadClick={handleBeadClick}
+                  onClaim={handleClaim}
+                  claimingIds={claimingIds}
                   selectedBeadId={beadIdParam}
+                  search={search}
+                  statusDefinitions={statusDefinitions}
                 />
               ) : (
-                <div className="text-center py-12 text-muted-foreground">
-                  {epics.length === 0 ? "No epics found in this workspace" : "No epics or beads match your filters"}
-                </div>
+                <>
+                  {selectedIds.size > 0 && (
+                    <div className="sticky top-0 z-10 bg-background">
+                      <BulkActionBar
+                        count={selectedIds.size}
+                        statuses={statusDefinitions}
+                        assignees={assignees}
+                        epics={epicOptions}
+                        onAction={handleBulkAction}
+                        onClear={() => setSelectedIds(new Set())}
+                        isBusy={isBulkRunning}
+                      />
+                    </div>
+                  )}
+                  {isLoading && epics.length === 0 ? (
+                    <div className="text-center py-12 text-muted-foreground">
+                      Loading epics...
+                    </div>
+                  ) : activeEpicsWithFilteredStandalone.length > 0 || backlogEpics.length > 0 || backlogBeads.length > 0 || archivedEpics.length > 0 || !!trashBeads?.length ? (
+                    <EpicTree
+                      epics={activeEpicsWithFilteredStandalone}
+                      archivedEpics={archivedEpics}
+                      backlogEpics={backlogEpics}
+                      backlogBeads={backlogBeads}
+                      expandedEpics={expandedEpics}
+                      onToggleEpic={handleToggleEpic}
+                      openSections={openSections}
+                      onToggleSection={handleToggleSection}
+                      onBeadClick={handleBeadClick}
+                      onStatusChange={handleStatusChange}
+                      onPriorityChange={handlePriorityChange}
+                      onDelete={setDeleteConfirmId}
+                      onBeadMove={handleBeadMove}
+                      canMoveEpic={canMoveEpic}
+                      dragOverEpicId={dragOverEpicId}
+                      onDragOver={handleDragOver}
+                      onDragStart={handleDragStart}
+                      onDragEnd={handleDragEnd}
+                      draggedBeadId={draggedBeadId}
+                      expandedBeads={expandedBeads}
+                      onToggleBead={handleToggleBead}
+                      focusedItemId={focusedItemId}
+                      onFocusItem={setFocusedItemId}
+                      onArchive={handleArchive}
+                      onBacklog={handleBacklog}
+                      onQuickAdd={handleQuickAdd}
+                      selectedBeadId={beadIdParam}
+                      selectedIds={selectedIds}
+                      search={search}
+                      statusDefinitions={statusDefinitions}
+                      trashBeads={trashBeads}
+                      onRestore={handleRestore}
+                      onPurge={setPurgeConfirmBead}
+                    />
+                  ) : (
+                    <div className="text-center py-12 text-muted-foreground">
+                      {epics.length === 0 ? "No epics found in this workspace" : "No epics or beads match your filters"}
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </ResizablePanel>
@@ -1061,18 +2304,22 @@ function BeadsEpicsViewer() {
           {/* Detail Panel - Right Panel */}
           <ResizablePanel defaultSize={45} minSize={20}>
             <div className="h-full overflow-hidden pl-4">
+              {/* No panel for a bead whose workspace is unknown: its edits would go to the wrong database */}
               <BeadDetailPanel
                 ref={detailPanelRef}
-                bead={selectedBead}
+                bead={selectedDbPath === null ? null : selectedBead}
                 onClose={handleCloseDetail}
                 onUpdate={handleBeadUpdate}
                 onAddComment={handleAddComment}
                 onDelete={handleDelete}
                 onBeadNavigate={handleBeadNavigate}
                 parentPath={parentPath}
-                dbPath={currentWorkspace?.databasePath}
+                dbPath={selectedDbPath ?? undefined}
                 assignees={assignees}
-                availableStatuses={availableStatuses}
+                statusDefinitions={statusDefinitions}
+                beadOptions={beadOptions}
+                onMutation={record}
+                capabilities={bdInfo?.capabilities}
                 isFocused={focusedPanel === "right"}
                 onFocus={() => setFocusedPanel("right")}
               />
@@ -1081,12 +2328,93 @@ function BeadsEpicsViewer() {
         </ResizablePanelGroup>
       </main>
 
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        beads={paletteBeads}
+        target={paletteTarget}
+        canMoveTo={canMoveEpic}
+        onOpenBead={handleBeadClick}
+        onAction={handlePaletteAction}
+        workspaces={paletteWorkspaces}
+        currentWorkspaceId={currentWorkspace?.id}
+        onWorkspaceChange={handleWorkspaceChange}
+        isDark={isDark}
+        onThemeToggle={handleThemeToggle}
+        views={savedViews}
+        onApplyView={applyView}
+        statuses={statusDefinitions}
+        assignees={assignees}
+        labels={labels}
+        currentUser={currentUser}
+      />
+
+      <LabelManagerDialog
+        open={isLabelManagerOpen}
+        onOpenChange={setIsLabelManagerOpen}
+        usage={labelCounts}
+        onRename={handleRenameLabel}
+        onDelete={handleDeleteLabel}
+        isRunning={isBulkRunning}
+      />
+
+      <StatusSettingsDialog
+        open={isStatusSettingsOpen}
+        onOpenChange={setIsStatusSettingsOpen}
+        definitions={statusDefinitions}
+        usage={statusUsage}
+        supportsCustom={bdInfo?.capabilities.customStatuses !== false}
+        onSave={handleSaveStatuses}
+        isSaving={isSavingStatuses}
+      />
+
+      <WorkspaceManagerDialog
+        open={isWorkspaceManagerOpen}
+        onOpenChange={setIsWorkspaceManagerOpen}
+        workspaces={workspaces}
+        currentWorkspaceId={currentWorkspace?.id}
+        onAdd={handleAddWorkspace}
+        onUpdate={handleUpdateWorkspace}
+        onReorder={handleReorderWorkspaces}
+        onRemove={handleRemoveWorkspace}
+        isSaving={isSavingWorkspaces}
+      />
+
+      <CreateBeadDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onCreate={handleCreateBead}
+        epics={epicOptions}
+        assignees={assignees}
+        workspaces={isAllWorkspaces ? aggregated : undefined}
+      />
+
+      <AlertDialog open={bulkDeleteConfirm} onOpenChange={setBulkDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.size} selected item{selectedIds.size === 1 ? "" : "s"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected items will be moved to Trash, where they can be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => runBulkAction({ kind: "delete" })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={!!deleteConfirmId} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete this item?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. The item will be permanently deleted.
+              The item will be moved to Trash, where it can be restored.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1105,6 +2433,31 @@ function BeadsEpicsViewer() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={!!purgeConfirmBead} onOpenChange={(open) => !open && setPurgeConfirmBead(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {purgeConfirmBead?.id} permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. The item will be removed from the database and can no longer be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (purgeConfirmBead) {
+                  handlePurge(purgeConfirmBead.id)
+                  setPurgeConfirmBead(null)
+                }
+              }}
+            >
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
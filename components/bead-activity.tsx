@@ -0,0 +1,150 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle2, History, Link2, MessageSquare, Pencil, Plus, RotateCcw, Tag, type LucideIcon } from "lucide-react"
+import type { ActivityChange, ActivityEvent, Bead, BeadPriority, BeadType, Comment } from "@/lib/types"
+import { findStatus, type StatusDefinition } from "@/lib/status"
+import { formatDateTime, formatRelativeTime } from "@/lib/format"
+import { getBeadActivity } from "@/actions/epics"
+import { priorityConfig, typeConfig } from "@/components/bead-table"
+import { SimpleMarkdown } from "@/components/simple-markdown"
+import { Spinner } from "@/components/ui/spinner"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+
+interface BeadActivityProps {
+  bead: Bead
+  dbPath?: string
+  statusDefinitions: StatusDefinition[]
+}
+
+type TimelineEntry =
+  | { kind: "event"; timestamp: Date; event: ActivityEvent }
+  | { kind: "comment"; timestamp: Date; comment: Comment }
+
+const kindStyles: Record<string, { icon: LucideIcon; verb: string }> = {
+  created: { icon: Plus, verb: "created this bead" },
+  updated: { icon: Pencil, verb: "edited" },
+  status_changed: { icon: Pencil, verb: "changed" },
+  closed: { icon: CheckCircle2, verb: "closed this bead" },
+  reopened: { icon: RotateCcw, verb: "reopened this bead" },
+  label_added: { icon: Tag, verb: "added a label" },
+  label_removed: { icon: Tag, verb: "removed a label" },
+  dependency_added: { icon: Link2, verb: "added a dependency" },
+  dependency_removed: { icon: Link2, verb: "removed a dependency" },
+  compacted: { icon: History, verb: "compacted this bead" },
+}
+
+const fieldLabels: Record<string, string> = {
+  issue_type: "type",
+  acceptance_criteria: "acceptance criteria",
+  external_ref: "external ref",
+}
+
+function displayValue(field: string, value: string | undefined, statuses: StatusDefinition[]): string {
+  if (!value) return "none"
+  if (field === "status") return findStatus(statuses, value).label
+  if (field === "priority") return priorityConfig[value as BeadPriority]?.label ?? value
+  if (field === "issue_type") return typeConfig[value as BeadType]?.label ?? value
+  return value
+}
+
+function ChangeLine({ change, statuses }: { change: ActivityChange; statuses: StatusDefinition[] }) {
+  const label = fieldLabels[change.field] ?? change.field.replace(/_/g, " ")
+  if (change.from === undefined && change.to === undefined) {
+    return <div className="text-xs text-muted-foreground">edited {label}</div>
+  }
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-0">
+      <span className="shrink-0">{label}:</span>
+      <span className="truncate line-through decoration-muted-foreground/40">{displayValue(change.field, change.from, statuses)}</span>
+      <span className="shrink-0">→</span>
+      <span className="truncate text-foreground/80">{displayValue(change.field, change.to, statuses)}</span>
+    </div>
+  )
+}
+
+function Timestamp({ date }: { date: Date }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="text-xs text-muted-foreground/60 cursor-default ml-auto shrink-0">{formatRelativeTime(date)}</span>
+      </TooltipTrigger>
+      <TooltipContent>{formatDateTime(date)}</TooltipContent>
+    </Tooltip>
+  )
+}
+
+// The bead's audit history from bd's events table, merged with its comments, oldest first
+export function BeadActivity({ bead, dbPath, statusDefinitions }: BeadActivityProps) {
+  const [events, setEvents] = useState<ActivityEvent[] | null>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Reload when the bead changes (edits bump updated_at; comments don't)
+  const updatedAt = bead.updatedAt ? new Date(bead.updatedAt).getTime() : 0
+  const commentCount = bead.comments.length
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    getBeadActivity(bead.id, dbPath)
+      .then((result) => { if (!cancelled) setEvents(result) })
+      .finally(() => { if (!cancelled) setIsLoading(false) })
+    return () => { cancelled = true }
+  }, [bead.id, dbPath, updatedAt, commentCount])
+
+  const entries: TimelineEntry[] = [
+    ...(events ?? []).map(event => ({ kind: "event" as const, timestamp: new Date(event.timestamp), event })),
+    ...bead.comments.map(comment => ({ kind: "comment" as const, timestamp: new Date(comment.timestamp), comment })),
+  ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+  return (
+    <div className="space-y-3">
+      {events === null && (
+        <p className="text-xs text-muted-foreground">
+          Change history needs the sqlite3 CLI and a bd database with an events table; showing comments only.
+        </p>
+      )}
+      {isLoading && entries.length === 0 && <Spinner className="h-4 w-4 text-muted-foreground" />}
+      {!isLoading && entries.length === 0 && events !== null && (
+        <p className="text-sm text-muted-foreground">No activity yet</p>
+      )}
+
+      <ol className="relative space-y-3 before:absolute before:left-3.5 before:top-2 before:bottom-2 before:w-px before:bg-border/50">
+        {entries.map((entry) => {
+          const style = entry.kind === "comment"
+            ? { icon: MessageSquare, verb: "commented" }
+            : kindStyles[entry.event.kind] ?? { icon: History, verb: entry.event.kind.replace(/_/g, " ") }
+          const Icon = style.icon
+          const actor = entry.kind === "comment" ? entry.comment.author : entry.event.actor
+          return (
+            <li key={`${entry.kind}-${entry.kind === "comment" ? entry.comment.id : entry.event.id}`} className="relative flex gap-3">
+              <div className="relative z-10 w-7 h-7 rounded-full flex-shrink-0 flex items-center justify-center bg-muted text-muted-foreground">
+                <Icon className="h-3.5 w-3.5" />
+              </div>
+              <div className="flex-1 min-w-0 space-y-1 pt-1">
+                <div className="flex items-center gap-1.5 text-sm">
+                  <span className="font-medium text-foreground/70 truncate">{actor || "unknown"}</span>
+                  <span className="text-muted-foreground truncate">{style.verb}</span>
+                  <Timestamp date={entry.timestamp} />
+                </div>
+                {entry.kind === "comment" ? (
+                  <div className="rounded-md bg-muted/30 px-3 py-2 text-sm text-foreground/90">
+                    <SimpleMarkdown content={entry.comment.content} />
+                  </div>
+                ) : (
+                  <>
+                    {entry.event.changes.map((change) => (
+                      <ChangeLine key={change.field} change={change} statuses={statusDefinitions} />
+                    ))}
+                    {entry.event.text && (
+                      <div className="text-xs text-muted-foreground break-words">{entry.event.text}</div>
+                    )}
+                  </>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
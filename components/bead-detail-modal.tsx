@@ -26,7 +26,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Spinner } from "@/components/ui/spinner"
-import { toast } from "sonner"
+import { toastActionError } from "@/lib/error-toast"
 import type { Bead, BeadType, BeadStatus, BeadPriority, Comment } from "@/lib/types"
 import { cn } from "@/lib/utils"
 import {
@@ -203,7 +203,7 @@ export function BeadDetailModal({
     } else {
       setFieldError('title')
       setTitle(bead.title) // revert
-      toast.error("Failed to save title", { description: result.error })
+      toastActionError("Failed to save title", result)
       setTimeout(() => clearFieldError('title'), 2000)
     }
   }, [bead, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
@@ -227,7 +227,7 @@ export function BeadDetailModal({
     } else {
       setFieldError('type')
       setType(prevType) // revert
-      toast.error("Failed to save type", { description: result.error })
+      toastActionError("Failed to save type", result)
       setTimeout(() => clearFieldError('type'), 2000)
     }
   }, [bead, type, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
@@ -245,7 +245,7 @@ export function BeadDetailModal({
     } else {
       setFieldError('status')
       setStatus(prevStatus) // revert
-      toast.error("Failed to save status", { description: result.error })
+      toastActionError("Failed to save status", result)
       setTimeout(() => clearFieldError('status'), 2000)
     }
   }, [bead, status, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
@@ -263,7 +263,7 @@ export function BeadDetailModal({
     } else {
       setFieldError('priority')
       setPriority(prevPriority) // revert
-      toast.error("Failed to save priority", { description: result.error })
+      toastActionError("Failed to save priority", result)
       setTimeout(() => clearFieldError('priority'), 2000)
     }
   }, [bead, priority, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
@@ -279,7 +279,7 @@ export function BeadDetailModal({
     } else {
       setFieldError('assignee')
       setAssignee(bead.assignee) // revert
-      toast.error("Failed to save assignee", { description: result.error })
+      toastActionError("Failed to save assignee", result)
       setTimeout(() => clearFieldError('assignee'), 2000)
     }
   }, [bead, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
@@ -593,6 +593,7 @@ export function BeadDetailModal({
                       priority === "high" && "text-orange-400",
                       priority === "medium" && "text-yellow-400",
                       priority === "low" && "text-slate-400",
+                      priority === "none" && "text-zinc-500",
                       fieldStates.priority.hasError && "ring-1 ring-destructive"
                     )}
                   >
@@ -603,6 +604,7 @@ export function BeadDetailModal({
                     <SelectItem value="high"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-orange-500" />High</span></SelectItem>
                     <SelectItem value="medium"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-yellow-500" />Medium</span></SelectItem>
                     <SelectItem value="low"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-slate-500" />Low</span></SelectItem>
+                    <SelectItem value="none"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-zinc-600" />None</span></SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -20,8 +20,11 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Spinner } from "@/components/ui/spinner"
 import { toast } from "sonner"
-import type { Bead, BeadType, BeadStatus, BeadPriority, Comment } from "@/lib/types"
+import { toastActionError } from "@/lib/error-toast"
+import type { Bead, BdCapabilities, BeadDependency, BeadType, BeadStatus, BeadPriority, Comment, ExpectedField } from "@/lib/types"
 import { cn } from "@/lib/utils"
+import { formatDate, formatDateTime, formatRelativeTime } from "@/lib/format"
+import { DEFAULT_STATUS_DEFINITIONS, STATUS_COLORS, findStatus, type StatusDefinition } from "@/lib/status"
 import {
   CheckCircle2,
   X,
@@ -31,9 +34,16 @@ import {
   ArrowUp,
   Rocket,
   Maximize2,
+  Pencil,
 } from "lucide-react"
 import { CopyableId } from "@/components/copyable-id"
+import { WorkspaceBadge } from "@/components/workspace-badge"
 import { SimpleMarkdown } from "@/components/simple-markdown"
+import { DependencyEditor } from "@/components/dependency-editor"
+import { BeadActivity } from "@/components/bead-activity"
+import { EditableMarkdownField } from "@/components/editable-markdown-field"
+import { ConflictDialog, type FieldConflict } from "@/components/conflict-dialog"
+import type { UndoEntry } from "@/hooks/use-undo-history"
 import {
   Tooltip,
   TooltipContent,
@@ -52,6 +62,11 @@ import {
   updateBeadStatus,
   updateBeadPriority,
   updateBeadAssignee,
+  updateBeadDescription,
+  updateBeadDesign,
+  updateBeadAcceptanceCriteria,
+  updateBeadNotes,
+  updateBeadExternalRef,
   deleteCommentAction,
   removeLabelAction,
   addLabelAction,
@@ -67,7 +82,10 @@ interface BeadDetailPanelProps {
   parentPath?: { id: string; title: string }[]
   dbPath?: string
   assignees?: string[]
-  availableStatuses?: string[]
+  statusDefinitions?: StatusDefinition[]
+  beadOptions?: BeadDependency[]
+  onMutation?: (entry: UndoEntry) => void
+  capabilities?: BdCapabilities // Features of the installed bd (all assumed available when unknown)
   isFocused?: boolean
   onFocus?: () => void
 }
@@ -77,30 +95,17 @@ export interface BeadDetailPanelHandle {
   scrollToLatestComment: () => void
 }
 
-// Core status configurations for styling
-const coreStatusConfig: Record<string, { label: string; colorClass: string; dotClass: string }> = {
-  open: { label: "Open", colorClass: "text-white", dotClass: "bg-white" },
-  in_progress: { label: "In Progress", colorClass: "text-amber-400", dotClass: "bg-amber-500" },
-  closed: { label: "Closed", colorClass: "text-zinc-500", dotClass: "bg-zinc-600" },
-  ready_for_qa: { label: "Ready for QA", colorClass: "text-purple-400", dotClass: "bg-purple-500" },
-  ready_to_ship: { label: "Ready to Ship", colorClass: "text-emerald-400", dotClass: "bg-emerald-500" },
-}
+type TextFieldName = 'description' | 'design' | 'acceptanceCriteria' | 'notes' | 'externalRef'
+type FieldName = 'title' | 'type' | 'status' | 'priority' | 'assignee' | TextFieldName
+// Free-text fields whose saves are checked for conflicting edits
+type GuardedField = 'title' | TextFieldName
 
-// Get status display config with fallback for unknown custom statuses
-function getStatusDisplayConfig(status: string): { label: string; colorClass: string; dotClass: string } {
-  if (coreStatusConfig[status]) {
-    return coreStatusConfig[status]
-  }
-  // Fallback for unknown custom statuses
-  return {
-    label: status.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase()),
-    colorClass: "text-cyan-400",
-    dotClass: "bg-cyan-500",
-  }
+// The state an edit of a field starts from
+function baseFromBead(bead: Bead, field: GuardedField): ExpectedField {
+  // Without an updatedAt the server falls back to comparing the field value
+  return { updatedAt: bead.updatedAt ? new Date(bead.updatedAt).toISOString() : "", value: bead[field] ?? "" }
 }
 
-type FieldName = 'title' | 'type' | 'status' | 'priority' | 'assignee'
-
 interface FieldState {
   isSaving: boolean
   hasError: boolean
@@ -112,6 +117,27 @@ const initialFieldStates: Record<FieldName, FieldState> = {
   status: { isSaving: false, hasError: false },
   priority: { isSaving: false, hasError: false },
   assignee: { isSaving: false, hasError: false },
+  description: { isSaving: false, hasError: false },
+  design: { isSaving: false, hasError: false },
+  acceptanceCriteria: { isSaving: false, hasError: false },
+  notes: { isSaving: false, hasError: false },
+  externalRef: { isSaving: false, hasError: false },
+}
+
+// Optional markdown sections below the description
+const optionalSections: { field: "design" | "acceptanceCriteria" | "notes"; label: string }[] = [
+  { field: "design", label: "Design" },
+  { field: "acceptanceCriteria", label: "Acceptance Criteria" },
+  { field: "notes", label: "Notes" },
+]
+
+// Server action and display label for each free-text field
+const textFields: Record<TextFieldName, { label: string; save: typeof updateBeadDescription }> = {
+  description: { label: "description", save: updateBeadDescription },
+  design: { label: "design", save: updateBeadDesign },
+  acceptanceCriteria: { label: "acceptance criteria", save: updateBeadAcceptanceCriteria },
+  notes: { label: "notes", save: updateBeadNotes },
+  externalRef: { label: "external ref", save: updateBeadExternalRef },
 }
 
 const typeColors: Record<string, string> = {
@@ -134,7 +160,10 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
   parentPath = [],
   dbPath,
   assignees = [],
-  availableStatuses = ["open", "in_progress", "closed"],
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
+  beadOptions = [],
+  onMutation,
+  capabilities,
   isFocused = false,
   onFocus,
 }, ref) {
@@ -143,6 +172,10 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
   const [design, setDesign] = useState("")
   const [acceptanceCriteria, setAcceptanceCriteria] = useState("")
   const [notes, setNotes] = useState("")
+  const [externalRef, setExternalRef] = useState("")
+  const [isEditingExternalRef, setIsEditingExternalRef] = useState(false)
+  // Empty optional sections the user chose to add (rendered in edit mode)
+  const [addedSections, setAddedSections] = useState<Set<TextFieldName>>(new Set())
   const [type, setType] = useState<BeadType>("task")
   const [status, setStatus] = useState<BeadStatus>("open")
   const [priority, setPriority] = useState<BeadPriority>("medium")
@@ -155,6 +188,14 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
 
   // Refs for debounced saves
   const titleTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const textFieldTimeoutsRef = useRef<Partial<Record<TextFieldName, NodeJS.Timeout>>>({})
+  // Conflict detection: the server state each field's edit started from, plus per-field save chains
+  // so a save never starts before the previous one for the same field has finished
+  const editBaseRef = useRef<Partial<Record<GuardedField, ExpectedField>>>({})
+  const saveChainRef = useRef<Partial<Record<GuardedField, Promise<void>>>>({})
+  const pendingSavesRef = useRef<Partial<Record<GuardedField, number>>>({})
+  const syncedBeadIdRef = useRef<string | null>(null)
+  const [conflict, setConflict] = useState<(FieldConflict & { field: GuardedField; current: Bead }) | null>(null)
   const descriptionRef = useRef<HTMLDivElement | null>(null)
   const firstCommentRef = useRef<HTMLDivElement | null>(null)
   const lastCommentRef = useRef<HTMLDivElement | null>(null)
@@ -166,6 +207,8 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
   const [expandedComment, setExpandedComment] = useState<Comment | null>(null)
   const [isExpandedView, setIsExpandedView] = useState(false)
   const commentRefs = useRef<(HTMLDivElement | null)[]>([])
+  // Below the dependencies: the comment thread, or the full activity timeline
+  const [historyTab, setHistoryTab] = useState<"comments" | "activity">("comments")
 
   const scrollToFirstComment = useCallback(() => {
     firstCommentRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
@@ -204,6 +247,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
         return
       }
 
+      setHistoryTab("comments")
       setFocusedCommentIndex(prev => {
         // At first comment and going up - scroll to top
         if (prev === 0 && direction === "up") {
@@ -241,6 +285,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     scrollToLatestComment: () => {
       if (!bead || bead.comments.length === 0) return
       const lastIndex = bead.comments.length - 1
+      setHistoryTab("comments")
       setFocusedCommentIndex(lastIndex)
       setTimeout(() => {
         commentRefs.current[lastIndex]?.scrollIntoView({
@@ -258,7 +303,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
       onUpdate({ ...bead, comments: bead.comments.filter(c => c.id !== commentId) })
       toast.success("Comment deleted")
     } else {
-      toast.error("Failed to delete comment", { description: result.error })
+      toastActionError("Failed to delete comment", result)
     }
   }, [bead, dbPath, onUpdate])
 
@@ -294,7 +339,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     }
 
     return () => observers.forEach(obs => obs.disconnect())
-  }, [bead?.comments.length])
+  }, [bead?.comments.length, historyTab])
 
   // Track scroll position to show "back to top" when not at top
   useEffect(() => {
@@ -339,16 +384,35 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     }))
   }, [])
 
+  // A field with a pending debounce or a save in flight
+  const isFieldBusy = (field: GuardedField) =>
+    (field === 'title' ? !!titleTimeoutRef.current : !!textFieldTimeoutsRef.current[field]) ||
+    (pendingSavesRef.current[field] ?? 0) > 0
+
   // Sync state when bead changes
   // Use specific fields as dependencies to ensure updates when content changes
   // (React compares objects by reference, so [bead] alone may miss updates)
   useEffect(() => {
     if (bead) {
-      setTitle(bead.title)
-      setDescription(bead.description)
-      setDesign(bead.design || "")
-      setAcceptanceCriteria(bead.acceptanceCriteria || "")
-      setNotes(bead.notes || "")
+      const isNewBead = syncedBeadIdRef.current !== bead.id
+      if (isNewBead) {
+        syncedBeadIdRef.current = bead.id
+        editBaseRef.current = {}
+        saveChainRef.current = {}
+        pendingSavesRef.current = {}
+      }
+      // Don't overwrite text the user is still saving; idle fields start their next edit from here
+      const syncText = (field: GuardedField, apply: () => void) => {
+        if (!isNewBead && isFieldBusy(field)) return
+        delete editBaseRef.current[field]
+        apply()
+      }
+      syncText('title', () => setTitle(bead.title))
+      syncText('description', () => setDescription(bead.description))
+      syncText('design', () => setDesign(bead.design || ""))
+      syncText('acceptanceCriteria', () => setAcceptanceCriteria(bead.acceptanceCriteria || ""))
+      syncText('notes', () => setNotes(bead.notes || ""))
+      syncText('externalRef', () => setExternalRef(bead.externalRef || ""))
       setType(bead.type)
       setStatus(bead.status)
       setPriority(bead.priority)
@@ -361,7 +425,13 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
       setFocusedCommentIndex(null)
       setIsExpandedView(false)
     }
-  }, [bead?.id, bead?.title, bead?.description, bead?.design, bead?.acceptanceCriteria, bead?.notes, bead?.type, bead?.status, bead?.priority, bead?.assignee, bead?.updatedAt, JSON.stringify(bead?.labels)])
+  }, [bead?.id, bead?.title, bead?.description, bead?.design, bead?.acceptanceCriteria, bead?.notes, bead?.externalRef, bead?.type, bead?.status, bead?.priority, bead?.assignee, bead?.updatedAt, JSON.stringify(bead?.labels)])
+
+  // Collapse added-but-empty sections when switching beads
+  useEffect(() => {
+    setAddedSections(new Set())
+    setIsEditingExternalRef(false)
+  }, [bead?.id])
 
   // Reset comment focus when panel loses focus
   useEffect(() => {
@@ -374,30 +444,165 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
   useEffect(() => {
     return () => {
       if (titleTimeoutRef.current) clearTimeout(titleTimeoutRef.current)
+      Object.values(textFieldTimeoutsRef.current).forEach(clearTimeout)
     }
   }, [])
 
-  // Autosave: Title (debounced 500ms)
-  const saveTitle = useCallback(async (newTitle: string) => {
-    if (!bead || newTitle === bead.title) return
-    setFieldSaving('title')
-    const result = await updateBeadTitle(bead.id, newTitle, dbPath)
-    if (result.success) {
-      setFieldSuccess('title')
-      onUpdate({ ...bead, title: newTitle, updatedAt: new Date() })
-    } else {
-      setFieldError('title')
-      setTitle(bead.title) // revert
-      toast.error("Failed to save title", { description: result.error })
-      setTimeout(() => clearFieldError('title'), 2000)
+  // Run a field's saves one at a time, so each starts from the previous one's result
+  const enqueueFieldSave = useCallback((field: GuardedField, run: () => Promise<void>) => {
+    pendingSavesRef.current[field] = (pendingSavesRef.current[field] ?? 0) + 1
+    const next = (saveChainRef.current[field] ?? Promise.resolve())
+      .then(run)
+      .catch((error) => console.error(`Failed to save ${field}:`, error))
+      .finally(() => {
+        pendingSavesRef.current[field] = Math.max(0, (pendingSavesRef.current[field] ?? 1) - 1)
+      })
+    saveChainRef.current[field] = next
+    return next
+  }, [])
+
+  // Remember where a field's edit started (first keystroke since the last sync)
+  const captureEditBase = useCallback((field: GuardedField) => {
+    if (bead && !editBaseRef.current[field]) {
+      editBaseRef.current[field] = baseFromBead(bead, field)
     }
-  }, [bead, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+  }, [bead])
+
+  // Autosave: Title (debounced 500ms)
+  const saveTitle = useCallback((newTitle: string) => {
+    titleTimeoutRef.current = null
+    if (!bead) return
+    return enqueueFieldSave('title', async () => {
+      const base = editBaseRef.current.title ?? baseFromBead(bead, 'title')
+      if (newTitle === base.value) return
+      setFieldSaving('title')
+      const prevTitle = base.value
+      const result = await updateBeadTitle(bead.id, newTitle, dbPath, base)
+      if (result.success) {
+        if (syncedBeadIdRef.current === bead.id) editBaseRef.current.title = { ...base, value: newTitle }
+        setFieldSuccess('title')
+        onUpdate({ ...bead, title: newTitle, updatedAt: new Date() })
+        onMutation?.({
+          label: `Renamed ${bead.id}`,
+          undo: () => updateBeadTitle(bead.id, prevTitle, dbPath),
+          redo: () => updateBeadTitle(bead.id, newTitle, dbPath),
+        })
+      } else if (result.code === "conflict" && result.current) {
+        // Keep the typed title and let the user pick a version
+        setFieldError('title')
+        setConflict({
+          field: 'title',
+          beadId: bead.id,
+          label: "title",
+          mine: newTitle,
+          theirs: result.current.title,
+          multiline: false,
+          current: result.current,
+        })
+      } else {
+        setFieldError('title')
+        setTitle(prevTitle) // revert
+        toastActionError("Failed to save title", result)
+        setTimeout(() => clearFieldError('title'), 2000)
+      }
+    })
+  }, [bead, dbPath, onUpdate, onMutation, enqueueFieldSave, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
 
   const handleTitleChange = useCallback((newTitle: string) => {
+    captureEditBase('title')
     setTitle(newTitle)
     if (titleTimeoutRef.current) clearTimeout(titleTimeoutRef.current)
     titleTimeoutRef.current = setTimeout(() => saveTitle(newTitle), 500)
-  }, [saveTitle])
+  }, [saveTitle, captureEditBase])
+
+  // Autosave: Description, design, acceptance criteria, notes, external ref (debounced 500ms)
+  const textFieldSetters: Record<TextFieldName, (value: string) => void> = {
+    description: setDescription,
+    design: setDesign,
+    acceptanceCriteria: setAcceptanceCriteria,
+    notes: setNotes,
+    externalRef: setExternalRef,
+  }
+
+  const textFieldValues: Record<TextFieldName, string> = { description, design, acceptanceCriteria, notes, externalRef }
+
+  const saveTextField = useCallback((field: TextFieldName, newValue: string): Promise<void> | undefined => {
+    delete textFieldTimeoutsRef.current[field]
+    if (!bead) return
+    return enqueueFieldSave(field, async () => {
+      const base = editBaseRef.current[field] ?? baseFromBead(bead, field)
+      const prevValue = base.value
+      if (newValue === prevValue) return
+      const { label, save } = textFields[field]
+      setFieldSaving(field)
+      const result = await save(bead.id, newValue, dbPath, base)
+      if (result.success) {
+        if (syncedBeadIdRef.current === bead.id) editBaseRef.current[field] = { ...base, value: newValue }
+        setFieldSuccess(field)
+        onUpdate({ ...bead, [field]: newValue, updatedAt: new Date() })
+        onMutation?.({
+          label: `Edited ${label} of ${bead.id}`,
+          undo: () => save(bead.id, prevValue, dbPath),
+          redo: () => save(bead.id, newValue, dbPath),
+        })
+      } else if (result.code === "conflict" && result.current) {
+        // Keep the typed text and let the user pick a version
+        setFieldError(field)
+        setConflict({
+          field,
+          beadId: bead.id,
+          label,
+          mine: newValue,
+          theirs: result.current[field] ?? "",
+          multiline: field !== "externalRef",
+          current: result.current,
+        })
+      } else {
+        setFieldError(field)
+        textFieldSetters[field](prevValue) // revert
+        // Retry puts the typed text back and saves it again
+        toastActionError(`Failed to save ${label}`, result, () => {
+          textFieldSetters[field](newValue)
+          saveTextField(field, newValue)
+        })
+        setTimeout(() => clearFieldError(field), 2000)
+      }
+    })
+  }, [bead, dbPath, onUpdate, onMutation, enqueueFieldSave, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+
+  // Resolve a conflicting save: overwrite with ours (starting from their version) or adopt theirs
+  const resolveConflict = useCallback((choice: "mine" | "theirs") => {
+    if (!conflict || !bead) return
+    const { field, mine, theirs, current } = conflict
+    setConflict(null)
+    clearFieldError(field)
+    if (choice === "mine") {
+      editBaseRef.current[field] = baseFromBead(current, field)
+      if (field === 'title') saveTitle(mine)
+      else saveTextField(field, mine)
+    } else {
+      delete editBaseRef.current[field]
+      if (field === 'title') setTitle(theirs)
+      else textFieldSetters[field](theirs)
+      onUpdate({ ...bead, [field]: theirs, updatedAt: current.updatedAt })
+    }
+  }, [conflict, bead, onUpdate, saveTitle, saveTextField, clearFieldError])
+
+  const handleTextFieldChange = useCallback((field: TextFieldName, newValue: string) => {
+    captureEditBase(field)
+    textFieldSetters[field](newValue)
+    const pending = textFieldTimeoutsRef.current[field]
+    if (pending) clearTimeout(pending)
+    textFieldTimeoutsRef.current[field] = setTimeout(() => saveTextField(field, newValue), 500)
+  }, [saveTextField, captureEditBase])
+
+  // Save immediately when the editor loses focus
+  const flushTextField = useCallback((field: TextFieldName, value: string) => {
+    const pending = textFieldTimeoutsRef.current[field]
+    if (!pending) return
+    clearTimeout(pending)
+    saveTextField(field, value)
+  }, [saveTextField])
 
   // Autosave: Type (immediate)
   const handleTypeChange = useCallback(async (newType: BeadType) => {
@@ -409,13 +614,18 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     if (result.success) {
       setFieldSuccess('type')
       onUpdate({ ...bead, type: newType, updatedAt: new Date() })
+      onMutation?.({
+        label: `Set type of ${bead.id} to ${newType}`,
+        undo: () => updateBeadType(bead.id, prevType, dbPath),
+        redo: () => updateBeadType(bead.id, newType, dbPath),
+      })
     } else {
       setFieldError('type')
       setType(prevType) // revert
-      toast.error("Failed to save type", { description: result.error })
+      toastActionError("Failed to save type", result)
       setTimeout(() => clearFieldError('type'), 2000)
     }
-  }, [bead, type, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+  }, [bead, type, dbPath, onUpdate, onMutation, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
 
   // Autosave: Status (immediate)
   const handleStatusChange = useCallback(async (newStatus: BeadStatus) => {
@@ -427,13 +637,18 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     if (result.success) {
       setFieldSuccess('status')
       onUpdate({ ...bead, status: newStatus, updatedAt: new Date() })
+      onMutation?.({
+        label: `Set status of ${bead.id} to ${newStatus}`,
+        undo: () => updateBeadStatus(bead.id, prevStatus, dbPath),
+        redo: () => updateBeadStatus(bead.id, newStatus, dbPath),
+      })
     } else {
       setFieldError('status')
       setStatus(prevStatus) // revert
-      toast.error("Failed to save status", { description: result.error })
+      toastActionError("Failed to save status", result)
       setTimeout(() => clearFieldError('status'), 2000)
     }
-  }, [bead, status, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+  }, [bead, status, dbPath, onUpdate, onMutation, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
 
   // Autosave: Priority (immediate)
   const handlePriorityChange = useCallback(async (newPriority: BeadPriority) => {
@@ -445,29 +660,40 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     if (result.success) {
       setFieldSuccess('priority')
       onUpdate({ ...bead, priority: newPriority, updatedAt: new Date() })
+      onMutation?.({
+        label: `Set priority of ${bead.id} to ${newPriority}`,
+        undo: () => updateBeadPriority(bead.id, prevPriority, dbPath),
+        redo: () => updateBeadPriority(bead.id, newPriority, dbPath),
+      })
     } else {
       setFieldError('priority')
       setPriority(prevPriority) // revert
-      toast.error("Failed to save priority", { description: result.error })
+      toastActionError("Failed to save priority", result)
       setTimeout(() => clearFieldError('priority'), 2000)
     }
-  }, [bead, priority, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+  }, [bead, priority, dbPath, onUpdate, onMutation, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
 
   // Autosave: Assignee (immediate)
   const saveAssignee = useCallback(async (newAssignee: string) => {
     if (!bead || newAssignee === bead.assignee) return
     setFieldSaving('assignee')
+    const prevAssignee = bead.assignee
     const result = await updateBeadAssignee(bead.id, newAssignee, dbPath)
     if (result.success) {
       setFieldSuccess('assignee')
       onUpdate({ ...bead, assignee: newAssignee, updatedAt: new Date() })
+      onMutation?.({
+        label: newAssignee ? `Assigned ${bead.id} to ${newAssignee}` : `Unassigned ${bead.id}`,
+        undo: () => updateBeadAssignee(bead.id, prevAssignee, dbPath),
+        redo: () => updateBeadAssignee(bead.id, newAssignee, dbPath),
+      })
     } else {
       setFieldError('assignee')
       setAssignee(bead.assignee) // revert
-      toast.error("Failed to save assignee", { description: result.error })
+      toastActionError("Failed to save assignee", result)
       setTimeout(() => clearFieldError('assignee'), 2000)
     }
-  }, [bead, dbPath, onUpdate, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
+  }, [bead, dbPath, onUpdate, onMutation, setFieldSaving, setFieldSuccess, setFieldError, clearFieldError])
 
   const handleAssigneeChange = useCallback((newAssignee: string) => {
     setAssignee(newAssignee)
@@ -494,11 +720,16 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     const result = await addLabelAction(bead.id, labelToAdd, dbPath)
     if (result.success) {
       onUpdate({ ...bead, labels: [...labels, labelToAdd], updatedAt: new Date() })
+      onMutation?.({
+        label: `Added label "${labelToAdd}" to ${bead.id}`,
+        undo: () => removeLabelAction(bead.id, labelToAdd, dbPath),
+        redo: () => addLabelAction(bead.id, labelToAdd, dbPath),
+      })
     } else {
       setLabels(labels) // revert
-      toast.error("Failed to add label", { description: result.error })
+      toastActionError("Failed to add label", result)
     }
-  }, [bead, newLabel, labels, dbPath, onUpdate])
+  }, [bead, newLabel, labels, dbPath, onUpdate, onMutation])
 
   const handleRemoveLabel = useCallback(async (label: string) => {
     if (!bead) return
@@ -507,51 +738,16 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     const result = await removeLabelAction(bead.id, label, dbPath)
     if (result.success) {
       onUpdate({ ...bead, labels: prevLabels.filter((l) => l !== label), updatedAt: new Date() })
+      onMutation?.({
+        label: `Removed label "${label}" from ${bead.id}`,
+        undo: () => addLabelAction(bead.id, label, dbPath),
+        redo: () => removeLabelAction(bead.id, label, dbPath),
+      })
     } else {
       setLabels(prevLabels) // revert
-      toast.error("Failed to remove label", { description: result.error })
+      toastActionError("Failed to remove label", result)
     }
-  }, [bead, labels, dbPath, onUpdate])
-
-
-  const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    })
-  }
-
-  const formatDateTime = (date: Date) => {
-    return new Date(date).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-    })
-  }
-
-  const formatRelativeTime = (date: Date) => {
-    const now = new Date()
-    const d = new Date(date)
-    const diffMs = now.getTime() - d.getTime()
-    const diffSec = Math.floor(diffMs / 1000)
-    const diffMin = Math.floor(diffSec / 60)
-    const diffHour = Math.floor(diffMin / 60)
-    const diffDay = Math.floor(diffHour / 24)
-    const diffWeek = Math.floor(diffDay / 7)
-    const diffMonth = Math.floor(diffDay / 30)
-    const diffYear = Math.floor(diffDay / 365)
-
-    if (diffSec < 60) return "just now"
-    if (diffMin < 60) return `${diffMin}m ago`
-    if (diffHour < 24) return `${diffHour}h ago`
-    if (diffDay < 7) return `${diffDay}d ago`
-    if (diffWeek < 4) return `${diffWeek}w ago`
-    if (diffMonth < 12) return `${diffMonth}mo ago`
-    return `${diffYear}y ago`
-  }
+  }, [bead, labels, dbPath, onUpdate, onMutation])
 
   // Empty state when no bead selected
   if (!bead) {
@@ -562,6 +758,11 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
     )
   }
 
+  const statusDefinition = findStatus(statusDefinitions, status)
+  // Quick "Ready to Ship" footer for workspaces with that status
+  const showShipButton = status !== "ready_to_ship" && !statusDefinition.done &&
+    statusDefinitions.some(s => s.name === "ready_to_ship")
+
   return (
     <div
       className="h-full flex flex-col relative outline-none"
@@ -591,11 +792,13 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                   </button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="start">
-                  {(["bug", "task", "feature", "chore", "epic", "message"] as BeadType[]).map((t) => (
-                    <DropdownMenuItem key={t} onClick={() => handleTypeChange(t)} className="capitalize">
-                      {t}
-                    </DropdownMenuItem>
-                  ))}
+                  {(["bug", "task", "feature", "chore", "epic", "message"] as BeadType[])
+                    .filter((t) => t !== "message" || capabilities?.messageType !== false)
+                    .map((t) => (
+                      <DropdownMenuItem key={t} onClick={() => handleTypeChange(t)} className="capitalize">
+                        {t}
+                      </DropdownMenuItem>
+                    ))}
                 </DropdownMenuContent>
               </DropdownMenu>
 
@@ -655,11 +858,42 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
           {/* ID, External Ref, and Timestamps */}
           <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2 flex-wrap">
             <CopyableId id={bead.id} className="text-xs" />
-            {bead.externalRef && (
-              <span className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-400 font-medium">
-                {bead.externalRef}
-              </span>
+            <WorkspaceBadge workspace={bead.workspace} />
+            {isEditingExternalRef ? (
+              <Input
+                value={externalRef}
+                onChange={(e) => handleTextFieldChange("externalRef", e.target.value)}
+                onBlur={() => {
+                  setIsEditingExternalRef(false)
+                  flushTextField("externalRef", externalRef)
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur()
+                }}
+                placeholder="e.g. gh-123"
+                autoFocus
+                className={cn("h-6 w-32 px-1.5 text-xs", fieldStates.externalRef.hasError && "ring-1 ring-destructive")}
+              />
+            ) : externalRef ? (
+              <button
+                type="button"
+                onClick={() => setIsEditingExternalRef(true)}
+                className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-400 font-medium hover:bg-blue-500/30 transition-colors"
+                title="Edit external ref"
+              >
+                {externalRef}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsEditingExternalRef(true)}
+                className="inline-flex items-center gap-1 text-muted-foreground/60 hover:text-foreground transition-colors"
+              >
+                <Pencil className="h-2.5 w-2.5" />
+                External ref
+              </button>
             )}
+            {fieldStates.externalRef.isSaving && <Spinner className="h-2.5 w-2.5" />}
             {bead.createdAt && <span title={formatDate(bead.createdAt)}>Created: {formatRelativeTime(bead.createdAt)}</span>}
             {bead.updatedAt && <span title={formatDate(bead.updatedAt)}>Updated: {formatRelativeTime(bead.updatedAt)}</span>}
           </div>
@@ -672,24 +906,21 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                 disabled={fieldStates.status.isSaving}
                 className={cn(
                   "h-auto p-0 border-0 bg-transparent dark:bg-transparent dark:hover:bg-transparent shadow-none rounded-none w-auto gap-1 text-[11px]",
-                  getStatusDisplayConfig(status).colorClass,
+                  STATUS_COLORS[statusDefinition.color].text,
                   fieldStates.status.hasError && "ring-1 ring-destructive"
                 )}
               >
                 {fieldStates.status.isSaving ? <Spinner className="h-2 w-2" /> : <SelectValue />}
               </SelectTrigger>
               <SelectContent>
-                {availableStatuses.map((s) => {
-                  const config = getStatusDisplayConfig(s)
-                  return (
-                    <SelectItem key={s} value={s}>
-                      <span className="flex items-center gap-1.5">
-                        <span className={cn("w-1.5 h-1.5 rounded-full", config.dotClass)} />
-                        {config.label}
-                      </span>
-                    </SelectItem>
-                  )
-                })}
+                {statusDefinitions.map((s) => (
+                  <SelectItem key={s.name} value={s.name}>
+                    <span className="flex items-center gap-1.5">
+                      <span className={cn("w-1.5 h-1.5 rounded-full", STATUS_COLORS[s.color].dot)} />
+                      {s.label}
+                    </span>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -705,6 +936,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                   priority === "high" && "text-orange-400",
                   priority === "medium" && "text-yellow-400",
                   priority === "low" && "text-slate-400",
+                  priority === "none" && "text-zinc-500",
                   fieldStates.priority.hasError && "ring-1 ring-destructive"
                 )}
               >
@@ -715,6 +947,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                 <SelectItem value="high"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-orange-500" />High</span></SelectItem>
                 <SelectItem value="medium"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-yellow-500" />Medium</span></SelectItem>
                 <SelectItem value="low"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-slate-500" />Low</span></SelectItem>
+                <SelectItem value="none"><span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-zinc-600" />None</span></SelectItem>
               </SelectContent>
             </Select>
 
@@ -819,87 +1052,91 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
           <div className="flex-1 min-w-0 space-y-4">
 
           {/* Description */}
-          <div ref={descriptionRef} className="pt-4 border-t border-border/30">
-            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">Description</h3>
-            <div className="prose prose-sm prose-invert max-w-none text-foreground/90">
-              {description ? (
-                <SimpleMarkdown content={description} />
-              ) : (
-                <p className="text-muted-foreground/50 italic text-sm">No description</p>
-              )}
-            </div>
+          <div ref={descriptionRef}>
+            <EditableMarkdownField
+              key={`${bead.id}-description`}
+              label="Description"
+              value={description}
+              onChange={(value) => handleTextFieldChange("description", value)}
+              onBlur={() => flushTextField("description", description)}
+              isSaving={fieldStates.description.isSaving}
+              hasError={fieldStates.description.hasError}
+            />
           </div>
 
-          {/* Design */}
-          {design && (
-            <div className="pt-4 border-t border-border/30">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">Design</h3>
-              <div className="prose prose-sm prose-invert max-w-none text-foreground/90">
-                <SimpleMarkdown content={design} />
-              </div>
+          {/* Design, Acceptance Criteria, Notes - shown when set or just added */}
+          {optionalSections
+            .filter(({ field }) => textFieldValues[field] || addedSections.has(field))
+            .map(({ field, label }) => (
+              <EditableMarkdownField
+                key={`${bead.id}-${field}`}
+                label={label}
+                value={textFieldValues[field]}
+                onChange={(value) => handleTextFieldChange(field, value)}
+                onBlur={() => flushTextField(field, textFieldValues[field])}
+                isSaving={fieldStates[field].isSaving}
+                hasError={fieldStates[field].hasError}
+                autoEdit={addedSections.has(field) && !bead[field]}
+              />
+            ))}
+
+          {/* Add buttons for empty optional sections */}
+          {optionalSections.some(({ field }) => !textFieldValues[field] && !addedSections.has(field)) && (
+            <div className="flex flex-wrap gap-2">
+              {optionalSections
+                .filter(({ field }) => !textFieldValues[field] && !addedSections.has(field))
+                .map(({ field, label }) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => setAddedSections(prev => new Set(prev).add(field))}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-dashed border-border text-xs text-muted-foreground hover:text-foreground hover:border-foreground/40 transition-colors"
+                  >
+                    <Plus className="h-3 w-3" />
+                    {label}
+                  </button>
+                ))}
             </div>
           )}
 
-          {/* Acceptance Criteria */}
-          {acceptanceCriteria && (
-            <div className="pt-4 border-t border-border/30">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">Acceptance Criteria</h3>
-              <div className="prose prose-sm prose-invert max-w-none text-foreground/90">
-                <SimpleMarkdown content={acceptanceCriteria} />
-              </div>
-            </div>
-          )}
+          {/* Dependencies */}
+          <DependencyEditor
+            bead={bead}
+            beadOptions={beadOptions}
+            dbPath={dbPath}
+            onUpdate={onUpdate}
+            onBeadNavigate={onBeadNavigate}
+            onMutation={onMutation}
+          />
+
+          {/* Comments / Activity tabs */}
+          <div className="mt-6 flex items-center gap-1 text-xs">
+            {(["comments", "activity"] as const).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setHistoryTab(tab)}
+                className={cn(
+                  "px-2 py-1 rounded capitalize transition-colors",
+                  historyTab === tab
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                )}
+              >
+                {tab === "comments" ? `Comments (${bead.comments.length})` : "Activity"}
+              </button>
+            ))}
+          </div>
 
-          {/* Notes */}
-          {notes && (
-            <div className="pt-4 border-t border-border/30">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">Notes</h3>
-              <div className="prose prose-sm prose-invert max-w-none text-foreground/90">
-                <SimpleMarkdown content={notes} />
-              </div>
+          {historyTab === "activity" && (
+            <div className="mt-4">
+              <BeadActivity bead={bead} dbPath={dbPath} statusDefinitions={statusDefinitions} />
             </div>
           )}
 
-          {/* Dependencies */}
-          {(bead.blockedBy?.length || bead.blocks?.length) ? (
-            <div className="pt-4 border-t border-border/30 space-y-2">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Dependencies</h3>
-              {bead.blockedBy && bead.blockedBy.length > 0 && (
-                <div className="flex flex-wrap items-center gap-1.5">
-                  <span className="text-xs text-muted-foreground">Blocked by:</span>
-                  {bead.blockedBy.map(dep => (
-                    <button
-                      key={dep.id}
-                      onClick={() => onBeadNavigate?.(dep.id)}
-                      className="text-xs px-2 py-0.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors"
-                      title={dep.title}
-                    >
-                      {dep.id}
-                    </button>
-                  ))}
-                </div>
-              )}
-              {bead.blocks && bead.blocks.length > 0 && (
-                <div className="flex flex-wrap items-center gap-1.5">
-                  <span className="text-xs text-muted-foreground">Blocks:</span>
-                  {bead.blocks.map(dep => (
-                    <button
-                      key={dep.id}
-                      onClick={() => onBeadNavigate?.(dep.id)}
-                      className="text-xs px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 transition-colors"
-                      title={dep.title}
-                    >
-                      {dep.id}
-                    </button>
-                  ))}
-                </div>
-              )}
-            </div>
-          ) : null}
-
           {/* Comments */}
-          {bead.comments.length > 0 && (
-            <div className="mt-6 space-y-4">
+          {historyTab === "comments" && bead.comments.length > 0 && (
+            <div className="mt-4 space-y-4">
               {bead.comments.map((comment, index) => (
                 <div
                   key={comment.id}
@@ -937,14 +1174,16 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                     >
                       <Maximize2 className="h-3.5 w-3.5" />
                     </button>
-                    <button
-                      type="button"
-                      onClick={(e) => { e.stopPropagation(); handleDeleteComment(comment.id) }}
-                      className="p-1 rounded hover:bg-red-500/20 text-muted-foreground/40 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
-                      title="Delete comment"
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </button>
+                    {capabilities?.commentDeletion !== false && (
+                      <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); handleDeleteComment(comment.id) }}
+                        className="p-1 rounded hover:bg-red-500/20 text-muted-foreground/40 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
+                        title="Delete comment"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
                   </div>
                   <div className="px-4 py-3 text-sm text-foreground/90">
                     <SimpleMarkdown content={comment.content} />
@@ -992,11 +1231,14 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                   <TooltipTrigger asChild>
                     <button
                       onClick={() => {
+                        setHistoryTab("comments")
                         setFocusedCommentIndex(index)
-                        commentRefs.current[index]?.scrollIntoView({
-                          behavior: "smooth",
-                          block: "nearest",
-                        })
+                        setTimeout(() => {
+                          commentRefs.current[index]?.scrollIntoView({
+                            behavior: "smooth",
+                            block: "nearest",
+                          })
+                        }, 0)
                       }}
                       className={cn(
                         "w-full rounded-sm transition-all hover:opacity-100 flex items-center justify-center overflow-hidden",
@@ -1025,7 +1267,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
       </div>
 
       {/* Footer with Ready to Ship button */}
-      {status !== "ready_to_ship" && status !== "closed" && availableStatuses.includes("ready_to_ship") && (
+      {showShipButton && (
         <div className="-mx-4 px-6 py-3 bg-card border-t border-border shrink-0">
           <Button
             onClick={() => handleStatusChange("ready_to_ship")}
@@ -1037,7 +1279,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
             ) : (
               <Rocket className="h-4 w-4 mr-2" />
             )}
-            Ready to Ship
+            {findStatus(statusDefinitions, "ready_to_ship").label}
           </Button>
         </div>
       )}
@@ -1046,7 +1288,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
       {bead.comments.length > 0 && (isAtTop ? !isFirstCommentVisible : true) && (
         <div className={cn(
           "absolute left-1/2 -translate-x-1/2 z-10",
-          status !== "ready_to_ship" && status !== "closed" && availableStatuses.includes("ready_to_ship")
+          showShipButton
             ? "bottom-20"
             : "bottom-4"
         )}>
@@ -1138,9 +1380,9 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
             </div>
             <div className="flex items-center gap-3 mt-2 text-[11px] text-muted-foreground">
               <span className={cn(
-                getStatusDisplayConfig(status).colorClass,
+                STATUS_COLORS[statusDefinition.color].text,
               )}>
-                {getStatusDisplayConfig(status).label}
+                {statusDefinition.label}
               </span>
               <span className="text-border">|</span>
               <span className={cn(
@@ -1148,6 +1390,7 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
                 priority === "high" && "text-orange-400",
                 priority === "medium" && "text-yellow-400",
                 priority === "low" && "text-slate-400",
+                priority === "none" && "text-zinc-500",
               )}>
                 {priority}
               </span>
@@ -1278,6 +1521,17 @@ export const BeadDetailPanel = forwardRef<BeadDetailPanelHandle, BeadDetailPanel
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Conflicting edit resolver */}
+      <ConflictDialog
+        conflict={conflict}
+        onKeepMine={() => resolveConflict("mine")}
+        onUseTheirs={() => resolveConflict("theirs")}
+        onCancel={() => {
+          if (conflict) clearFieldError(conflict.field)
+          setConflict(null)
+        }}
+      />
     </div>
   )
 })
@@ -3,9 +3,7 @@
 import React from "react"
 
 import {
-  CheckCircle2,
   Circle,
-  CircleDot,
   Bug,
   Wrench,
   Sparkles,
@@ -15,6 +13,7 @@ import {
   ArrowUp,
   Minus,
   ArrowDown,
+  ChevronsDown,
   MessageSquare,
   Trash2,
   ChevronRight,
@@ -22,12 +21,17 @@ import {
   ShieldCheck,
 } from "lucide-react"
 import type { Bead, BeadType, BeadStatus, BeadPriority } from "@/lib/types"
+import type { SearchState } from "@/lib/search"
+import { DEFAULT_STATUS_DEFINITIONS, type StatusDefinition } from "@/lib/status"
+import { getStatusBadge } from "@/components/status-icon"
 import { cn } from "@/lib/utils"
 import { CopyableId } from "@/components/copyable-id"
+import { HighlightedText, SearchSnippet } from "@/components/highlighted-text"
+import { WorkspaceBadge } from "@/components/workspace-badge"
 
 interface BeadTableProps {
   beads: Bead[]
-  onBeadClick: (bead: Bead) => void
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
   onStatusChange: (beadId: string, status: BeadStatus) => void
   onPriorityChange: (beadId: string, priority: BeadPriority) => void
   onDelete?: (beadId: string) => void
@@ -40,6 +44,9 @@ interface BeadTableProps {
   focusedItemId?: string | null
   onFocusItem?: (id: string | null) => void
   selectedBeadId?: string | null
+  selectedIds?: Set<string>
+  search?: SearchState | null
+  statusDefinitions?: StatusDefinition[]
 }
 
 // Depth-based left border colors for nested subtasks
@@ -54,7 +61,7 @@ const depthBorderColors = [
 interface BeadRowProps {
   bead: Bead
   depth: number
-  onBeadClick: (bead: Bead) => void
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
   onStatusChange: (beadId: string, status: BeadStatus) => void
   onDelete?: (beadId: string) => void
   epicId: string
@@ -66,6 +73,9 @@ interface BeadRowProps {
   focusedItemId?: string | null
   onFocusItem?: (id: string | null) => void
   selectedBeadId?: string | null
+  selectedIds?: Set<string>
+  search?: SearchState | null
+  statusDefinitions?: StatusDefinition[]
 }
 
 function BeadRow({
@@ -83,6 +93,9 @@ function BeadRow({
   focusedItemId,
   onFocusItem,
   selectedBeadId,
+  selectedIds,
+  search,
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
 }: BeadRowProps) {
   const hasChildren = bead.children && bead.children.length > 0
   const isExpanded = expandedBeads?.has(bead.id) ?? false
@@ -105,10 +118,11 @@ function BeadRow({
           borderColor,
           draggedBeadId === bead.id && "opacity-50",
           focusedItemId === bead.id && "ring-1 ring-primary/60",
-          selectedBeadId === bead.id && "bg-primary/15"
+          selectedBeadId === bead.id && "bg-primary/15",
+          selectedIds?.has(bead.id) && "bg-primary/10 border-l-primary"
         )}
         style={{ paddingLeft: indentPadding ? `calc(0.75rem + ${indentPadding})` : undefined }}
-        onClick={() => { onFocusItem?.(bead.id); onBeadClick(bead) }}
+        onClick={(e) => { onFocusItem?.(bead.id); onBeadClick(bead, e) }}
       >
         {/* Row 1: chevron + ID + type */}
         <div className="bead-row-id flex items-center gap-1 shrink-0">
@@ -130,7 +144,8 @@ function BeadRow({
           ) : depth > 0 || hasChildren === false ? (
             <span className="w-5 -ml-1 mr-1" />
           ) : null}
-          <CopyableId id={bead.id} />
+          <CopyableId id={bead.id} highlight={search?.terms} />
+          <WorkspaceBadge workspace={bead.workspace} className="ml-2" />
         </div>
         <div className="bead-row-type shrink-0">
           <PillBadge config={typeConfig[bead.type]} />
@@ -158,10 +173,11 @@ function BeadRow({
 
         {/* Row 2: title + status + priority + assignee */}
         <div className="bead-row-title flex-1 text-left font-medium text-foreground/70 truncate min-w-0">
-          {bead.title}
+          <HighlightedText text={bead.title} terms={search?.terms} />
+          {search && <SearchSnippet hit={search.hits.get(bead.id)} terms={search.terms} />}
         </div>
         <div className="bead-row-status shrink-0">
-          <PillBadge config={getStatusConfig(bead.status)} />
+          <PillBadge config={getStatusBadge(statusDefinitions, bead.status)} />
         </div>
         <div className="bead-row-priority shrink-0">
           <PillBadge config={priorityConfig[bead.priority]} />
@@ -188,13 +204,16 @@ function BeadRow({
           focusedItemId={focusedItemId}
           onFocusItem={onFocusItem}
           selectedBeadId={selectedBeadId}
+          selectedIds={selectedIds}
+          search={search}
+          statusDefinitions={statusDefinitions}
         />
       ))}
     </>
   )
 }
 
-const typeConfig: Record<BeadType, { label: string; className: string; icon: React.ReactNode }> = {
+export const typeConfig: Record<BeadType, { label: string; className: string; icon: React.ReactNode }> = {
   bug: {
     label: "Bug",
     className: "bg-red-500/20 text-red-400 border-red-500/40",
@@ -232,50 +251,7 @@ const typeConfig: Record<BeadType, { label: string; className: string; icon: Rea
   },
 }
 
-// Core status configurations
-const coreStatusConfig: Record<string, { label: string; className: string; icon: React.ReactNode }> = {
-  open: {
-    label: "Open",
-    className: "bg-white/10 text-white border-white/30",
-    icon: <Circle className="h-3 w-3" />,
-  },
-  in_progress: {
-    label: "In Progress",
-    className: "bg-amber-500/20 text-amber-400 border-amber-500/40",
-    icon: <CircleDot className="h-3 w-3" />,
-  },
-  closed: {
-    label: "Closed",
-    className: "bg-zinc-600/20 text-zinc-400 border-zinc-500/40",
-    icon: <CheckCircle2 className="h-3 w-3" />,
-  },
-  // Well-known custom statuses
-  ready_for_qa: {
-    label: "Ready for QA",
-    className: "bg-purple-500/20 text-purple-400 border-purple-500/40",
-    icon: <CircleDot className="h-3 w-3" />,
-  },
-  ready_to_ship: {
-    label: "Ready to Ship",
-    className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/40",
-    icon: <CheckCircle2 className="h-3 w-3" />,
-  },
-}
-
-// Get status config with fallback for unknown custom statuses
-function getStatusConfig(status: string): { label: string; className: string; icon: React.ReactNode } {
-  if (coreStatusConfig[status]) {
-    return coreStatusConfig[status]
-  }
-  // Fallback for unknown custom statuses
-  return {
-    label: status.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase()),
-    className: "bg-blue-500/20 text-blue-400 border-blue-500/40",
-    icon: <Circle className="h-3 w-3" />,
-  }
-}
-
-const priorityConfig: Record<BeadPriority, { label: string; className: string; icon: React.ReactNode }> = {
+export const priorityConfig: Record<BeadPriority, { label: string; className: string; icon: React.ReactNode }> = {
   critical: {
     label: "Critical",
     className: "bg-red-500/20 text-red-400 border-red-500/40",
@@ -296,6 +272,11 @@ const priorityConfig: Record<BeadPriority, { label: string; className: string; i
     className: "bg-slate-500/20 text-slate-400 border-slate-500/40",
     icon: <ArrowDown className="h-3 w-3" />,
   },
+  none: {
+    label: "None",
+    className: "bg-zinc-500/20 text-zinc-500 border-zinc-500/40",
+    icon: <ChevronsDown className="h-3 w-3" />,
+  },
 }
 
 const fallbackConfig = {
@@ -304,7 +285,7 @@ const fallbackConfig = {
   icon: <Circle className="h-3 w-3" />,
 }
 
-function PillBadge({
+export function PillBadge({
   config,
 }: {
   config: { label: string; className: string; icon: React.ReactNode } | undefined
@@ -337,6 +318,9 @@ export function BeadTable({
   focusedItemId,
   onFocusItem,
   selectedBeadId,
+  selectedIds,
+  search,
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
 }: BeadTableProps) {
   return (
     <div className="bead-table-container">
@@ -369,6 +353,9 @@ export function BeadTable({
             focusedItemId={focusedItemId}
             onFocusItem={onFocusItem}
             selectedBeadId={selectedBeadId}
+            selectedIds={selectedIds}
+            search={search}
+            statusDefinitions={statusDefinitions}
           />
         ))}
       </div>
@@ -0,0 +1,291 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Archive,
+  CheckCircle2,
+  ChevronDown,
+  FolderInput,
+  Inbox,
+  Tag,
+  Trash2,
+  User,
+  X,
+} from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Spinner } from "@/components/ui/spinner"
+import type { BeadPriority, BulkAction } from "@/lib/types"
+import { STATUS_COLORS, type StatusDefinition } from "@/lib/status"
+import { cn } from "@/lib/utils"
+
+interface BulkActionBarProps {
+  count: number
+  statuses: StatusDefinition[]
+  assignees: string[]
+  epics: { id: string; title: string }[]
+  onAction: (action: BulkAction) => void
+  onClear: () => void
+  isBusy?: boolean
+}
+
+const priorityOptions: { value: BeadPriority; label: string; dotClass: string }[] = [
+  { value: "critical", label: "Critical", dotClass: "bg-red-500" },
+  { value: "high", label: "High", dotClass: "bg-orange-500" },
+  { value: "medium", label: "Medium", dotClass: "bg-yellow-500" },
+  { value: "low", label: "Low", dotClass: "bg-slate-500" },
+  { value: "none", label: "None", dotClass: "bg-zinc-600" },
+]
+
+// Parse a comma-separated label string into a unique list
+function parseLabels(value: string): string[] {
+  return Array.from(new Set(value.split(",").map(l => l.trim()).filter(Boolean)))
+}
+
+const triggerClass = "h-7 px-2 gap-1 text-xs"
+
+export function BulkActionBar({
+  count,
+  statuses,
+  assignees,
+  epics,
+  onAction,
+  onClear,
+  isBusy = false,
+}: BulkActionBarProps) {
+  const [assigneeOpen, setAssigneeOpen] = useState(false)
+  const [assigneeQuery, setAssigneeQuery] = useState("")
+  const [moveOpen, setMoveOpen] = useState(false)
+  const [labelsOpen, setLabelsOpen] = useState(false)
+  const [labelsInput, setLabelsInput] = useState("")
+
+  const applyLabels = (mode: "add" | "remove") => {
+    const labels = parseLabels(labelsInput)
+    if (labels.length === 0) return
+    onAction({ kind: "labels", add: mode === "add" ? labels : [], remove: mode === "remove" ? labels : [] })
+    setLabelsInput("")
+    setLabelsOpen(false)
+  }
+
+  const trimmedQuery = assigneeQuery.trim()
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-1 rounded-md border border-primary/30 bg-primary/5 px-2 py-1.5 text-xs">
+      <span className="px-1 font-medium text-foreground">
+        {count} selected
+      </span>
+      {isBusy && <Spinner className="h-3 w-3" />}
+
+      <span className="mx-1 h-4 w-px bg-border" />
+
+      {/* Status */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className={triggerClass} disabled={isBusy}>
+            Status <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {statuses.map((status) => (
+            <DropdownMenuItem key={status.name} onSelect={() => onAction({ kind: "status", status: status.name })}>
+              <span className={cn("w-1.5 h-1.5 rounded-full", STATUS_COLORS[status.color].dot)} />
+              {status.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Priority */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className={triggerClass} disabled={isBusy}>
+            Priority <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {priorityOptions.map((p) => (
+            <DropdownMenuItem key={p.value} onSelect={() => onAction({ kind: "priority", priority: p.value })}>
+              <span className={cn("w-1.5 h-1.5 rounded-full", p.dotClass)} />
+              {p.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Assignee */}
+      <Popover open={assigneeOpen} onOpenChange={(open) => { setAssigneeOpen(open); setAssigneeQuery("") }}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className={triggerClass} disabled={isBusy}>
+            <User className="h-3 w-3" /> Assign
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-56 p-0">
+          <Command>
+            <CommandInput placeholder="Assignee..." value={assigneeQuery} onValueChange={setAssigneeQuery} />
+            <CommandList>
+              <CommandEmpty>No matching assignees</CommandEmpty>
+              <CommandGroup>
+                {trimmedQuery && !assignees.includes(trimmedQuery) && (
+                  <CommandItem
+                    value={`assign-new ${trimmedQuery}`}
+                    onSelect={() => { onAction({ kind: "assignee", assignee: trimmedQuery }); setAssigneeOpen(false) }}
+                  >
+                    Assign to &ldquo;{trimmedQuery}&rdquo;
+                  </CommandItem>
+                )}
+                <CommandItem
+                  value="unassign"
+                  onSelect={() => { onAction({ kind: "assignee", assignee: "" }); setAssigneeOpen(false) }}
+                >
+                  <span className="italic text-muted-foreground">Unassigned</span>
+                </CommandItem>
+                {assignees.map((a) => (
+                  <CommandItem
+                    key={a}
+                    value={a}
+                    onSelect={() => { onAction({ kind: "assignee", assignee: a }); setAssigneeOpen(false) }}
+                  >
+                    {a}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {/* Labels */}
+      <Popover open={labelsOpen} onOpenChange={setLabelsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className={triggerClass} disabled={isBusy}>
+            <Tag className="h-3 w-3" /> Labels
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-2 p-2">
+          <Input
+            value={labelsInput}
+            onChange={(e) => setLabelsInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                applyLabels("add")
+              }
+            }}
+            placeholder="frontend, urgent"
+            className="h-8 text-xs"
+            autoFocus
+          />
+          <div className="flex justify-end gap-1">
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => applyLabels("remove")}>
+              Remove
+            </Button>
+            <Button size="sm" className="h-7 text-xs" onClick={() => applyLabels("add")}>
+              Add
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Move to epic */}
+      <Popover open={moveOpen} onOpenChange={setMoveOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className={triggerClass} disabled={isBusy}>
+            <FolderInput className="h-3 w-3" /> Move
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 p-0">
+          <Command>
+            <CommandInput placeholder="Search epics..." />
+            <CommandList>
+              <CommandEmpty>No matching epics</CommandEmpty>
+              <CommandGroup>
+                <CommandItem
+                  value="no-epic"
+                  onSelect={() => { onAction({ kind: "move", parentId: null }); setMoveOpen(false) }}
+                >
+                  <span className="italic text-muted-foreground">No epic</span>
+                </CommandItem>
+                {epics.map((epic) => (
+                  <CommandItem
+                    key={epic.id}
+                    value={`${epic.id} ${epic.title}`}
+                    onSelect={() => { onAction({ kind: "move", parentId: epic.id }); setMoveOpen(false) }}
+                  >
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">{epic.id}</span>
+                    <span className="truncate">{epic.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className={triggerClass}
+        disabled={isBusy}
+        onClick={() => onAction({ kind: "backlog", inBacklog: true })}
+      >
+        <Inbox className="h-3 w-3" /> Backlog
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={triggerClass}
+        disabled={isBusy}
+        onClick={() => onAction({ kind: "archive", archived: true })}
+      >
+        <Archive className="h-3 w-3" /> Archive
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={triggerClass}
+        disabled={isBusy}
+        onClick={() => onAction({ kind: "close" })}
+      >
+        <CheckCircle2 className="h-3 w-3" /> Close
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn(triggerClass, "hover:text-red-400")}
+        disabled={isBusy}
+        onClick={() => onAction({ kind: "delete" })}
+      >
+        <Trash2 className="h-3 w-3" /> Delete
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="ml-auto h-7 w-7 p-0"
+        onClick={onClear}
+        title="Clear selection (Esc)"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,359 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { defaultFilter } from "cmdk"
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowRightLeft,
+  Bookmark,
+  Copy,
+  Flag,
+  Layers,
+  Moon,
+  Plus,
+  Sun,
+  Tag,
+  UserRound,
+} from "lucide-react"
+import { toast } from "sonner"
+import type { Bead, BeadPriority, BulkAction, Workspace } from "@/lib/types"
+import type { SavedView } from "@/lib/views"
+import type { StatusDefinition } from "@/lib/status"
+import { ALL_WORKSPACES } from "@/lib/workspaces"
+import { StatusIcon } from "@/components/status-icon"
+import { PillBadge, priorityConfig, typeConfig } from "@/components/bead-table"
+import { WorkspaceBadge } from "@/components/workspace-badge"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command"
+
+// Sub-pages for actions that need a value
+type Page = "status" | "priority" | "assignee" | "label" | "move"
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  beads: Bead[]          // Every bead and epic in the tree
+  target: Bead | null    // The open or focused bead, for contextual actions
+  canMoveTo: (beadId: string, epicId: string) => boolean  // False for the bead's own descendant epics
+  onOpenBead: (bead: Bead) => void
+  onAction: (bead: Bead, action: BulkAction) => void
+  workspaces: Workspace[]  // As listed in the header (All workspaces included when shown)
+  currentWorkspaceId?: string
+  onWorkspaceChange: (workspace: Workspace) => void
+  isDark: boolean
+  onThemeToggle: () => void
+  views: SavedView[]
+  onApplyView: (view: SavedView) => void
+  statuses: StatusDefinition[]
+  assignees: string[]
+  labels: string[]
+  currentUser?: string
+}
+
+// Bead results rendered at once; the rest are reachable by typing more
+const MAX_BEAD_RESULTS = 50
+
+const pageTitles: Record<Page, string> = {
+  status: "Set status",
+  priority: "Set priority",
+  assignee: "Assign to",
+  label: "Add label",
+  move: "Move to epic",
+}
+
+const priorities: BeadPriority[] = ["critical", "high", "medium", "low", "none"]
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  beads,
+  target,
+  canMoveTo,
+  onOpenBead,
+  onAction,
+  workspaces,
+  currentWorkspaceId,
+  onWorkspaceChange,
+  isDark,
+  onThemeToggle,
+  views,
+  onApplyView,
+  statuses,
+  assignees,
+  labels,
+  currentUser,
+}: CommandPaletteProps) {
+  const [search, setSearch] = useState("")
+  const [page, setPage] = useState<Page | null>(null)
+
+  const handleOpenChange = useCallback((next: boolean) => {
+    onOpenChange(next)
+    if (!next) {
+      setSearch("")
+      setPage(null)
+    }
+  }, [onOpenChange])
+
+  // Ctrl/Cmd+K toggles the palette; works from inputs too, unlike the navigation keys
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault()
+        handleOpenChange(!open)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [open, handleOpenChange])
+
+  const run = (action: () => void) => {
+    action()
+    handleOpenChange(false)
+  }
+
+  const openPage = (next: Page) => {
+    setPage(next)
+    setSearch("")
+  }
+
+  // Best matches by ID or title, ranked like cmdk ranks the rest
+  const beadResults = useMemo(() => {
+    const query = search.trim()
+    if (!query) return []
+    return beads
+      .map(bead => ({ bead, score: defaultFilter!(`${bead.id} ${bead.title}`, query) }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_BEAD_RESULTS)
+      .map(result => result.bead)
+  }, [beads, search])
+
+  // Epics the target can move under: same workspace, not itself or one of its descendants
+  const moveTargets = useMemo(() => target
+    ? beads.filter(b => b.type === "epic" && b.workspace?.id === target.workspace?.id && canMoveTo(target.id, b.id))
+    : [],
+  [beads, target, canMoveTo])
+
+  const act = (action: BulkAction) => {
+    if (target) run(() => onAction(target, action))
+  }
+
+  const copyId = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(id)
+      toast.success(`Copied ${id}`)
+    } catch (err) {
+      console.error("Failed to copy:", err)
+    }
+  }
+
+  const isArchived = !!target?.labels?.includes("archived")
+  const newLabel = search.trim()
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Command palette"
+      description="Jump to a bead, switch workspace or run an action"
+    >
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder={page && target ? `${pageTitles[page]} for ${target.id}...` : "Search beads, workspaces, views and actions..."}
+        onKeyDown={(e) => {
+          // Backspace on an empty sub-page goes back
+          if (e.key === "Backspace" && !search && page) {
+            e.preventDefault()
+            setPage(null)
+          }
+        }}
+      />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>No results</CommandEmpty>
+
+        {page === "status" && (
+          <CommandGroup heading={pageTitles.status}>
+            {statuses.map((status) => (
+              <CommandItem key={status.name} value={status.label} onSelect={() => act({ kind: "status", status: status.name })}>
+                <StatusIcon icon={status.icon} />
+                {status.label}
+                {target?.status === status.name && <CommandShortcut>current</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {page === "priority" && (
+          <CommandGroup heading={pageTitles.priority}>
+            {priorities.map((priority) => (
+              <CommandItem key={priority} value={priorityConfig[priority].label} onSelect={() => act({ kind: "priority", priority })}>
+                <PillBadge config={priorityConfig[priority]} />
+                {target?.priority === priority && <CommandShortcut>current</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {page === "assignee" && (
+          <CommandGroup heading={pageTitles.assignee}>
+            {currentUser && (
+              <CommandItem value={`me ${currentUser}`} onSelect={() => act({ kind: "assignee", assignee: currentUser })}>
+                <UserRound />
+                {currentUser} (me)
+              </CommandItem>
+            )}
+            {assignees.filter(a => a !== currentUser).map((assignee) => (
+              <CommandItem key={assignee} value={assignee} onSelect={() => act({ kind: "assignee", assignee })}>
+                <UserRound />
+                {assignee}
+              </CommandItem>
+            ))}
+            {search.trim() && !assignees.includes(search.trim()) && (
+              <CommandItem value={`assign ${search}`} onSelect={() => act({ kind: "assignee", assignee: search.trim() })}>
+                <Plus />
+                Assign to &quot;{search.trim()}&quot;
+              </CommandItem>
+            )}
+            {target?.assignee && (
+              <CommandItem value="unassign" onSelect={() => act({ kind: "assignee", assignee: "" })}>
+                <UserRound />
+                Unassign
+              </CommandItem>
+            )}
+          </CommandGroup>
+        )}
+
+        {page === "label" && (
+          <CommandGroup heading={pageTitles.label}>
+            {labels.filter(label => !target?.labels?.includes(label)).map((label) => (
+              <CommandItem key={label} value={label} onSelect={() => act({ kind: "labels", add: [label], remove: [] })}>
+                <Tag />
+                {label}
+              </CommandItem>
+            ))}
+            {newLabel && !labels.includes(newLabel) && (
+              <CommandItem value={`create ${search}`} onSelect={() => act({ kind: "labels", add: [newLabel], remove: [] })}>
+                <Plus />
+                Create label &quot;{newLabel}&quot;
+              </CommandItem>
+            )}
+          </CommandGroup>
+        )}
+
+        {page === "move" && (
+          <CommandGroup heading={pageTitles.move}>
+            {target?.parentId && (
+              <CommandItem value="no epic standalone" onSelect={() => act({ kind: "move", parentId: null })}>
+                <ArrowRightLeft />
+                No epic
+              </CommandItem>
+            )}
+            {moveTargets.map((epic) => (
+              <CommandItem key={epic.id} value={`${epic.id} ${epic.title}`} onSelect={() => act({ kind: "move", parentId: epic.id })}>
+                <Layers />
+                <span className="font-mono text-xs text-muted-foreground">{epic.id}</span>
+                <span className="truncate">{epic.title}</span>
+                {target?.parentId === epic.id && <CommandShortcut>current</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {!page && (
+          <>
+            {beadResults.length > 0 && (
+              <CommandGroup heading="Beads">
+                {beadResults.map((bead) => (
+                  <CommandItem key={bead.id} value={`${bead.id} ${bead.title}`} onSelect={() => run(() => onOpenBead(bead))}>
+                    <PillBadge config={typeConfig[bead.type]} />
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">{bead.id}</span>
+                    <span className="truncate">{bead.title}</span>
+                    <WorkspaceBadge workspace={bead.workspace} className="ml-auto" />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {target && (
+              <CommandGroup heading={`${target.id}: ${target.title}`}>
+                <CommandItem value="Set status" onSelect={() => openPage("status")}>
+                  <StatusIcon icon={statuses.find(s => s.name === target.status)?.icon ?? "circle"} />
+                  Set status...
+                </CommandItem>
+                <CommandItem value="Set priority" onSelect={() => openPage("priority")}>
+                  <Flag />
+                  Set priority...
+                </CommandItem>
+                <CommandItem value="Assign to" onSelect={() => openPage("assignee")}>
+                  <UserRound />
+                  Assign...
+                </CommandItem>
+                <CommandItem value="Add label" onSelect={() => openPage("label")}>
+                  <Tag />
+                  Add label...
+                </CommandItem>
+                <CommandItem value="Move to epic" onSelect={() => openPage("move")}>
+                  <ArrowRightLeft />
+                  Move to epic...
+                </CommandItem>
+                <CommandItem value={isArchived ? "Unarchive" : "Archive"} onSelect={() => act({ kind: "archive", archived: !isArchived })}>
+                  {isArchived ? <ArchiveRestore /> : <Archive />}
+                  {isArchived ? "Unarchive" : "Archive"}
+                </CommandItem>
+                <CommandItem value="Copy ID" onSelect={() => run(() => copyId(target.id))}>
+                  <Copy />
+                  Copy ID
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            <CommandSeparator />
+
+            {views.length > 0 && (
+              <CommandGroup heading="Saved views">
+                {views.map((view) => (
+                  <CommandItem key={view.id} value={`view ${view.name}`} onSelect={() => run(() => onApplyView(view))}>
+                    <Bookmark />
+                    {view.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            <CommandGroup heading="Workspaces">
+              {workspaces.map((workspace) => (
+                <CommandItem
+                  key={workspace.id}
+                  value={`workspace ${workspace.name}`}
+                  disabled={workspace.id === currentWorkspaceId}
+                  onSelect={() => run(() => onWorkspaceChange(workspace))}
+                >
+                  {workspace.id === ALL_WORKSPACES.id ? <Layers /> : <WorkspaceBadge workspace={workspace} className="text-sm text-foreground max-w-none" />}
+                  {workspace.id === ALL_WORKSPACES.id && workspace.name}
+                  {workspace.id === currentWorkspaceId && <CommandShortcut>current</CommandShortcut>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+
+            <CommandGroup heading="General">
+              <CommandItem value="Toggle theme dark light" onSelect={() => run(onThemeToggle)}>
+                {isDark ? <Sun /> : <Moon />}
+                {isDark ? "Switch to light theme" : "Switch to dark theme"}
+              </CommandItem>
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
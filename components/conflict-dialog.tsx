@@ -0,0 +1,104 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { diffLines, diffWords } from "@/lib/diff"
+import { cn } from "@/lib/utils"
+
+// A save rejected because someone else changed the same field
+export interface FieldConflict {
+  beadId: string
+  label: string      // e.g. "description"
+  mine: string       // What this editor tried to save
+  theirs: string     // What's in the database now
+  multiline: boolean
+}
+
+interface ConflictDialogProps {
+  conflict: FieldConflict | null
+  onKeepMine: () => void
+  onUseTheirs: () => void
+  onCancel: () => void
+}
+
+function VersionPane({ title, text }: { title: string; text: string }) {
+  return (
+    <div className="min-w-0 space-y-1.5">
+      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{title}</h4>
+      <pre className="max-h-48 overflow-auto rounded-md border border-border/50 bg-muted/20 p-2 text-xs whitespace-pre-wrap break-words font-sans">
+        {text || <span className="italic text-muted-foreground/50">Empty</span>}
+      </pre>
+    </div>
+  )
+}
+
+export function ConflictDialog({ conflict, onKeepMine, onUseTheirs, onCancel }: ConflictDialogProps) {
+  // Changes from their version to mine
+  const parts = useMemo(() => {
+    if (!conflict) return []
+    return conflict.multiline
+      ? diffLines(conflict.theirs, conflict.mine)
+      : diffWords(conflict.theirs, conflict.mine)
+  }, [conflict])
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Conflicting edit to {conflict?.label}</DialogTitle>
+          <DialogDescription>
+            {conflict?.beadId} was changed elsewhere while you were editing. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <VersionPane title="Your version" text={conflict.mine} />
+              <VersionPane title="Their version" text={conflict.theirs} />
+            </div>
+
+            <div className="space-y-1.5">
+              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Changes (theirs → yours)
+              </h4>
+              <pre className="max-h-48 overflow-auto rounded-md border border-border/50 bg-muted/20 p-2 text-xs whitespace-pre-wrap break-words font-sans">
+                {parts.map((part, index) => (
+                  <span
+                    key={index}
+                    className={cn(
+                      part.type === "added" && "bg-emerald-500/20 text-emerald-400",
+                      part.type === "removed" && "bg-red-500/20 text-red-400 line-through"
+                    )}
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </pre>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={onUseTheirs}>
+            Use theirs
+          </Button>
+          <Button onClick={onKeepMine}>
+            Keep mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,13 +4,15 @@ import React from "react"
 
 import { useState } from "react"
 import { Check } from "lucide-react"
+import { HighlightedText } from "@/components/highlighted-text"
 
 interface CopyableIdProps {
   id: string
   className?: string
+  highlight?: string[] // Search terms to mark in the ID
 }
 
-export function CopyableId({ id, className = "" }: CopyableIdProps) {
+export function CopyableId({ id, className = "", highlight }: CopyableIdProps) {
   const [copied, setCopied] = useState(false)
 
   const handleCopy = async (e: React.MouseEvent) => {
@@ -43,7 +45,7 @@ export function CopyableId({ id, className = "" }: CopyableIdProps) {
           <span className="text-xs">Copied</span>
         </span>
       ) : (
-        <span className="transition-opacity">{id}</span>
+        <span className="transition-opacity"><HighlightedText text={id} terms={highlight} /></span>
       )}
     </span>
   )
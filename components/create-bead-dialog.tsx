@@ -0,0 +1,265 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { WORKSPACE_COLORS } from "@/lib/workspaces"
+import type { BeadPriority, CreateBeadInput, Workspace } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface CreateBeadDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreate: (input: CreateBeadInput, workspaceId?: string) => void
+  epics: { id: string; title: string; workspaceId?: string }[]
+  assignees?: string[]
+  defaultParentId?: string | null
+  workspaces?: Workspace[]  // Set in the all-workspaces view to pick where the bead goes
+}
+
+const beadTypes: CreateBeadInput["type"][] = ["task", "bug", "feature", "chore", "epic"]
+
+const priorityOptions: { value: BeadPriority; label: string; dotClass: string }[] = [
+  { value: "critical", label: "Critical", dotClass: "bg-red-500" },
+  { value: "high", label: "High", dotClass: "bg-orange-500" },
+  { value: "medium", label: "Medium", dotClass: "bg-yellow-500" },
+  { value: "low", label: "Low", dotClass: "bg-slate-500" },
+  { value: "none", label: "None", dotClass: "bg-zinc-600" },
+]
+
+// Parse a comma-separated label string into a unique list
+function parseLabels(value: string): string[] {
+  return Array.from(new Set(value.split(",").map(l => l.trim()).filter(Boolean)))
+}
+
+export function CreateBeadDialog({
+  open,
+  onOpenChange,
+  onCreate,
+  epics,
+  assignees = [],
+  defaultParentId,
+  workspaces,
+}: CreateBeadDialogProps) {
+  const [type, setType] = useState<CreateBeadInput["type"]>("task")
+  const [title, setTitle] = useState("")
+  const [priority, setPriority] = useState<BeadPriority>("medium")
+  const [assignee, setAssignee] = useState("")
+  const [labels, setLabels] = useState("")
+  const [parentId, setParentId] = useState("_none")
+  const [description, setDescription] = useState("")
+  const [workspaceId, setWorkspaceId] = useState<string | undefined>(undefined)
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setType("task")
+      setTitle("")
+      setPriority("medium")
+      setAssignee("")
+      setLabels("")
+      setParentId(defaultParentId || "_none")
+      setDescription("")
+      // Default to the parent's workspace, or the first one
+      const parentWorkspace = epics.find(e => e.id === defaultParentId)?.workspaceId
+      setWorkspaceId(parentWorkspace ?? workspaces?.[0]?.id)
+    }
+    // Only reset when opening - not when the epic list refreshes
+  }, [open, defaultParentId])
+
+  // Only epics from the chosen workspace can be the parent
+  const parentOptions = workspaces ? epics.filter(e => e.workspaceId === workspaceId) : epics
+
+  const handleWorkspaceChange = (id: string) => {
+    setWorkspaceId(id)
+    setParentId("_none")
+  }
+
+  const handleSubmit = () => {
+    if (!title.trim()) return
+    onCreate({
+      type,
+      title: title.trim(),
+      priority,
+      assignee: assignee.trim() || undefined,
+      labels: parseLabels(labels),
+      parentId: parentId === "_none" ? undefined : parentId,
+      description: description.trim() || undefined,
+    }, workspaces ? workspaceId : undefined)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>New {type === "epic" ? "epic" : "bead"}</DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSubmit()
+          }}
+        >
+          {workspaces && (
+            <div className="space-y-1.5">
+              <Label htmlFor="create-workspace" className="text-xs text-muted-foreground">Workspace</Label>
+              <Select value={workspaceId} onValueChange={handleWorkspaceChange}>
+                <SelectTrigger id="create-workspace" className="w-full h-9">
+                  <SelectValue placeholder="Choose a workspace" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((ws) => (
+                    <SelectItem key={ws.id} value={ws.id}>
+                      <span className="flex items-center gap-1.5">
+                        <span className={cn("w-1.5 h-1.5 rounded-full", ws.color ? WORKSPACE_COLORS[ws.color] : "bg-muted-foreground")} />
+                        {ws.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <div className="space-y-1.5 w-36 shrink-0">
+              <Label htmlFor="create-type" className="text-xs text-muted-foreground">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as CreateBeadInput["type"])}>
+                <SelectTrigger id="create-type" className="w-full h-9 capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {beadTypes.map((t) => (
+                    <SelectItem key={t} value={t} className="capitalize">
+                      {t}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 flex-1">
+              <Label htmlFor="create-title" className="text-xs text-muted-foreground">Title</Label>
+              <Input
+                id="create-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="What needs to be done?"
+                autoFocus
+                className="h-9"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="space-y-1.5 w-36 shrink-0">
+              <Label htmlFor="create-priority" className="text-xs text-muted-foreground">Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as BeadPriority)}>
+                <SelectTrigger id="create-priority" className="w-full h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {priorityOptions.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      <span className="flex items-center gap-1.5">
+                        <span className={`w-1.5 h-1.5 rounded-full ${p.dotClass}`} />
+                        {p.label}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 flex-1">
+              <Label htmlFor="create-assignee" className="text-xs text-muted-foreground">Assignee</Label>
+              <Input
+                id="create-assignee"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Unassigned"
+                list="create-assignee-options"
+                className="h-9"
+              />
+              <datalist id="create-assignee-options">
+                {assignees.map((a) => (
+                  <option key={a} value={a} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="space-y-1.5 flex-1 min-w-0">
+              <Label htmlFor="create-parent" className="text-xs text-muted-foreground">Parent epic</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger id="create-parent" className="w-full h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="_none">
+                    <span className="text-muted-foreground">None</span>
+                  </SelectItem>
+                  {parentOptions.map((epic) => (
+                    <SelectItem key={epic.id} value={epic.id}>
+                      <span className="font-mono text-xs text-muted-foreground mr-1.5">{epic.id}</span>
+                      <span className="truncate">{epic.title}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5 flex-1">
+              <Label htmlFor="create-labels" className="text-xs text-muted-foreground">Labels</Label>
+              <Input
+                id="create-labels"
+                value={labels}
+                onChange={(e) => setLabels(e.target.value)}
+                placeholder="frontend, urgent"
+                className="h-9"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="create-description" className="text-xs text-muted-foreground">Description</Label>
+            <Textarea
+              id="create-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Markdown supported"
+              rows={5}
+              className="resize-none text-sm"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!title.trim() || (!!workspaces && !workspaceId)}>
+              Create
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Plus, X } from "lucide-react"
+import { toastActionError } from "@/lib/error-toast"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import { addDependencyAction, removeDependencyAction } from "@/actions/beads"
+import type { Bead, BeadDependency, DependencyRelation } from "@/lib/types"
+import type { UndoEntry } from "@/hooks/use-undo-history"
+import { cn } from "@/lib/utils"
+
+interface DependencyEditorProps {
+  bead: Bead
+  beadOptions: BeadDependency[]
+  dbPath?: string
+  onUpdate: (bead: Bead) => void
+  onBeadNavigate?: (beadId: string) => void
+  onMutation?: (entry: UndoEntry) => void
+}
+
+// Field on Bead that holds each relation, plus display config
+const relationConfig: Record<DependencyRelation, { label: string; field: keyof Bead; chipClass: string }> = {
+  "blocked-by": { label: "Blocked by", field: "blockedBy", chipClass: "bg-red-500/10 text-red-400 hover:bg-red-500/20" },
+  blocks: { label: "Blocks", field: "blocks", chipClass: "bg-amber-500/10 text-amber-400 hover:bg-amber-500/20" },
+  related: { label: "Related", field: "related", chipClass: "bg-blue-500/10 text-blue-400 hover:bg-blue-500/20" },
+  parent: { label: "Parent", field: "childOf", chipClass: "bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20" },
+  child: { label: "Children", field: "parentOf", chipClass: "bg-teal-500/10 text-teal-400 hover:bg-teal-500/20" },
+}
+
+const relations = Object.keys(relationConfig) as DependencyRelation[]
+
+function getRelationList(bead: Bead, relation: DependencyRelation): BeadDependency[] {
+  return (bead[relationConfig[relation].field] as BeadDependency[] | undefined) ?? []
+}
+
+export function DependencyEditor({
+  bead,
+  beadOptions,
+  dbPath,
+  onUpdate,
+  onBeadNavigate,
+  onMutation,
+}: DependencyEditorProps) {
+  const [relation, setRelation] = useState<DependencyRelation>("blocked-by")
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Exclude the bead itself and anything already linked with the chosen relation
+  const candidates = useMemo(() => {
+    const existing = new Set(getRelationList(bead, relation).map(d => d.id))
+    return beadOptions.filter(o => o.id !== bead.id && !existing.has(o.id))
+  }, [bead, relation, beadOptions])
+
+  const setRelationList = (rel: DependencyRelation, list: BeadDependency[]): Bead => ({
+    ...bead,
+    [relationConfig[rel].field]: list.length > 0 ? list : undefined,
+    updatedAt: new Date(),
+  })
+
+  const handleAdd = async (target: BeadDependency) => {
+    setIsPickerOpen(false)
+    setIsSaving(true)
+    const result = await addDependencyAction(bead.id, relation, target.id, dbPath)
+    setIsSaving(false)
+    if (result.success) {
+      onUpdate(setRelationList(relation, [...getRelationList(bead, relation), target]))
+      const rel = relation
+      onMutation?.({
+        label: `Linked ${bead.id} (${relationConfig[rel].label.toLowerCase()}) ${target.id}`,
+        undo: () => removeDependencyAction(bead.id, rel, target.id, dbPath),
+        redo: () => addDependencyAction(bead.id, rel, target.id, dbPath),
+      })
+    } else {
+      toastActionError("Failed to add dependency", result)
+    }
+  }
+
+  const handleRemove = async (rel: DependencyRelation, target: BeadDependency) => {
+    const prevBead = bead
+    onUpdate(setRelationList(rel, getRelationList(bead, rel).filter(d => d.id !== target.id)))
+    const result = await removeDependencyAction(bead.id, rel, target.id, dbPath)
+    if (!result.success) {
+      onUpdate(prevBead) // revert
+      toastActionError("Failed to remove dependency", result)
+    } else {
+      onMutation?.({
+        label: `Unlinked ${bead.id} (${relationConfig[rel].label.toLowerCase()}) ${target.id}`,
+        undo: () => addDependencyAction(bead.id, rel, target.id, dbPath),
+        redo: () => removeDependencyAction(bead.id, rel, target.id, dbPath),
+      })
+    }
+  }
+
+  return (
+    <div className="pt-4 border-t border-border/30 space-y-2">
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Dependencies</h3>
+
+      {relations.map((rel) => {
+        const list = getRelationList(bead, rel)
+        if (list.length === 0) return null
+        return (
+          <div key={rel} className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs text-muted-foreground">{relationConfig[rel].label}:</span>
+            {list.map(dep => (
+              <span
+                key={dep.id}
+                className={cn("group inline-flex items-center text-xs rounded transition-colors", relationConfig[rel].chipClass)}
+              >
+                <button
+                  onClick={() => onBeadNavigate?.(dep.id)}
+                  className="pl-2 py-0.5"
+                  title={dep.title}
+                >
+                  {dep.id}
+                </button>
+                <button
+                  onClick={() => handleRemove(rel, dep)}
+                  className="px-1 py-0.5 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity"
+                  title={`Remove ${relationConfig[rel].label.toLowerCase()} ${dep.id}`}
+                >
+                  <X className="h-2.5 w-2.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )
+      })}
+
+      {/* Add dependency */}
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Select value={relation} onValueChange={(value) => setRelation(value as DependencyRelation)}>
+          <SelectTrigger className="h-auto p-0 border-0 bg-transparent dark:bg-transparent dark:hover:bg-transparent shadow-none rounded-none w-auto gap-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {relations.map((rel) => (
+              <SelectItem key={rel} value={rel}>
+                {relationConfig[rel].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+          <PopoverTrigger asChild>
+            <button
+              disabled={isSaving}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-dashed border-border hover:text-foreground hover:border-foreground/40 transition-colors"
+            >
+              {isSaving ? <Spinner className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+              Add bead
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 p-0">
+            <Command>
+              <CommandInput placeholder="Search by ID or title..." />
+              <CommandList>
+                <CommandEmpty>No matching beads</CommandEmpty>
+                {candidates.map((option) => (
+                  <CommandItem
+                    key={option.id}
+                    value={`${option.id} ${option.title}`}
+                    onSelect={() => handleAdd(option)}
+                  >
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">{option.id}</span>
+                    <span className="truncate">{option.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+"use client"
+
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from "react"
+import { Crosshair, Maximize2, Minus, Plus, X } from "lucide-react"
+import type { Bead } from "@/lib/types"
+import {
+  dependencyClosure,
+  edgeKey,
+  findCycles,
+  layoutGraph,
+  longestOpenChain,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  type DependencyGraph as Graph,
+  type GraphEdgeType,
+} from "@/lib/graph"
+import { findStatus, isDoneStatus, STATUS_COLORS, type StatusDefinition } from "@/lib/status"
+import { StatusIcon } from "@/components/status-icon"
+import { WorkspaceBadge } from "@/components/workspace-badge"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { cn } from "@/lib/utils"
+
+interface DependencyGraphProps {
+  graph: Graph | null
+  isLoading: boolean
+  statuses: StatusDefinition[]
+  selectedBeadId?: string | null
+  onBeadClick: (bead: Bead) => void
+}
+
+const edgeStyles: Record<GraphEdgeType, { label: string; stroke: string; dash?: string; legend: string }> = {
+  blocks: { label: "Blocks", stroke: "stroke-red-400", legend: "bg-red-400" },
+  "parent-child": { label: "Parent", stroke: "stroke-slate-500", dash: "5 4", legend: "bg-slate-500" },
+  related: { label: "Related", stroke: "stroke-sky-400", dash: "1 4", legend: "bg-sky-400" },
+}
+
+const MIN_ZOOM = 0.2
+const MAX_ZOOM = 2
+const PADDING = 24
+
+// Curve from the right edge of one node to the left edge of the other
+function edgePath(from: { x: number; y: number }, to: { x: number; y: number }): string {
+  const x1 = from.x + NODE_WIDTH
+  const y1 = from.y + NODE_HEIGHT / 2
+  const x2 = to.x
+  const y2 = to.y + NODE_HEIGHT / 2
+  const bend = Math.max(40, Math.abs(x2 - x1) / 2)
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`
+}
+
+export function DependencyGraph({ graph, isLoading, statuses, selectedBeadId, onBeadClick }: DependencyGraphProps) {
+  const markerId = useId().replace(/:/g, "")
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const panRef = useRef<{ x: number; y: number } | null>(null)
+  const [view, setView] = useState({ x: PADDING, y: PADDING, k: 1 })
+  const [focusId, setFocusId] = useState<string | null>(null)
+  const [hideDone, setHideDone] = useState(true)
+  const [edgeTypes, setEdgeTypes] = useState<Set<GraphEdgeType>>(new Set(["blocks", "parent-child", "related"]))
+
+  const isDone = useCallback((bead: Bead) => isDoneStatus(statuses, bead.status), [statuses])
+  const nodesById = useMemo(() => new Map((graph?.nodes ?? []).map(n => [n.id, n])), [graph])
+
+  // Cycles and the critical chain are properties of the whole graph, not the current view
+  const cycles = useMemo(() => findCycles(graph?.edges ?? []), [graph])
+  const chain = useMemo(() => graph ? longestOpenChain(graph, isDone, cycles) : [], [graph, isDone, cycles])
+  const chainEdges = useMemo(
+    () => new Set(chain.slice(1).map((id, i) => edgeKey({ from: chain[i], to: id, type: "blocks" }))),
+    [chain]
+  )
+
+  // Beads with at least one visible edge, or the focused bead's closure
+  const { nodes, edges, closure } = useMemo(() => {
+    const shown = (graph?.edges ?? []).filter(e => edgeTypes.has(e.type))
+    let ids: Set<string>
+    let closure: { upstream: Set<string>; downstream: Set<string> } | null = null
+    if (focusId && nodesById.has(focusId)) {
+      closure = dependencyClosure(shown, focusId)
+      const related = shown.filter(e => e.type === "related" && (e.from === focusId || e.to === focusId))
+      ids = new Set([focusId, ...closure.upstream, ...closure.downstream, ...related.flatMap(e => [e.from, e.to])])
+    } else {
+      ids = new Set(shown.flatMap(e => [e.from, e.to]))
+    }
+    const nodes = Array.from(ids)
+      .map(id => nodesById.get(id))
+      .filter((n): n is Bead => !!n && (!hideDone || !isDone(n) || n.id === focusId))
+    const visible = new Set(nodes.map(n => n.id))
+    return { nodes, edges: shown.filter(e => visible.has(e.from) && visible.has(e.to)), closure }
+  }, [graph, edgeTypes, focusId, nodesById, hideDone, isDone])
+
+  const layout = useMemo(() => layoutGraph(nodes, edges, cycles), [nodes, edges, cycles])
+
+  const fit = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas || layout.width === 0) return
+    const k = Math.min(
+      (canvas.clientWidth - PADDING * 2) / layout.width,
+      (canvas.clientHeight - PADDING * 2) / layout.height,
+      1
+    )
+    const scale = Math.max(MIN_ZOOM, k)
+    setView({ x: Math.max(PADDING, (canvas.clientWidth - layout.width * scale) / 2), y: PADDING, k: scale })
+  }, [layout])
+
+  // Refit when the set of beads on screen changes (not on every reload)
+  const nodesKey = nodes.map(n => n.id).sort().join(",")
+  const fittedKeyRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (fittedKeyRef.current === nodesKey) return
+    fittedKeyRef.current = nodesKey
+    fit()
+  }, [nodesKey, fit])
+
+  const zoomAt = useCallback((factor: number, cx: number, cy: number) => {
+    setView(v => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.k * factor))
+      return { k, x: cx - (cx - v.x) * (k / v.k), y: cy - (cy - v.y) * (k / v.k) }
+    })
+  }, [])
+
+  // Wheel zoom needs a non-passive listener to keep the panel from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX - rect.left, e.clientY - rect.top)
+    }
+    canvas.addEventListener("wheel", onWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", onWheel)
+  }, [zoomAt])
+
+  const zoomCenter = (factor: number) => {
+    const canvas = canvasRef.current
+    if (canvas) zoomAt(factor, canvas.clientWidth / 2, canvas.clientHeight / 2)
+  }
+
+  const toggleEdgeType = (type: GraphEdgeType) => {
+    setEdgeTypes(prev => {
+      const next = new Set(prev)
+      if (next.has(type)) {
+        next.delete(type)
+      } else {
+        next.add(type)
+      }
+      return next
+    })
+  }
+
+  const focusBead = focusId ? nodesById.get(focusId) : undefined
+  const canFocusSelected = !!selectedBeadId && nodesById.has(selectedBeadId) && selectedBeadId !== focusId
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {(Object.keys(edgeStyles) as GraphEdgeType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleEdgeType(type)}
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded border border-border/50 transition-colors",
+              edgeTypes.has(type) ? "text-foreground" : "text-muted-foreground/50"
+            )}
+          >
+            <span className={cn("h-0.5 w-3 rounded", edgeStyles[type].legend)} />
+            {edgeStyles[type].label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setHideDone(!hideDone)}
+          className={cn(
+            "px-2 py-1 rounded border border-border/50 transition-colors",
+            hideDone ? "text-foreground" : "text-muted-foreground"
+          )}
+        >
+          {hideDone ? "Done hidden" : "Showing done"}
+        </button>
+
+        {focusBead && (
+          <span className="flex items-center gap-1.5 px-2 py-1 rounded bg-primary/10 text-foreground">
+            <Crosshair className="h-3 w-3" />
+            <span className="font-mono">{focusBead.id}</span>
+            <span className="text-muted-foreground">
+              {closure?.upstream.size ?? 0} upstream · {closure?.downstream.size ?? 0} downstream
+            </span>
+            <button type="button" onClick={() => setFocusId(null)} className="hover:text-red-400" title="Show everything">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+        {canFocusSelected && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setFocusId(selectedBeadId!)}>
+            <Crosshair className="h-3 w-3 mr-1" />
+            Focus on {selectedBeadId}
+          </Button>
+        )}
+
+        <span className="flex-1" />
+        {cycles.size > 0 && (
+          <span className="flex items-center gap-1.5 text-amber-400">
+            <span className="h-2 w-2 rounded-sm ring-2 ring-amber-400" />
+            {cycles.size} beads in cycles
+          </span>
+        )}
+        {chain.length > 0 && (
+          <span className="flex items-center gap-1.5 text-emerald-400" title={chain.join(" → ")}>
+            <span className="h-2 w-2 rounded-sm ring-2 ring-emerald-400" />
+            Longest open chain: {chain.length}
+          </span>
+        )}
+        {isLoading && <Spinner className="h-3 w-3" />}
+        <div className="flex items-center gap-0.5">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomCenter(1 / 1.25)} title="Zoom out">
+            <Minus className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomCenter(1.25)} title="Zoom in">
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={fit} title="Fit to view">
+            <Maximize2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={canvasRef}
+        className="relative flex-1 min-h-[400px] overflow-hidden rounded-lg border border-border/50 bg-muted/10 cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={(e) => {
+          panRef.current = { x: e.clientX - view.x, y: e.clientY - view.y }
+          e.currentTarget.setPointerCapture(e.pointerId)
+        }}
+        onPointerMove={(e) => {
+          const start = panRef.current
+          if (start) setView(v => ({ ...v, x: e.clientX - start.x, y: e.clientY - start.y }))
+        }}
+        onPointerUp={() => { panRef.current = null }}
+      >
+        {nodes.length === 0 && !isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            {graph && graph.edges.length > 0 ? "No dependencies match these settings" : "No dependencies between beads yet"}
+          </div>
+        )}
+
+        <div
+          className="absolute left-0 top-0 origin-top-left"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.k})` }}
+        >
+          <svg width={layout.width} height={layout.height} className="absolute left-0 top-0 overflow-visible pointer-events-none">
+            <defs>
+              {[
+                ["blocks", "fill-red-400"],
+                ["parent", "fill-slate-500"],
+                ["cycle", "fill-amber-400"],
+                ["chain", "fill-emerald-400"],
+              ].map(([name, fill]) => (
+                <marker key={name} id={`${markerId}-${name}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className={fill} />
+                </marker>
+              ))}
+            </defs>
+            {edges.map((edge) => {
+              const from = layout.positions.get(edge.from)
+              const to = layout.positions.get(edge.to)
+              if (!from || !to) return null
+              const inChain = chainEdges.has(edgeKey(edge))
+              const inCycle = edge.type === "blocks" && cycles.has(edge.from) && cycles.has(edge.to)
+              const style = edgeStyles[edge.type]
+              const marker = inChain ? "chain" : inCycle ? "cycle" : edge.type === "blocks" ? "blocks" : edge.type === "parent-child" ? "parent" : null
+              return (
+                <path
+                  key={edgeKey(edge)}
+                  d={edgePath(from, to)}
+                  fill="none"
+                  className={inChain ? "stroke-emerald-400" : inCycle ? "stroke-amber-400" : style.stroke}
+                  strokeWidth={inChain || inCycle ? 2.5 : 1.5}
+                  strokeDasharray={inChain || inCycle ? undefined : style.dash}
+                  markerEnd={marker ? `url(#${markerId}-${marker})` : undefined}
+                />
+              )
+            })}
+          </svg>
+
+          {nodes.map((bead) => {
+            const position = layout.positions.get(bead.id)
+            if (!position) return null
+            const status = findStatus(statuses, bead.status)
+            return (
+              <div
+                key={bead.id}
+                data-item-id={bead.id}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onBeadClick(bead)}
+                onDoubleClick={() => setFocusId(bead.id)}
+                title={`${bead.title}\nDouble-click to focus on its dependencies`}
+                className={cn(
+                  "absolute flex flex-col justify-center gap-0.5 rounded-md border px-2 cursor-pointer transition-shadow bg-background",
+                  STATUS_COLORS[status.color].pill,
+                  isDone(bead) && "opacity-60",
+                  cycles.has(bead.id) && "ring-2 ring-amber-400",
+                  chain.includes(bead.id) && "ring-2 ring-emerald-400",
+                  (selectedBeadId === bead.id || focusId === bead.id) && "ring-2 ring-primary"
+                )}
+                style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              >
+                <div className="flex items-center gap-1.5 text-[11px]">
+                  <StatusIcon icon={status.icon} />
+                  <span className="font-mono">{bead.id}</span>
+                  <span className="flex-1" />
+                  <WorkspaceBadge workspace={bead.workspace} />
+                </div>
+                <div className="truncate text-xs font-medium text-foreground/80">{bead.title}</div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Pencil } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { Spinner } from "@/components/ui/spinner"
+import { SimpleMarkdown } from "@/components/simple-markdown"
+import { cn } from "@/lib/utils"
+
+interface EditableMarkdownFieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void // Called on every keystroke; caller debounces the save
+  onBlur?: () => void
+  isSaving?: boolean
+  hasError?: boolean
+  placeholder?: string
+  autoEdit?: boolean // Start in edit mode (e.g. when the user just added an empty field)
+}
+
+// Markdown section that renders read-only and switches to a textarea on click
+export function EditableMarkdownField({
+  label,
+  value,
+  onChange,
+  onBlur,
+  isSaving = false,
+  hasError = false,
+  placeholder,
+  autoEdit = false,
+}: EditableMarkdownFieldProps) {
+  const [isEditing, setIsEditing] = useState(autoEdit)
+  const [draft, setDraft] = useState(value)
+  const [isDirty, setIsDirty] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+
+  // Follow external changes only while idle (keeps in-flight typing and pending saves intact)
+  useEffect(() => {
+    if (!isEditing && !isSaving) setDraft(value)
+  }, [value, isEditing, isSaving])
+
+  useEffect(() => {
+    if (isEditing) {
+      const el = textareaRef.current
+      el?.focus()
+      el?.setSelectionRange(el.value.length, el.value.length)
+    }
+  }, [isEditing])
+
+  const status = isSaving ? "saving" : hasError ? "error" : isDirty ? "saved" : null
+
+  return (
+    <div className="pt-4 border-t border-border/30">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{label}</h3>
+        {status === "saving" && <Spinner className="h-3 w-3 text-muted-foreground" />}
+        {status === "saved" && <span className="text-[10px] text-emerald-500">Saved</span>}
+        {status === "error" && <span className="text-[10px] text-destructive">Failed to save</span>}
+        {!isEditing && (
+          <button
+            type="button"
+            onClick={() => setIsEditing(true)}
+            className="ml-auto p-0.5 text-muted-foreground/50 hover:text-foreground transition-colors"
+            title={`Edit ${label.toLowerCase()}`}
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <Textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setIsDirty(true)
+            onChange(e.target.value)
+          }}
+          onBlur={() => {
+            setIsEditing(false)
+            onBlur?.()
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              e.preventDefault()
+              e.currentTarget.blur()
+            }
+          }}
+          placeholder={placeholder ?? "Markdown supported"}
+          rows={Math.min(16, Math.max(4, draft.split("\n").length + 1))}
+          className={cn("text-sm resize-y", hasError && "ring-1 ring-destructive")}
+        />
+      ) : (
+        <div
+          className="prose prose-sm prose-invert max-w-none text-foreground/90 cursor-text"
+          onDoubleClick={() => setIsEditing(true)}
+        >
+          {draft ? (
+            <SimpleMarkdown content={draft} />
+          ) : (
+            <p className="text-muted-foreground/50 italic text-sm">No {label.toLowerCase()}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,65 +4,28 @@ import { useState } from "react"
 import {
   ChevronRight,
   ChevronDown,
-  CheckCircle2,
   Circle,
-  CircleDot,
   AlertTriangle,
   ArrowUp,
   Minus,
   ArrowDown,
+  ChevronsDown,
   Trash2,
   Archive,
   Inbox,
+  Plus,
+  RotateCcw,
 } from "lucide-react"
 import { BeadTable } from "@/components/bead-table"
 import { CopyableId } from "@/components/copyable-id"
+import { WorkspaceBadge } from "@/components/workspace-badge"
+import { HighlightedText, SearchSnippet } from "@/components/highlighted-text"
 import type { Epic, Bead, BeadStatus, BeadPriority } from "@/lib/types"
+import type { SearchState } from "@/lib/search"
+import { DEFAULT_STATUS_DEFINITIONS, isDoneStatus, type StatusDefinition } from "@/lib/status"
+import { getStatusBadge } from "@/components/status-icon"
 import { cn } from "@/lib/utils"
 
-// Core status configurations
-const coreStatusConfig: Record<string, { label: string; className: string; icon: React.ReactNode }> = {
-  open: {
-    label: "Open",
-    className: "bg-white/10 text-white border-white/30",
-    icon: <Circle className="h-3 w-3" />,
-  },
-  in_progress: {
-    label: "In Progress",
-    className: "bg-amber-500/20 text-amber-400 border-amber-500/40",
-    icon: <CircleDot className="h-3 w-3" />,
-  },
-  closed: {
-    label: "Closed",
-    className: "bg-zinc-600/20 text-zinc-400 border-zinc-500/40",
-    icon: <CheckCircle2 className="h-3 w-3" />,
-  },
-  // Well-known custom statuses
-  ready_for_qa: {
-    label: "Ready for QA",
-    className: "bg-purple-500/20 text-purple-400 border-purple-500/40",
-    icon: <CircleDot className="h-3 w-3" />,
-  },
-  ready_to_ship: {
-    label: "Ready to Ship",
-    className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/40",
-    icon: <CheckCircle2 className="h-3 w-3" />,
-  },
-}
-
-// Get status config with fallback for unknown custom statuses
-function getStatusConfig(status: string): { label: string; className: string; icon: React.ReactNode } {
-  if (coreStatusConfig[status]) {
-    return coreStatusConfig[status]
-  }
-  // Fallback for unknown custom statuses
-  return {
-    label: status.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase()),
-    className: "bg-blue-500/20 text-blue-400 border-blue-500/40",
-    icon: <Circle className="h-3 w-3" />,
-  }
-}
-
 const priorityConfig: Record<BeadPriority, { label: string; className: string; icon: React.ReactNode }> = {
   critical: {
     label: "Critical",
@@ -84,6 +47,11 @@ const priorityConfig: Record<BeadPriority, { label: string; className: string; i
     className: "bg-slate-500/20 text-slate-400 border-slate-500/40",
     icon: <ArrowDown className="h-3 w-3" />,
   },
+  none: {
+    label: "None",
+    className: "bg-zinc-500/20 text-zinc-500 border-zinc-500/40",
+    icon: <ChevronsDown className="h-3 w-3" />,
+  },
 }
 
 const fallbackConfig = {
@@ -111,6 +79,9 @@ function PillBadge({
   )
 }
 
+// Collapsible sections of the tree
+export type TreeSection = "epics" | "backlog" | "archived" | "trash"
+
 interface EpicTreeProps {
   epics: Epic[]
   archivedEpics?: Epic[]
@@ -118,7 +89,9 @@ interface EpicTreeProps {
   backlogBeads?: Bead[]
   expandedEpics: Set<string>
   onToggleEpic: (epicId: string) => void
-  onBeadClick: (bead: Bead) => void
+  openSections: Set<TreeSection>
+  onToggleSection: (section: TreeSection) => void
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
   onStatusChange: (beadId: string, status: BeadStatus) => void
   onPriorityChange: (beadId: string, priority: BeadPriority) => void
   onDelete?: (beadId: string) => void
@@ -135,7 +108,14 @@ interface EpicTreeProps {
   onFocusItem?: (id: string | null) => void
   onArchive?: (id: string, archived: boolean) => void
   onBacklog?: (id: string, inBacklog: boolean) => void
+  onQuickAdd?: (epicId: string, title: string) => void
   selectedBeadId?: string | null
+  selectedIds?: Set<string>
+  search?: SearchState | null // Active full-text search (for highlights and snippets)
+  statusDefinitions?: StatusDefinition[] // Workspace statuses (labels, colors, done flags)
+  trashBeads?: Bead[] | null  // null: not loaded until the section is opened
+  onRestore?: (bead: Bead) => void
+  onPurge?: (bead: Bead) => void
 }
 
 // Depth-based left border colors
@@ -149,14 +129,14 @@ const depthBorderColors = [
 
 
 // Recursively count closed and total from a bead and its subtasks
-function countBeadAndSubtasks(bead: Bead): { closed: number; total: number } {
-  let closed = (bead.status === "closed" || bead.status === "ready_to_ship") ? 1 : 0
+function countBeadAndSubtasks(bead: Bead, statuses: StatusDefinition[]): { closed: number; total: number } {
+  let closed = isDoneStatus(statuses, bead.status) ? 1 : 0
   let total = 1
 
   // Recursively count subtasks
   if (bead.children && bead.children.length > 0) {
     for (const child of bead.children) {
-      const childCounts = countBeadAndSubtasks(child)
+      const childCounts = countBeadAndSubtasks(child, statuses)
       closed += childCounts.closed
       total += childCounts.total
     }
@@ -166,13 +146,13 @@ function countBeadAndSubtasks(bead: Bead): { closed: number; total: number } {
 }
 
 // Recursively calculate closed and total counts from all descendants
-function getAggregatedCounts(epic: Epic): { closed: number; total: number } {
+function getAggregatedCounts(epic: Epic, statuses: StatusDefinition[]): { closed: number; total: number } {
   let closed = 0
   let total = 0
 
   // Count direct child beads and their subtasks
   for (const child of epic.children ?? []) {
-    const childCounts = countBeadAndSubtasks(child)
+    const childCounts = countBeadAndSubtasks(child, statuses)
     closed += childCounts.closed
     total += childCounts.total
   }
@@ -180,7 +160,7 @@ function getAggregatedCounts(epic: Epic): { closed: number; total: number } {
   // Recursively count from child epics
   if (epic.childEpics && epic.childEpics.length > 0) {
     for (const childEpic of epic.childEpics) {
-      const childCounts = getAggregatedCounts(childEpic)
+      const childCounts = getAggregatedCounts(childEpic, statuses)
       closed += childCounts.closed
       total += childCounts.total
     }
@@ -196,6 +176,8 @@ export function EpicTree({
   backlogBeads = [],
   expandedEpics,
   onToggleEpic,
+  openSections,
+  onToggleSection,
   onBeadClick,
   onStatusChange,
   onPriorityChange,
@@ -213,15 +195,23 @@ export function EpicTree({
   onFocusItem,
   onArchive,
   onBacklog,
+  onQuickAdd,
   selectedBeadId,
+  selectedIds,
+  search,
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
+  trashBeads = [],
+  onRestore,
+  onPurge,
 }: EpicTreeProps) {
   const [isDraggingToArchive, setIsDraggingToArchive] = useState(false)
   const [isDraggingToUnarchive, setIsDraggingToUnarchive] = useState(false)
   const [isDraggingToBacklog, setIsDraggingToBacklog] = useState(false)
   const [isDraggingFromBacklog, setIsDraggingFromBacklog] = useState(false)
-  const [isEpicsExpanded, setIsEpicsExpanded] = useState(true)
-  const [isBacklogExpanded, setIsBacklogExpanded] = useState(true)
-  const [isArchiveExpanded, setIsArchiveExpanded] = useState(false)
+  const isEpicsExpanded = openSections.has("epics")
+  const isBacklogExpanded = openSections.has("backlog")
+  const isArchiveExpanded = openSections.has("archived")
+  const isTrashExpanded = openSections.has("trash")
 
   // Helper to check if an ID exists anywhere in a bead tree (including subtasks)
   const isInBeadTree = (id: string, beads: Bead[]): boolean => {
@@ -262,7 +252,7 @@ export function EpicTree({
         <>
           <button
             type="button"
-            onClick={() => setIsEpicsExpanded(!isEpicsExpanded)}
+            onClick={() => onToggleSection("epics")}
             className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors bg-muted/10"
           >
             {isEpicsExpanded ? (
@@ -298,7 +288,11 @@ export function EpicTree({
                   onToggleBead={onToggleBead}
                   focusedItemId={focusedItemId}
                   onFocusItem={onFocusItem}
+                  onQuickAdd={onQuickAdd}
                   selectedBeadId={selectedBeadId}
+                  selectedIds={selectedIds}
+                  search={search}
+                  statusDefinitions={statusDefinitions}
                 />
               ))}
             </div>
@@ -330,6 +324,9 @@ export function EpicTree({
           focusedItemId={focusedItemId}
           onFocusItem={onFocusItem}
           selectedBeadId={selectedBeadId}
+          selectedIds={selectedIds}
+          search={search}
+          statusDefinitions={statusDefinitions}
         />
       )}
 
@@ -467,7 +464,7 @@ export function EpicTree({
 
           <button
             type="button"
-            onClick={() => setIsBacklogExpanded(!isBacklogExpanded)}
+            onClick={() => onToggleSection("backlog")}
             className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors bg-muted/10"
           >
             {isBacklogExpanded ? (
@@ -505,8 +502,12 @@ export function EpicTree({
                   onToggleBead={onToggleBead}
                   focusedItemId={focusedItemId}
                   onFocusItem={onFocusItem}
+                  onQuickAdd={onQuickAdd}
                   isBacklog
                   selectedBeadId={selectedBeadId}
+                  selectedIds={selectedIds}
+                  search={search}
+                  statusDefinitions={statusDefinitions}
                 />
               ))}
               {/* Backlog loose beads */}
@@ -527,6 +528,9 @@ export function EpicTree({
                     focusedItemId={focusedItemId}
                     onFocusItem={onFocusItem}
                     selectedBeadId={selectedBeadId}
+                    selectedIds={selectedIds}
+                    search={search}
+                    statusDefinitions={statusDefinitions}
                   />
                 </div>
               )}
@@ -573,7 +577,7 @@ export function EpicTree({
 
           <button
             type="button"
-            onClick={() => setIsArchiveExpanded(!isArchiveExpanded)}
+            onClick={() => onToggleSection("archived")}
             className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors bg-muted/10"
           >
             {isArchiveExpanded ? (
@@ -612,12 +616,104 @@ export function EpicTree({
                   onFocusItem={onFocusItem}
                   isArchived
                   selectedBeadId={selectedBeadId}
+                  selectedIds={selectedIds}
+                  search={search}
+                  statusDefinitions={statusDefinitions}
                 />
               ))}
             </div>
           )}
         </div>
       )}
+
+      {/* Trash section - deleted (tombstoned) beads; shown before loading so it can be opened */}
+      {(trashBeads === null || trashBeads.length > 0 || isTrashExpanded) && (
+        <div className="mt-6">
+          <button
+            type="button"
+            onClick={() => onToggleSection("trash")}
+            className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors bg-muted/10"
+          >
+            {isTrashExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+            <Trash2 className="h-3.5 w-3.5" />
+            <span className="uppercase tracking-wide font-medium">Trash</span>
+            {trashBeads && <span className="text-muted-foreground/60">({trashBeads.length})</span>}
+          </button>
+
+          {isTrashExpanded && (
+            <div className="mt-1 space-y-0.5">
+              {trashBeads === null && <div className="px-2 py-1.5 text-xs text-muted-foreground">Loading...</div>}
+              {trashBeads?.length === 0 && <div className="px-2 py-1.5 text-xs text-muted-foreground">Trash is empty</div>}
+              {trashBeads?.map((bead) => (
+                <TrashRow key={bead.id} bead={bead} onRestore={onRestore} onPurge={onPurge} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatDeletedAt(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+function TrashRow({
+  bead,
+  onRestore,
+  onPurge,
+}: {
+  bead: Bead
+  onRestore?: (bead: Bead) => void
+  onPurge?: (bead: Bead) => void
+}) {
+  return (
+    <div className="group flex items-center gap-3 px-3 py-2 rounded-md text-sm hover:bg-muted/20 transition-colors">
+      <CopyableId id={bead.id} className="text-muted-foreground/60" />
+      <span className="flex-1 min-w-0 truncate text-muted-foreground line-through decoration-muted-foreground/40">
+        {bead.title}
+      </span>
+      {bead.parentId && (
+        <span className="shrink-0 text-xs text-muted-foreground/60">
+          from <span className="font-mono">{bead.parentId}</span>
+        </span>
+      )}
+      {bead.deletedAt && (
+        <span className="shrink-0 text-xs text-muted-foreground/60">
+          Deleted {formatDeletedAt(bead.deletedAt)}
+        </span>
+      )}
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        {onRestore && (
+          <button
+            type="button"
+            onClick={() => onRestore(bead)}
+            className="p-1 rounded text-muted-foreground hover:text-emerald-400 hover:bg-emerald-500/10 transition-colors"
+            title="Restore"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {onPurge && (
+          <button
+            type="button"
+            onClick={() => onPurge(bead)}
+            className="p-1 rounded text-muted-foreground hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Delete permanently"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
     </div>
   )
 }
@@ -627,7 +723,7 @@ interface EpicRowProps {
   depth: number
   expandedEpics: Set<string>
   onToggle: (epicId: string) => void
-  onBeadClick: (bead: Bead) => void
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
   onStatusChange: (beadId: string, status: BeadStatus) => void
   onPriorityChange: (beadId: string, priority: BeadPriority) => void
   onRequestDelete?: (beadId: string) => void
@@ -642,9 +738,13 @@ interface EpicRowProps {
   onToggleBead?: (beadId: string) => void
   focusedItemId?: string | null
   onFocusItem?: (id: string | null) => void
+  onQuickAdd?: (epicId: string, title: string) => void
   isArchived?: boolean
   isBacklog?: boolean
   selectedBeadId?: string | null
+  selectedIds?: Set<string>
+  search?: SearchState | null
+  statusDefinitions?: StatusDefinition[]
 }
 
 function EpicRow({
@@ -667,18 +767,25 @@ function EpicRow({
   onToggleBead,
   focusedItemId,
   onFocusItem,
+  onQuickAdd,
   isArchived = false,
   isBacklog = false,
   selectedBeadId,
+  selectedIds,
+  search,
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
 }: EpicRowProps) {
   const isExpanded = expandedEpics.has(epic.id)
-  const { closed: closedCount, total: totalCount } = getAggregatedCounts(epic)
+  const { closed: closedCount, total: totalCount } = getAggregatedCounts(epic, statusDefinitions)
   const progress = totalCount > 0 ? (closedCount / totalCount) * 100 : 0
 
   const hasChildEpics = epic.childEpics && epic.childEpics.length > 0
   const hasChildBeads = (epic.children?.length ?? 0) > 0
   const hasContent = hasChildEpics || hasChildBeads
   const isEmpty = !hasContent
+  // Empty epics can still be expanded to reveal the quick-add row
+  const canQuickAdd = !!onQuickAdd && !isArchived
+  const canExpand = hasContent || canQuickAdd
 
   // Calculate left margin based on depth (for nested epics)
   const depthMargin = depth * 12
@@ -746,6 +853,9 @@ function EpicRow({
               onDragEnd={onDragEnd}
               draggedBeadId={draggedBeadId}
               selectedBeadId={selectedBeadId}
+              selectedIds={selectedIds}
+              search={search}
+              statusDefinitions={statusDefinitions}
             />
           </div>
         )}
@@ -770,7 +880,8 @@ function EpicRow({
           isDraggable && "cursor-grab active:cursor-grabbing",
           dragOverEpicId === epic.id && "ring-1 ring-emerald-500 ring-inset bg-emerald-500/10",
           draggedBeadId === epic.id && "opacity-50",
-          selectedBeadId === epic.id && "bg-primary/10"
+          selectedBeadId === epic.id && "bg-primary/10",
+          selectedIds?.has(epic.id) && "bg-primary/10"
         )}
         onDragStart={(e) => {
           if (isDraggable) {
@@ -818,7 +929,7 @@ function EpicRow({
           }}
           className="text-muted-foreground hover:text-foreground transition-colors"
         >
-          {hasContent ? (
+          {canExpand ? (
             isExpanded ? (
               <ChevronDown className="h-5 w-5" />
             ) : (
@@ -835,18 +946,20 @@ function EpicRow({
             "flex-1 flex items-center gap-3 min-w-0",
             !isStandalone && "cursor-pointer"
           )}
-          onClick={() => { if (!isStandalone) { onFocusItem?.(epic.id); onBeadClick(epic) } }}
+          onClick={(e) => { if (!isStandalone) { onFocusItem?.(epic.id); onBeadClick(epic, e) } }}
         >
-          {!isStandalone && <CopyableId id={epic.id} className="w-28 shrink-0" />}
+          {!isStandalone && <CopyableId id={epic.id} className="w-28 shrink-0" highlight={search?.terms} />}
+          <WorkspaceBadge workspace={epic.workspace} />
 
-          <span className="font-medium text-foreground/70 flex-1 truncate">
-            {epic.title}
-          </span>
+          <div className="font-medium text-foreground/70 flex-1 truncate">
+            <HighlightedText text={epic.title} terms={search?.terms} />
+            {search && <SearchSnippet hit={search.hits.get(epic.id)} terms={search.terms} />}
+          </div>
         </div>
 
         {!isStandalone && (
           <>
-            <PillBadge config={getStatusConfig(epic.status)} />
+            <PillBadge config={getStatusBadge(statusDefinitions, epic.status)} />
             <PillBadge config={priorityConfig[epic.priority]} />
           </>
         )}
@@ -893,7 +1006,7 @@ function EpicRow({
         </div>
       </div>
 
-      {isExpanded && hasContent && (
+      {isExpanded && canExpand && (
         <div
           className={cn(
             "border-t border-border/30",
@@ -951,7 +1064,11 @@ function EpicRow({
                   onToggleBead={onToggleBead}
                   focusedItemId={focusedItemId}
                   onFocusItem={onFocusItem}
+                  onQuickAdd={onQuickAdd}
                   selectedBeadId={selectedBeadId}
+                  selectedIds={selectedIds}
+                  search={search}
+                  statusDefinitions={statusDefinitions}
                 />
               ))}
             </div>
@@ -975,11 +1092,55 @@ function EpicRow({
                 focusedItemId={focusedItemId}
                 onFocusItem={onFocusItem}
                 selectedBeadId={selectedBeadId}
+                selectedIds={selectedIds}
+                search={search}
+                statusDefinitions={statusDefinitions}
               />
             </div>
           )}
+
+          {/* Quick-add row for new child beads */}
+          {canQuickAdd && (
+            <QuickAddRow
+              onSubmit={(title) => onQuickAdd!(epic.id, title)}
+              className={cn(hasContent && "border-t border-border/30")}
+            />
+          )}
         </div>
       )}
     </div>
   )
 }
+
+function QuickAddRow({
+  onSubmit,
+  className,
+}: {
+  onSubmit: (title: string) => void
+  className?: string
+}) {
+  const [title, setTitle] = useState("")
+
+  return (
+    <div className={cn("flex items-center gap-2 px-3 py-1.5 text-muted-foreground", className)}>
+      <Plus className="h-4 w-4 shrink-0" />
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && title.trim()) {
+            e.preventDefault()
+            onSubmit(title.trim())
+            setTitle("")
+          }
+          if (e.key === "Escape") {
+            setTitle("")
+            e.currentTarget.blur()
+          }
+        }}
+        placeholder="Add a bead..."
+        className="flex-1 bg-transparent text-sm text-foreground outline-none placeholder:text-muted-foreground/60"
+      />
+    </div>
+  )
+}
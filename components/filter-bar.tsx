@@ -1,7 +1,7 @@
 "use client"
 
-import { Search, ArrowUpDown } from "lucide-react"
-import { Input } from "@/components/ui/input"
+import { useMemo } from "react"
+import { ArrowUpDown, CalendarRange } from "lucide-react"
 import {
   Select,
   SelectContent,
@@ -11,13 +11,14 @@ import {
 } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import type { BeadStatus, BeadPriority } from "@/lib/types"
+import { QueryInput } from "@/components/query-input"
+import { LabelFilter } from "@/components/label-filter"
+import { getClauseValues, parseQuery, setClause, type ParsedQuery, type QueryKey } from "@/lib/query"
+import type { StatusDefinition } from "@/lib/status"
+import { METRICS_RANGES, type MetricsRange } from "@/lib/metrics"
 
 export interface Filters {
-  status: BeadStatus | "all"
-  assignee: string
-  priority: BeadPriority | "all"
-  search: string
+  search: string  // Free text and filter clauses (see lib/query.ts); the dropdowns edit its clauses
   showMessages: boolean
 }
 
@@ -32,8 +33,13 @@ interface FilterBarProps {
   filters: Filters
   onFiltersChange: (filters: Filters) => void
   assignees: string[]
+  labels: string[]
+  statuses: StatusDefinition[]
   sort: SortOption
   onSortChange: (sort: SortOption) => void
+  onManageLabels?: () => void
+  dateRange?: MetricsRange  // Shown with the metrics dashboard
+  onDateRangeChange?: (range: MetricsRange) => void
 }
 
 // Encode sort option as string for select value
@@ -47,6 +53,19 @@ function decodeSortValue(value: string): SortOption {
   return { field, direction }
 }
 
+// Dropdown value for a query key: "all" without a clause, the option a single value names,
+// or CUSTOM when the query says more than a dropdown can show (several values, unknown value)
+const CUSTOM = "_custom"
+function dropdownValue(query: ParsedQuery, key: QueryKey, options: string[]): string {
+  const values = getClauseValues(query, key)
+  if (values.length === 0) return "all"
+  if (values.length > 1) return CUSTOM
+  // Query values are lowercased; match them back to the option's spelling
+  return options.find(option => option.toLowerCase() === values[0]) ?? CUSTOM
+}
+
+const priorityOptions = ["critical", "high", "medium", "low", "none"]
+
 const sortOptions = [
   { value: "updated:desc", label: "Updated (Newest)" },
   { value: "updated:asc", label: "Updated (Oldest)" },
@@ -58,44 +77,73 @@ const sortOptions = [
   { value: "status:desc", label: "Status (Closed first)" },
 ]
 
-export function FilterBar({ filters, onFiltersChange, assignees, sort, onSortChange }: FilterBarProps) {
+export function FilterBar({
+  filters,
+  onFiltersChange,
+  assignees,
+  labels,
+  statuses,
+  sort,
+  onSortChange,
+  onManageLabels,
+  dateRange,
+  onDateRangeChange,
+}: FilterBarProps) {
   const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
     onFiltersChange({ ...filters, [key]: value })
   }
 
+  const query = useMemo(() => parseQuery(filters.search), [filters.search])
+  const statusNames = useMemo(() => statuses.map(s => s.name), [statuses])
+  const suggestionSource = useMemo(
+    () => ({ statuses: statusNames, assignees, labels }),
+    [statusNames, assignees, labels]
+  )
+
+  // Dropdowns rewrite their clause in the query ("all" removes it)
+  const updateClause = (key: QueryKey, value: string) => {
+    if (value === CUSTOM) return
+    updateFilter("search", setClause(filters.search, key, value === "all" ? [] : [value]))
+  }
+
+  // Label include/exclude map to label: and -label: clauses
+  const updateLabels = (include: string[], exclude: string[]) => {
+    updateFilter("search", setClause(setClause(filters.search, "label", include), "label", exclude, true))
+  }
+
   return (
     <div className="flex items-center gap-3 flex-wrap">
-      {/* Search */}
-      <div className="relative flex-1 min-w-[200px] max-w-xs">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search by title..."
-          value={filters.search}
-          onChange={(e) => updateFilter("search", e.target.value)}
-          className="pl-9 h-9 bg-transparent border-0 rounded-none"
-        />
-      </div>
+      {/* Search and filter query */}
+      <QueryInput
+        value={filters.search}
+        onChange={(value) => updateFilter("search", value)}
+        source={suggestionSource}
+        errors={query.errors}
+      />
 
       {/* Status Filter */}
       <Select
-        value={filters.status}
-        onValueChange={(value) => updateFilter("status", value as BeadStatus | "all")}
+        value={dropdownValue(query, "status", statusNames)}
+        onValueChange={(value) => updateClause("status", value)}
       >
         <SelectTrigger className="w-[140px] h-9 bg-transparent border-0 rounded-none">
           <SelectValue placeholder="Status" />
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Status</SelectItem>
-          <SelectItem value="open">Open</SelectItem>
-          <SelectItem value="in_progress">In Progress</SelectItem>
-          <SelectItem value="closed">Closed</SelectItem>
+          {statuses.map((status) => (
+            <SelectItem key={status.name} value={status.name}>
+              {status.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM} disabled className="hidden">Custom</SelectItem>
         </SelectContent>
       </Select>
 
       {/* Priority Filter */}
       <Select
-        value={filters.priority}
-        onValueChange={(value) => updateFilter("priority", value as BeadPriority | "all")}
+        value={dropdownValue(query, "priority", priorityOptions)}
+        onValueChange={(value) => updateClause("priority", value)}
       >
         <SelectTrigger className="w-[140px] h-9 bg-transparent border-0 rounded-none">
           <SelectValue placeholder="Priority" />
@@ -106,27 +154,41 @@ export function FilterBar({ filters, onFiltersChange, assignees, sort, onSortCha
           <SelectItem value="high">High</SelectItem>
           <SelectItem value="medium">Medium</SelectItem>
           <SelectItem value="low">Low</SelectItem>
+          <SelectItem value="none">None</SelectItem>
+          <SelectItem value={CUSTOM} disabled className="hidden">Custom</SelectItem>
         </SelectContent>
       </Select>
 
       {/* Assignee Filter */}
       <Select
-        value={filters.assignee}
-        onValueChange={(value) => updateFilter("assignee", value)}
+        value={dropdownValue(query, "assignee", ["me", "none", ...assignees])}
+        onValueChange={(value) => updateClause("assignee", value)}
       >
         <SelectTrigger className="w-[165px] h-9 bg-transparent border-0 rounded-none">
           <SelectValue placeholder="Assignee" />
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Assignees</SelectItem>
+          <SelectItem value="me">Me</SelectItem>
+          <SelectItem value="none">Unassigned</SelectItem>
           {assignees.map((assignee) => (
             <SelectItem key={assignee} value={assignee}>
               {assignee}
             </SelectItem>
           ))}
+          <SelectItem value={CUSTOM} disabled className="hidden">Custom</SelectItem>
         </SelectContent>
       </Select>
 
+      {/* Label Filter */}
+      <LabelFilter
+        labels={labels}
+        include={getClauseValues(query, "label")}
+        exclude={getClauseValues(query, "label", true)}
+        onChange={updateLabels}
+        onManage={onManageLabels}
+      />
+
       {/* Sort */}
       <Select
         value={encodeSortValue(sort)}
@@ -145,6 +207,23 @@ export function FilterBar({ filters, onFiltersChange, assignees, sort, onSortCha
         </SelectContent>
       </Select>
 
+      {/* Date Range */}
+      {dateRange && onDateRangeChange && (
+        <Select value={dateRange} onValueChange={(value) => onDateRangeChange(value as MetricsRange)}>
+          <SelectTrigger className="w-[170px] h-9 bg-transparent border-0 rounded-none">
+            <CalendarRange className="h-4 w-4 mr-2 text-muted-foreground" />
+            <SelectValue placeholder="Date range" />
+          </SelectTrigger>
+          <SelectContent>
+            {METRICS_RANGES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       {/* Show Messages Toggle */}
       <div className="flex items-center gap-2">
         <Checkbox
@@ -1,8 +1,10 @@
 "use client"
 
-import { Moon, Sun, Circle, Loader2 } from "lucide-react"
+import { Moon, Sun, Circle, Loader2, ListChecks, Settings2, Layers } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import type { Workspace } from "@/lib/types"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import type { BdCapabilities, BdInfo, Workspace } from "@/lib/types"
+import { ALL_WORKSPACES, WORKSPACE_COLORS, aggregatedWorkspaces } from "@/lib/workspaces"
 
 interface HeaderProps {
   workspaces: Workspace[]
@@ -12,6 +14,20 @@ interface HeaderProps {
   onThemeToggle: () => void
   loadingWorkspaceId?: string | null
   isPending?: boolean
+  pendingWrites?: number // Queued bd writes on the server
+  bdInfo?: BdInfo | null
+  onOpenStatusSettings?: () => void
+  onManageWorkspaces?: () => void
+}
+
+// Descriptions for features an older/newer bd may lack
+const capabilityLabels: Record<keyof BdCapabilities, string> = {
+  noDaemon: "Direct mode (--no-daemon)",
+  allowStale: "Skipping staleness check (--allow-stale)",
+  depDirection: "Listing dependents (falls back to bd show)",
+  customStatuses: "Custom statuses",
+  messageType: "Message type",
+  commentDeletion: "Deleting comments (needs sqlite3)",
 }
 
 export function Header({
@@ -22,7 +38,21 @@ export function Header({
   onThemeToggle,
   loadingWorkspaceId,
   isPending,
+  pendingWrites = 0,
+  bdInfo,
+  onOpenStatusSettings,
+  onManageWorkspaces,
 }: HeaderProps) {
+  const unsupported = bdInfo
+    ? (Object.keys(capabilityLabels) as (keyof BdCapabilities)[]).filter((c) => !bdInfo.capabilities[c])
+    : []
+
+  // "All" tab first, once there's more than one workspace to combine
+  const tabs = [
+    ...(aggregatedWorkspaces(workspaces).length > 1 || currentWorkspace.id === ALL_WORKSPACES.id ? [ALL_WORKSPACES] : []),
+    ...workspaces.filter((workspace) => !workspace.hidden || workspace.id === currentWorkspace.id),
+  ]
+
   return (
     <header className="border-b border-border/50 bg-transparent">
       <div className="px-6 py-3 flex items-center justify-between">
@@ -37,7 +67,7 @@ export function Header({
           </div>
 
           <div className="flex items-center gap-1 p-1 bg-transparent">
-            {workspaces.map((workspace) => (
+            {tabs.map((workspace) => (
               <button
                 key={workspace.id}
                 onClick={() => onWorkspaceChange(workspace)}
@@ -47,18 +77,79 @@ export function Header({
                     : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
                 }`}
               >
-                {workspace.name}
+                {workspace.id === ALL_WORKSPACES.id && <Layers className="h-3.5 w-3.5" />}
+                {workspace.color && (
+                  <span className={`h-2 w-2 rounded-full ${WORKSPACE_COLORS[workspace.color]}`} />
+                )}
+                {workspace.id === ALL_WORKSPACES.id ? "All" : workspace.name}
                 {loadingWorkspaceId === workspace.id && (
                   <Loader2 className="h-3 w-3 animate-spin" />
                 )}
               </button>
             ))}
+            {onManageWorkspaces && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onManageWorkspaces}
+                className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                title="Manage workspaces"
+              >
+                <Settings2 className="h-4 w-4" />
+                <span className="sr-only">Manage workspaces</span>
+              </Button>
+            )}
           </div>
         </div>
 
         <div className="flex items-center gap-2">
-          {isPending && (
-            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          {(isPending || pendingWrites > 0) && (
+            <div
+              className="flex items-center gap-1.5 text-xs text-muted-foreground"
+              title={pendingWrites > 0 ? `${pendingWrites} pending save${pendingWrites === 1 ? "" : "s"}` : undefined}
+            >
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {pendingWrites > 0 && <span>Saving {pendingWrites}</span>}
+            </div>
+          )}
+          {bdInfo && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span
+                  className={`px-1.5 text-xs font-mono ${
+                    unsupported.length > 0 ? "text-amber-500" : "text-muted-foreground/60"
+                  }`}
+                >
+                  {bdInfo.version ? `bd v${bdInfo.version}` : "bd version unknown"}
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>
+                {unsupported.length > 0 ? (
+                  <div className="space-y-1">
+                    <p>Not supported by this bd version:</p>
+                    <ul className="list-disc pl-4">
+                      {unsupported.map((c) => <li key={c}>{capabilityLabels[c]}</li>)}
+                    </ul>
+                  </div>
+                ) : bdInfo.version ? (
+                  "All bd features supported"
+                ) : (
+                  "Couldn't detect the bd version; assuming all features are supported"
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {onOpenStatusSettings && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onOpenStatusSettings}
+              className="text-muted-foreground hover:text-foreground"
+              title="Statuses"
+            >
+              <ListChecks className="h-5 w-5" />
+              <span className="sr-only">Manage statuses</span>
+            </Button>
           )}
           <Button
             variant="ghost"
@@ -0,0 +1,45 @@
+"use client"
+
+import { highlightParts, searchFieldLabels, type SearchHit } from "@/lib/search"
+
+interface HighlightedTextProps {
+  text: string
+  terms?: string[]
+}
+
+// Text with search term hits marked
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (!terms || terms.length === 0) return <>{text}</>
+
+  return (
+    <>
+      {highlightParts(text, terms).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-amber-400/30 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+interface SearchSnippetProps {
+  hit?: SearchHit
+  terms: string[]
+}
+
+// Excerpt of the best match outside the ID and title (which are already visible in the row)
+export function SearchSnippet({ hit, terms }: SearchSnippetProps) {
+  const match = hit?.matches.find(m => m.field !== "id" && m.field !== "title")
+  if (!match) return null
+
+  return (
+    <div className="truncate text-xs font-normal text-muted-foreground">
+      <span className="text-muted-foreground/60">{searchFieldLabels[match.field]}:</span>{" "}
+      <HighlightedText text={match.snippet} terms={terms} />
+    </div>
+  )
+}
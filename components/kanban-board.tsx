@@ -0,0 +1,289 @@
+"use client"
+
+import React, { useState } from "react"
+import { Layers } from "lucide-react"
+import { toast } from "sonner"
+import type { Bead, BeadStatus } from "@/lib/types"
+import type { SearchState } from "@/lib/search"
+import { findStatus, STATUS_COLORS, type StatusDefinition } from "@/lib/status"
+import { StatusIcon } from "@/components/status-icon"
+import { PillBadge, priorityConfig, typeConfig } from "@/components/bead-table"
+import { CopyableId } from "@/components/copyable-id"
+import { HighlightedText } from "@/components/highlighted-text"
+import { WorkspaceBadge } from "@/components/workspace-badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+
+export type Swimlanes = "none" | "epic" | "assignee"
+
+// A bead on the board with the nearest epic above it
+export interface BoardCard {
+  bead: Bead
+  epic?: { id: string; title: string }
+}
+
+interface KanbanBoardProps {
+  cards: BoardCard[]          // Already filtered and sorted
+  statuses: StatusDefinition[]
+  swimlanes: Swimlanes
+  onSwimlanesChange: (swimlanes: Swimlanes) => void
+  wipLimits: Record<string, number>
+  onWipLimitChange: (status: string, limit: number | null) => void
+  onStatusChange: (beadId: string, status: BeadStatus) => void
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
+  selectedBeadId?: string | null
+  search?: SearchState | null
+}
+
+interface Lane {
+  key: string
+  label: string
+  cards: BoardCard[]
+}
+
+const swimlaneOptions: { value: Swimlanes; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "epic", label: "Epic" },
+  { value: "assignee", label: "Assignee" },
+]
+
+// Split cards into lanes in order of first appearance; the catch-all lane goes last
+function buildLanes(cards: BoardCard[], swimlanes: Swimlanes): Lane[] {
+  if (swimlanes === "none") return [{ key: "_all", label: "", cards }]
+
+  const lanes = new Map<string, Lane>()
+  for (const card of cards) {
+    const [key, label] = swimlanes === "epic"
+      ? [card.epic?.id ?? "_none", card.epic?.title ?? "No epic"]
+      : [card.bead.assignee || "_none", card.bead.assignee || "Unassigned"]
+    const lane = lanes.get(key) ?? { key, label, cards: [] }
+    lane.cards.push(card)
+    lanes.set(key, lane)
+  }
+  const result = Array.from(lanes.values())
+  return [...result.filter(l => l.key !== "_none"), ...result.filter(l => l.key === "_none")]
+}
+
+function WipLimitEditor({ status, limit, onChange }: {
+  status: StatusDefinition
+  limit?: number
+  onChange: (limit: number | null) => void
+}) {
+  const [value, setValue] = useState(limit?.toString() ?? "")
+  const [open, setOpen] = useState(false)
+
+  const save = () => {
+    const parsed = parseInt(value, 10)
+    onChange(Number.isFinite(parsed) && parsed > 0 ? parsed : null)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(next) => { setOpen(next); if (next) setValue(limit?.toString() ?? "") }}>
+      <PopoverTrigger asChild>
+        <button type="button" className="text-[11px] text-muted-foreground hover:text-foreground" title="Set WIP limit">
+          {limit ? `max ${limit}` : "no limit"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-2" align="end">
+        <p className="text-xs text-muted-foreground">WIP limit for {status.label}</p>
+        <Input
+          type="number"
+          min={1}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+          placeholder="No limit"
+          className="h-8"
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" className="h-7" onClick={() => { onChange(null); setOpen(false) }}>
+            Clear
+          </Button>
+          <Button size="sm" className="h-7" onClick={save}>Save</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function Card({ card, isSelected, onBeadClick, search, statusName }: {
+  card: BoardCard
+  isSelected: boolean
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
+  search?: SearchState | null
+  statusName: string
+}) {
+  const { bead, epic } = card
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", JSON.stringify({ beadId: bead.id, status: statusName }))
+        e.dataTransfer.effectAllowed = "move"
+      }}
+      onClick={(e) => onBeadClick(bead, e)}
+      data-item-id={bead.id}
+      className={cn(
+        "rounded-md border border-border/50 bg-card p-2 space-y-1.5 cursor-pointer hover:border-border transition-colors",
+        isSelected && "border-primary/60 bg-primary/5"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <CopyableId id={bead.id} className="text-xs" highlight={search?.terms} />
+        <WorkspaceBadge workspace={bead.workspace} />
+      </div>
+      <div className="text-sm font-medium text-foreground/80 line-clamp-2">
+        <HighlightedText text={bead.title} terms={search?.terms} />
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <PillBadge config={typeConfig[bead.type]} />
+        <PillBadge config={priorityConfig[bead.priority]} />
+        <span className="text-xs text-muted-foreground truncate">
+          {bead.assignee || <span className="italic text-muted-foreground/50">Unassigned</span>}
+        </span>
+      </div>
+      {epic && (
+        <div className="flex items-center gap-1 text-[11px] text-muted-foreground truncate" title={epic.id}>
+          <Layers className="h-3 w-3 shrink-0" />
+          <span className="truncate">{epic.title}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function KanbanBoard({
+  cards,
+  statuses,
+  swimlanes,
+  onSwimlanesChange,
+  wipLimits,
+  onWipLimitChange,
+  onStatusChange,
+  onBeadClick,
+  selectedBeadId,
+  search,
+}: KanbanBoardProps) {
+  const [dragOver, setDragOver] = useState<{ status: string; lane: string } | null>(null)
+
+  // One column per status, plus any status in use that the workspace doesn't define
+  const extra = Array.from(new Set(cards.map(c => c.bead.status)))
+    .filter(status => !statuses.some(s => s.name === status))
+    .map(status => findStatus(statuses, status))
+  const columns = [...statuses, ...extra]
+  const counts = new Map(columns.map(s => [s.name, cards.filter(c => c.bead.status === s.name).length]))
+  const lanes = buildLanes(cards, swimlanes)
+  const gridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(220px, 1fr))` }
+
+  const handleDrop = (e: React.DragEvent, status: string) => {
+    e.preventDefault()
+    setDragOver(null)
+    try {
+      const data = JSON.parse(e.dataTransfer.getData("text/plain"))
+      if (!data.beadId || data.status === status) return
+      const limit = wipLimits[status]
+      if (limit && (counts.get(status) ?? 0) >= limit) {
+        toast.warning(`${findStatus(statuses, status).label} is over its WIP limit of ${limit}`)
+      }
+      onStatusChange(data.beadId, status)
+    } catch {
+      // Not a card
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-1 text-xs">
+        <span className="text-muted-foreground mr-1">Swimlanes</span>
+        {swimlaneOptions.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onSwimlanesChange(value)}
+            className={cn(
+              "px-2 py-1 rounded transition-colors",
+              swimlanes === value
+                ? "bg-primary text-primary-foreground"
+                : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="grid gap-2 min-w-max" style={gridStyle}>
+          {columns.map((status) => {
+            const count = counts.get(status.name) ?? 0
+            const limit = wipLimits[status.name]
+            const overLimit = !!limit && count > limit
+            return (
+              <div
+                key={status.name}
+                className={cn(
+                  "flex items-center gap-2 px-2 py-1.5 rounded-md border sticky top-0 z-10 bg-background",
+                  overLimit ? "border-red-500/60" : "border-border/50"
+                )}
+              >
+                <span className={cn("flex items-center gap-1.5 text-sm font-medium", STATUS_COLORS[status.color].text)}>
+                  <StatusIcon icon={status.icon} />
+                  {status.label}
+                </span>
+                <span className={cn("text-xs", overLimit ? "text-red-400 font-medium" : "text-muted-foreground")}>
+                  {limit ? `${count}/${limit}` : count}
+                </span>
+                <span className="flex-1" />
+                <WipLimitEditor status={status} limit={limit} onChange={(next) => onWipLimitChange(status.name, next)} />
+              </div>
+            )
+          })}
+
+          {lanes.map((lane) => (
+            <React.Fragment key={lane.key}>
+              {swimlanes !== "none" && (
+                <div className="col-span-full flex items-center gap-2 pt-2 text-xs font-medium text-muted-foreground">
+                  {lane.label}
+                  <span className="text-muted-foreground/60">{lane.cards.length}</span>
+                </div>
+              )}
+              {columns.map((status) => (
+                <div
+                  key={status.name}
+                  onDragOver={(e) => {
+                    e.preventDefault()
+                    e.dataTransfer.dropEffect = "move"
+                    setDragOver({ status: status.name, lane: lane.key })
+                  }}
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOver(null)
+                  }}
+                  onDrop={(e) => handleDrop(e, status.name)}
+                  className={cn(
+                    "min-h-16 space-y-2 rounded-md p-1.5 bg-muted/20 transition-colors",
+                    dragOver?.status === status.name && dragOver.lane === lane.key && "bg-emerald-500/10"
+                  )}
+                >
+                  {lane.cards.filter(c => c.bead.status === status.name).map((card) => (
+                    <Card
+                      key={card.bead.id}
+                      card={card}
+                      isSelected={selectedBeadId === card.bead.id}
+                      onBeadClick={onBeadClick}
+                      search={search}
+                      statusName={status.name}
+                    />
+                  ))}
+                </div>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { Check, Minus, Settings2, Tag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+
+interface LabelFilterProps {
+  labels: string[]   // All labels in use
+  include: string[]  // Show beads with any of these (lowercased, as in the query)
+  exclude: string[]  // Hide beads with any of these
+  onChange: (include: string[], exclude: string[]) => void
+  onManage?: () => void
+}
+
+type LabelState = "include" | "exclude" | "none"
+
+// Each click cycles a label through include -> exclude -> none
+const nextState: Record<LabelState, LabelState> = { none: "include", include: "exclude", exclude: "none" }
+
+export function LabelFilter({ labels, include, exclude, onChange, onManage }: LabelFilterProps) {
+  const stateOf = (label: string): LabelState => {
+    const key = label.toLowerCase()
+    if (include.includes(key)) return "include"
+    if (exclude.includes(key)) return "exclude"
+    return "none"
+  }
+
+  const cycle = (label: string) => {
+    const key = label.toLowerCase()
+    const next = nextState[stateOf(label)]
+    onChange(
+      next === "include" ? [...include, key] : include.filter(l => l !== key),
+      next === "exclude" ? [...exclude, key] : exclude.filter(l => l !== key)
+    )
+  }
+
+  const summary = [
+    include.length > 0 && `${include.length} included`,
+    exclude.length > 0 && `${exclude.length} excluded`,
+  ].filter(Boolean).join(", ")
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-9 gap-1.5 font-normal", summary ? "text-foreground" : "text-muted-foreground")}
+        >
+          <Tag className="h-4 w-4" />
+          {summary ? `Labels: ${summary}` : "All Labels"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-60">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Click to include, again to exclude
+        </DropdownMenuLabel>
+        <div className="max-h-72 overflow-y-auto">
+          {labels.length === 0 && (
+            <div className="px-2 py-1.5 text-xs italic text-muted-foreground/60">No labels in use</div>
+          )}
+          {labels.map((label) => {
+            const state = stateOf(label)
+            return (
+              <DropdownMenuItem
+                key={label}
+                // Keep the menu open while picking several labels
+                onSelect={(e) => {
+                  e.preventDefault()
+                  cycle(label)
+                }}
+                className="gap-2"
+              >
+                <span
+                  className={cn(
+                    "flex h-4 w-4 items-center justify-center rounded-sm border",
+                    state === "include" && "border-emerald-500 bg-emerald-500/20 text-emerald-400",
+                    state === "exclude" && "border-red-500 bg-red-500/20 text-red-400",
+                    state === "none" && "border-border"
+                  )}
+                >
+                  {state === "include" && <Check className="h-3 w-3 text-emerald-400" />}
+                  {state === "exclude" && <Minus className="h-3 w-3 text-red-400" />}
+                </span>
+                <span className={cn("truncate", state === "exclude" && "line-through text-muted-foreground")}>
+                  {label}
+                </span>
+              </DropdownMenuItem>
+            )
+          })}
+        </div>
+        {(include.length > 0 || exclude.length > 0) && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onChange([], [])}>Clear label filter</DropdownMenuItem>
+          </>
+        )}
+        {onManage && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onManage}>
+              <Settings2 className="h-4 w-4" />
+              Manage labels...
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { GitMerge, Pencil, Search, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+
+export interface LabelUsage {
+  label: string
+  count: number // Beads carrying the label
+}
+
+interface LabelManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  usage: LabelUsage[]
+  onRename: (from: string, to: string) => void // Merges when `to` is already in use
+  onDelete: (label: string) => void
+  isRunning: boolean
+}
+
+// Labels that place beads in the Backlog and Archived sections - managed by those actions instead
+const SECTION_LABELS = ["backlog", "archived"]
+
+type Editing = { label: string; mode: "rename" | "merge" | "delete" }
+
+export function LabelManagerDialog({ open, onOpenChange, usage, onRename, onDelete, isRunning }: LabelManagerDialogProps) {
+  const [filter, setFilter] = useState("")
+  const [editing, setEditing] = useState<Editing | null>(null)
+  const [draft, setDraft] = useState("")
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    return usage.filter(u => u.label.toLowerCase().includes(needle))
+  }, [usage, filter])
+
+  const startEditing = (label: string, mode: Editing["mode"]) => {
+    setEditing({ label, mode })
+    setDraft(mode === "rename" ? label : "")
+  }
+
+  const submitRename = (from: string) => {
+    const to = draft.trim()
+    if (!to || to === from) {
+      setEditing(null)
+      return
+    }
+    onRename(from, to)
+    setEditing(null)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null)
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Labels
+            {isRunning && <Spinner className="h-4 w-4" />}
+          </DialogTitle>
+          <DialogDescription>
+            Every label in this workspace with the number of beads using it. Changes apply to all of those beads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter labels..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto divide-y divide-border/50 rounded-md border border-border/50">
+          {rows.length === 0 && (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">No labels</div>
+          )}
+          {rows.map(({ label, count }) => {
+            const isSection = SECTION_LABELS.includes(label)
+            const mode = editing?.label === label ? editing.mode : null
+            const renameTarget = mode === "rename" ? usage.find(u => u.label === draft.trim() && u.label !== label) : undefined
+
+            return (
+              <div key={label} className="px-3 py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-sm font-mono">{label}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {count} bead{count === 1 ? "" : "s"}
+                  </span>
+                  {isSection ? (
+                    <span className="text-xs italic text-muted-foreground/60">section</span>
+                  ) : (
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" title="Rename" disabled={isRunning} onClick={() => startEditing(label, "rename")}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" title="Merge into another label" disabled={isRunning || usage.length < 2} onClick={() => startEditing(label, "merge")}>
+                        <GitMerge className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:text-red-400" title="Delete" disabled={isRunning} onClick={() => startEditing(label, "delete")}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {mode === "rename" && (
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        autoFocus
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitRename(label)
+                          if (e.key === "Escape") {
+                            e.stopPropagation()
+                            setEditing(null)
+                          }
+                        }}
+                        className="h-8"
+                      />
+                      <Button size="sm" className="h-8" onClick={() => submitRename(label)} disabled={!draft.trim()}>
+                        {renameTarget ? "Merge" : "Rename"}
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                    {renameTarget && (
+                      <p className="text-xs text-muted-foreground">
+                        &quot;{renameTarget.label}&quot; already exists - the two labels will be merged.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {mode === "merge" && (
+                  <div className="flex items-center gap-2">
+                    <Select value={draft} onValueChange={setDraft}>
+                      <SelectTrigger className="h-8 flex-1">
+                        <SelectValue placeholder="Merge into..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {usage.filter(u => u.label !== label).map(u => (
+                          <SelectItem key={u.label} value={u.label}>
+                            {u.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" className="h-8" onClick={() => submitRename(label)} disabled={!draft}>
+                      Merge
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+
+                {mode === "delete" && (
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-xs text-muted-foreground">
+                      Remove &quot;{label}&quot; from {count} bead{count === 1 ? "" : "s"}?
+                    </span>
+                    <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-8 bg-red-600 hover:bg-red-700"
+                      onClick={() => {
+                        onDelete(label)
+                        setEditing(null)
+                      }}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
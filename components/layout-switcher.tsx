@@ -0,0 +1,47 @@
+"use client"
+
+import { ChartColumn, Kanban, ListTree, Network, Zap } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+// How the left panel shows the workspace (the `layout` URL param)
+export type BoardLayout = "tree" | "ready" | "board" | "graph" | "metrics"
+
+const layouts: { value: BoardLayout; label: string; icon: React.ReactNode }[] = [
+  { value: "tree", label: "Tree", icon: <ListTree className="h-3.5 w-3.5" /> },
+  { value: "ready", label: "Ready", icon: <Zap className="h-3.5 w-3.5" /> },
+  { value: "board", label: "Board", icon: <Kanban className="h-3.5 w-3.5" /> },
+  { value: "graph", label: "Graph", icon: <Network className="h-3.5 w-3.5" /> },
+  { value: "metrics", label: "Metrics", icon: <ChartColumn className="h-3.5 w-3.5" /> },
+]
+
+export function parseBoardLayout(value: string | null): BoardLayout {
+  return layouts.some(l => l.value === value) ? value as BoardLayout : "tree"
+}
+
+interface LayoutSwitcherProps {
+  layout: BoardLayout
+  onLayoutChange: (layout: BoardLayout) => void
+}
+
+export function LayoutSwitcher({ layout, onLayoutChange }: LayoutSwitcherProps) {
+  return (
+    <div className="flex items-center gap-0.5 rounded-md border border-border/50 p-0.5 shrink-0">
+      {layouts.map(({ value, label, icon }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onLayoutChange(value)}
+          className={cn(
+            "flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors",
+            layout === value
+              ? "bg-primary text-primary-foreground"
+              : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
+          )}
+        >
+          {icon}
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useMemo } from "react"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from "recharts"
+import type { Bead, Epic } from "@/lib/types"
+import { isDoneStatus, STATUS_COLORS, type StatusDefinition } from "@/lib/status"
+import {
+  burndown,
+  closedTime,
+  cycleTimeDistribution,
+  epicDescendantIds,
+  flattenEpics,
+  METRICS_RANGES,
+  openClosedSeries,
+  rangeStart,
+  statusBreakdown,
+  weeklyThroughput,
+  type MetricsRange,
+} from "@/lib/metrics"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+interface MetricsDashboardProps {
+  beads: Bead[]           // Filtered beads in the workspace, epics left out
+  epics: Epic[]           // The tree, for picking an epic to scope to
+  epicId: string | null   // Scope to this epic's descendants (null for the whole workspace)
+  onEpicChange: (epicId: string | null) => void
+  range: MetricsRange
+  statuses: StatusDefinition[]
+}
+
+const WORKSPACE = "_workspace"
+
+const openClosedConfig = {
+  open: { label: "Open", color: "var(--chart-2)" },
+  closed: { label: "Closed", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+const throughputConfig = {
+  created: { label: "Created", color: "var(--chart-2)" },
+  closed: { label: "Closed", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+const cycleTimeConfig = {
+  count: { label: "Beads", color: "var(--chart-4)" },
+} satisfies ChartConfig
+
+const statusConfig = {
+  count: { label: "Beads" },
+} satisfies ChartConfig
+
+const burndownConfig = {
+  remaining: { label: "Remaining", color: "var(--chart-3)" },
+  ideal: { label: "Ideal", color: "var(--muted-foreground)" },
+} satisfies ChartConfig
+
+function formatDays(days: number): string {
+  return days < 1 ? `${Math.round(days * 24)}h` : `${days.toFixed(1)}d`
+}
+
+function Panel({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-lg border border-border/50 p-3 space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-medium text-foreground/80">{title}</h3>
+        {subtitle && <span className="text-xs text-muted-foreground">{subtitle}</span>}
+      </div>
+      {children}
+    </section>
+  )
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-lg border border-border/50 px-3 py-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-lg font-semibold text-foreground/80">{value}</div>
+    </div>
+  )
+}
+
+export function MetricsDashboard({ beads, epics, epicId, onEpicChange, range, statuses }: MetricsDashboardProps) {
+  const epicOptions = useMemo(() => flattenEpics(epics), [epics])
+  const epic = epicOptions.find(e => e.id === epicId) ?? null
+
+  const scoped = useMemo(() => {
+    if (!epic) return beads
+    const ids = epicDescendantIds(epic)
+    return beads.filter(bead => ids.has(bead.id))
+  }, [beads, epic])
+
+  const metrics = useMemo(() => {
+    const isDone = (bead: Bead) => isDoneStatus(statuses, bead.status)
+    const now = new Date()
+    const start = rangeStart(range, scoped, now)
+    const cycleTime = cycleTimeDistribution(scoped, start, isDone)
+    return {
+      openClosed: openClosedSeries(scoped, start, now, isDone),
+      throughput: weeklyThroughput(scoped, start, now, isDone),
+      cycleTime,
+      statuses: statusBreakdown(scoped, statuses).map(({ status, count }) => ({
+        label: status.label,
+        count,
+        fill: STATUS_COLORS[status.color].fill,
+      })),
+      burndown: epic ? burndown(scoped, start, now, isDone) : [],
+      open: scoped.filter(bead => !isDone(bead)).length,
+      closedInRange: scoped.filter(bead => {
+        const closed = closedTime(bead, isDone)
+        return closed && closed >= start
+      }).length,
+    }
+  }, [scoped, range, statuses, epic])
+
+  const rangeLabel = METRICS_RANGES.find(r => r.value === range)?.label ?? range
+
+  return (
+    <div className="space-y-4 pb-4 @container">
+      <div className="flex items-center justify-between gap-3">
+        <Select value={epic?.id ?? WORKSPACE} onValueChange={(value) => onEpicChange(value === WORKSPACE ? null : value)}>
+          <SelectTrigger className="w-[280px] h-9">
+            <SelectValue placeholder="Scope" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WORKSPACE}>Whole workspace</SelectItem>
+            {epicOptions.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                <span className="font-mono text-xs text-muted-foreground mr-2">{option.id}</span>
+                {option.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">{rangeLabel}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Stat label="Open" value={metrics.open} />
+        <Stat label="Closed in range" value={metrics.closedInRange} />
+        <Stat
+          label="Median cycle time"
+          value={metrics.cycleTime.medianDays === null ? "-" : formatDays(metrics.cycleTime.medianDays)}
+        />
+      </div>
+
+      {scoped.length === 0 && (
+        <div className="text-center py-12 text-muted-foreground">
+          {epic ? "No beads under this epic match your filters" : "No beads match your filters"}
+        </div>
+      )}
+
+      {scoped.length > 0 && (
+        <div className="grid grid-cols-1 @3xl:grid-cols-2 gap-3">
+          {epic && (
+            <Panel title={`Burndown: ${epic.title}`} subtitle="Open beads under the epic">
+              <ChartContainer config={burndownConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={metrics.burndown}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+                  <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} type="stepAfter" />
+                </LineChart>
+              </ChartContainer>
+            </Panel>
+          )}
+
+          <Panel title="Open vs closed" subtitle="Closed counts from the start of the range">
+            <ChartContainer config={openClosedConfig} className="aspect-auto h-56 w-full">
+              <AreaChart data={metrics.openClosed}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Area dataKey="open" stroke="var(--color-open)" fill="var(--color-open)" fillOpacity={0.2} />
+                <Area dataKey="closed" stroke="var(--color-closed)" fill="var(--color-closed)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+          </Panel>
+
+          <Panel title="Weekly throughput" subtitle="Created and closed per week">
+            <ChartContainer config={throughputConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={metrics.throughput}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="created" fill="var(--color-created)" radius={2} />
+                <Bar dataKey="closed" fill="var(--color-closed)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </Panel>
+
+          <Panel title="Cycle time" subtitle="Created to closed, for beads closed in range">
+            <ChartContainer config={cycleTimeConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={metrics.cycleTime.buckets}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </Panel>
+
+          <Panel title="Status breakdown" subtitle="Current status of every bead">
+            <ChartContainer config={statusConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={metrics.statuses} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={96} />
+                <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                <Bar dataKey="count" radius={2}>
+                  {metrics.statuses.map((entry) => (
+                    <Cell key={entry.label} className={entry.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </Panel>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Search } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { getSuggestions, type SuggestionSource } from "@/lib/query"
+import { cn } from "@/lib/utils"
+
+interface QueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  source: SuggestionSource
+  errors?: string[]
+}
+
+// Search box that also accepts filter clauses (status:open label:backend ...), with autocomplete
+export function QueryInput({ value, onChange, source, errors = [] }: QueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [cursor, setCursor] = useState(0)
+  const [activeIndex, setActiveIndex] = useState(0)
+  // Set once the arrow keys move through the list; until then Tab/Enter are only taken inside a key:value
+  const [navigated, setNavigated] = useState(false)
+  // Caret position to restore after accepting a suggestion
+  const pendingCursorRef = useRef<number | null>(null)
+
+  const suggestions = useMemo(
+    () => (open ? getSuggestions(value, cursor, source) : []),
+    [open, value, cursor, source]
+  )
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [suggestions.length, value])
+
+  useEffect(() => {
+    setNavigated(false)
+  }, [value])
+
+  useEffect(() => {
+    const position = pendingCursorRef.current
+    if (position === null || !inputRef.current) return
+    pendingCursorRef.current = null
+    inputRef.current.setSelectionRange(position, position)
+    setCursor(position)
+  }, [value])
+
+  const accept = (index: number) => {
+    const suggestion = suggestions[index]
+    if (!suggestion) return
+    const next = value.slice(0, suggestion.start) + suggestion.replacement + value.slice(suggestion.end)
+    pendingCursorRef.current = suggestion.start + suggestion.replacement.length
+    // Keep the list open after a key so its values show up next
+    setOpen(suggestion.replacement.endsWith(":"))
+    onChange(next)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      if (open) {
+        e.preventDefault()
+        setOpen(false)
+        setNavigated(false)
+      }
+      return
+    }
+    if (!open && e.key === "ArrowDown") {
+      e.preventDefault()
+      setOpen(true)
+      setNavigated(true)
+      return
+    }
+    if (suggestions.length === 0) return
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setNavigated(true)
+      setActiveIndex(i => (i + 1) % suggestions.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setNavigated(true)
+      setActiveIndex(i => (i - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      // Otherwise Tab moves focus on as usual
+      const token = value.slice(suggestions[0].start, cursor)
+      if (!navigated && !token.includes(":")) return
+      e.preventDefault()
+      accept(activeIndex)
+    }
+  }
+
+  const hasErrors = errors.length > 0
+
+  return (
+    <div className="relative flex-1 min-w-[200px] max-w-md">
+      <Search
+        className={cn(
+          "absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4",
+          hasErrors ? "text-red-400" : "text-muted-foreground"
+        )}
+      />
+      <Input
+        ref={inputRef}
+        placeholder="Search or filter: status:open assignee:me label:..."
+        value={value}
+        onChange={(e) => {
+          setCursor(e.target.selectionStart ?? e.target.value.length)
+          setOpen(true)
+          onChange(e.target.value)
+        }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false)
+          setNavigated(false)
+        }}
+        onKeyDown={handleKeyDown}
+        aria-invalid={hasErrors || undefined}
+        title={hasErrors ? errors.join("\n") : undefined}
+        className="pl-9 h-9 bg-transparent border-0 rounded-none"
+      />
+
+      {open && (suggestions.length > 0 || hasErrors) && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-full min-w-[280px] rounded-md border border-border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.replacement}
+              type="button"
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(index)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex w-full items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-left text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.detail && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.detail}</span>
+              )}
+            </button>
+          ))}
+          {errors.map((error) => (
+            <div key={error} className="px-2 py-1.5 text-xs text-red-400">
+              {error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import React from "react"
+import { Hand } from "lucide-react"
+import type { Bead, BeadPriority } from "@/lib/types"
+import type { SearchState } from "@/lib/search"
+import { DEFAULT_STATUS_DEFINITIONS, type StatusDefinition } from "@/lib/status"
+import { getStatusBadge } from "@/components/status-icon"
+import { PillBadge, priorityConfig, typeConfig } from "@/components/bead-table"
+import { CopyableId } from "@/components/copyable-id"
+import { HighlightedText } from "@/components/highlighted-text"
+import { WorkspaceBadge } from "@/components/workspace-badge"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { cn } from "@/lib/utils"
+
+export type ReadyGrouping = "priority" | "assignee"
+
+interface ReadyQueueProps {
+  beads: Bead[]          // Ready beads, already filtered
+  totalCount: number     // Ready beads before filtering
+  isLoading: boolean
+  grouping: ReadyGrouping
+  onGroupingChange: (grouping: ReadyGrouping) => void
+  currentUser?: string
+  onBeadClick: (bead: Bead, event?: React.MouseEvent) => void
+  onClaim: (bead: Bead) => void
+  claimingIds: Set<string>
+  selectedBeadId?: string | null
+  search?: SearchState | null
+  statusDefinitions?: StatusDefinition[]
+}
+
+interface ReadyGroup {
+  key: string
+  label: string
+  beads: Bead[]
+}
+
+const priorities: BeadPriority[] = ["critical", "high", "medium", "low", "none"]
+
+// Group in bd's order (priority, then age); assignee groups put the current user first and unassigned last
+function groupBeads(beads: Bead[], grouping: ReadyGrouping, currentUser?: string): ReadyGroup[] {
+  if (grouping === "priority") {
+    return priorities
+      .map(priority => ({
+        key: priority,
+        label: priorityConfig[priority].label,
+        beads: beads.filter(b => b.priority === priority),
+      }))
+      .filter(group => group.beads.length > 0)
+  }
+
+  const assignees = Array.from(new Set(beads.map(b => b.assignee).filter(Boolean))).sort((a, b) =>
+    a === currentUser ? -1 : b === currentUser ? 1 : a.localeCompare(b)
+  )
+  const groups = assignees.map(assignee => ({
+    key: assignee,
+    label: assignee === currentUser ? `${assignee} (me)` : assignee,
+    beads: beads.filter(b => b.assignee === assignee),
+  }))
+  const unassigned = beads.filter(b => !b.assignee)
+  return unassigned.length > 0 ? [...groups, { key: "_unassigned", label: "Unassigned", beads: unassigned }] : groups
+}
+
+export function ReadyQueue({
+  beads,
+  totalCount,
+  isLoading,
+  grouping,
+  onGroupingChange,
+  currentUser,
+  onBeadClick,
+  onClaim,
+  claimingIds,
+  selectedBeadId,
+  search,
+  statusDefinitions = DEFAULT_STATUS_DEFINITIONS,
+}: ReadyQueueProps) {
+  const groups = groupBeads(beads, grouping, currentUser)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-muted-foreground">
+          {beads.length} ready{beads.length !== totalCount && ` of ${totalCount}`}
+          {isLoading && <Spinner className="inline-block ml-2 h-3 w-3" />}
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-muted-foreground mr-1">Group by</span>
+          {(["priority", "assignee"] as ReadyGrouping[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onGroupingChange(option)}
+              className={cn(
+                "px-2 py-1 rounded capitalize transition-colors",
+                grouping === option
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groups.length === 0 && !isLoading && (
+        <div className="text-center py-12 text-muted-foreground">
+          {totalCount === 0 ? "Nothing is ready - open work is either blocked or done" : "No ready beads match your filters"}
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <section key={group.key} className="rounded-lg border border-border/50 overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 bg-muted/30 text-sm font-medium text-foreground/70">
+            {grouping === "priority" && <PillBadge config={priorityConfig[group.key as BeadPriority]} />}
+            {grouping === "assignee" && group.label}
+            <span className="text-xs text-muted-foreground">{group.beads.length}</span>
+          </div>
+          <div className="divide-y divide-border/30">
+            {group.beads.map((bead) => {
+              const claimed = bead.status === "in_progress" && !!currentUser && bead.assignee === currentUser
+              return (
+                <div
+                  key={bead.id}
+                  data-item-id={bead.id}
+                  onClick={(e) => onBeadClick(bead, e)}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-accent/30 transition-colors",
+                    selectedBeadId === bead.id && "bg-primary/10"
+                  )}
+                >
+                  <CopyableId id={bead.id} className="w-24 shrink-0" highlight={search?.terms} />
+                  <PillBadge config={typeConfig[bead.type]} />
+                  <div className="flex-1 min-w-0 truncate font-medium text-foreground/70">
+                    <HighlightedText text={bead.title} terms={search?.terms} />
+                  </div>
+                  <WorkspaceBadge workspace={bead.workspace} />
+                  {bead.status !== "open" && <PillBadge config={getStatusBadge(statusDefinitions, bead.status)} />}
+                  {grouping === "assignee" ? (
+                    <PillBadge config={priorityConfig[bead.priority]} />
+                  ) : (
+                    <span className="w-24 shrink-0 truncate text-sm text-muted-foreground">
+                      {bead.assignee || <span className="text-muted-foreground/50 italic">Unassigned</span>}
+                    </span>
+                  )}
+                  {claimed ? (
+                    <span className="w-20 shrink-0 text-center text-xs text-muted-foreground italic">Claimed</span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-20 shrink-0"
+                      disabled={claimingIds.has(bead.id)}
+                      title="Assign to me and start"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onClaim(bead)
+                      }}
+                    >
+                      {claimingIds.has(bead.id) ? <Spinner className="h-3 w-3" /> : <Hand className="h-3 w-3 mr-1" />}
+                      Claim
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Bookmark, Check, Download, Link2, Plus, RefreshCw, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { SavedView } from "@/lib/views"
+
+interface SavedViewsMenuProps {
+  views: SavedView[]
+  activeViewId: string | null  // View matching the current filters, if any
+  onApply: (view: SavedView) => void
+  onSave: (name: string) => void
+  onUpdate: (view: SavedView) => void  // Overwrite with the current filters
+  onDelete: (view: SavedView) => void
+  onCopyLink: (view: SavedView | null) => void  // null = share the current, unsaved state
+  onExport: () => void
+  onImport: (file: File) => void
+}
+
+export function SavedViewsMenu({
+  views,
+  activeViewId,
+  onApply,
+  onSave,
+  onUpdate,
+  onDelete,
+  onCopyLink,
+  onExport,
+  onImport,
+}: SavedViewsMenuProps) {
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [name, setName] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const activeView = views.find(v => v.id === activeViewId)
+
+  const handleSave = () => {
+    if (!name.trim()) return
+    onSave(name.trim())
+    setIsSaveOpen(false)
+    setName("")
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 gap-1.5 text-muted-foreground shrink-0">
+            <Bookmark className="h-4 w-4" />
+            <span className="max-w-[140px] truncate">{activeView?.name ?? "Views"}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <div className="px-2 py-1.5 text-xs italic text-muted-foreground/60">No saved views yet</div>
+          )}
+          {views.map((view) => (
+            <DropdownMenuSub key={view.id}>
+              <DropdownMenuSubTrigger onClick={() => onApply(view)} className="gap-2">
+                <Check className={view.id === activeViewId ? "h-4 w-4" : "h-4 w-4 invisible"} />
+                <span className="truncate">{view.name}</span>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onClick={() => onApply(view)}>
+                  <Check className="h-4 w-4" />
+                  Apply
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onUpdate(view)}>
+                  <RefreshCw className="h-4 w-4" />
+                  Update with current filters
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onCopyLink(view)}>
+                  <Link2 className="h-4 w-4" />
+                  Copy link
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem variant="destructive" onClick={() => onDelete(view)}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsSaveOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Save current view...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onCopyLink(null)}>
+            <Link2 className="h-4 w-4" />
+            Copy link to current view
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={onExport} disabled={views.length === 0}>
+            <Download className="h-4 w-4" />
+            Export views
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Import views...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onImport(file)
+          e.target.value = "" // Allow importing the same file again
+        }}
+      />
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sort, expanded epics and open sections. A view with the same name is replaced.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. My in-progress"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import {
+  Ban,
+  CheckCircle2,
+  Circle,
+  CircleDot,
+  Clock,
+  Eye,
+  FlaskConical,
+  PauseCircle,
+  Rocket,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react"
+import { STATUS_COLORS, findStatus, type StatusDefinition, type StatusIconName } from "@/lib/status"
+import { cn } from "@/lib/utils"
+
+const statusIcons: Record<StatusIconName, LucideIcon> = {
+  circle: Circle,
+  "circle-dot": CircleDot,
+  "check-circle": CheckCircle2,
+  clock: Clock,
+  eye: Eye,
+  flask: FlaskConical,
+  rocket: Rocket,
+  pause: PauseCircle,
+  ban: Ban,
+  "x-circle": XCircle,
+}
+
+export function StatusIcon({ icon, className }: { icon: StatusIconName; className?: string }) {
+  const Icon = statusIcons[icon] ?? Circle
+  return <Icon className={cn("h-3 w-3", className)} />
+}
+
+// Badge config for a status pill (the shape PillBadge takes)
+export function getStatusBadge(
+  definitions: StatusDefinition[],
+  status: string
+): { label: string; className: string; icon: React.ReactNode } {
+  const definition = findStatus(definitions, status)
+  return {
+    label: definition.label,
+    className: STATUS_COLORS[definition.color].pill,
+    icon: <StatusIcon icon={definition.icon} />,
+  }
+}
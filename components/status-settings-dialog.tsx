@@ -0,0 +1,347 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowRight, ArrowUp, Plus, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import { StatusIcon } from "@/components/status-icon"
+import {
+  STATUS_COLORS,
+  STATUS_ICONS,
+  STATUS_NAME_PATTERN,
+  defaultStatusDefinition,
+  type StatusColor,
+  type StatusDefinition,
+} from "@/lib/status"
+import { cn } from "@/lib/utils"
+
+interface StatusSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  definitions: StatusDefinition[]
+  usage: Map<string, number> // Beads per status
+  supportsCustom: boolean    // bd can store custom statuses
+  onSave: (definitions: StatusDefinition[], migrations: Record<string, string>) => void
+  isSaving: boolean
+}
+
+// A status being edited; `original` is its saved name (unset for new statuses)
+interface DraftStatus extends StatusDefinition {
+  key: string
+  original?: string
+}
+
+// A removed custom status and where its beads move
+interface RemovedStatus {
+  name: string
+  replacement: string
+}
+
+function toDrafts(definitions: StatusDefinition[]): DraftStatus[] {
+  return definitions.map(d => ({ ...d, key: d.name, original: d.name }))
+}
+
+export function StatusSettingsDialog({
+  open,
+  onOpenChange,
+  definitions,
+  usage,
+  supportsCustom,
+  onSave,
+  isSaving,
+}: StatusSettingsDialogProps) {
+  const [drafts, setDrafts] = useState<DraftStatus[]>(() => toDrafts(definitions))
+  const [removed, setRemoved] = useState<RemovedStatus[]>([])
+  const [newName, setNewName] = useState("")
+  const [wasOpen, setWasOpen] = useState(open)
+
+  // Start from the saved statuses each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) {
+      setDrafts(toDrafts(definitions))
+      setRemoved([])
+      setNewName("")
+    }
+  }
+
+  const names = drafts.map(d => d.name)
+  const nameError = (draft: DraftStatus): string | null => {
+    if (draft.core) return null
+    if (!STATUS_NAME_PATTERN.test(draft.name)) return "Use lowercase letters, digits and _"
+    if (names.filter(n => n === draft.name).length > 1) return "Another status has this name"
+    return null
+  }
+  const hasErrors = drafts.some(d => nameError(d) || !d.label.trim())
+
+  const trimmedNew = newName.trim()
+  const newNameError = !trimmedNew
+    ? null
+    : !STATUS_NAME_PATTERN.test(trimmedNew)
+      ? "Use lowercase letters, digits and _"
+      : names.includes(trimmedNew) ? "Already exists" : null
+
+  const update = (index: number, changes: Partial<StatusDefinition>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)))
+  }
+
+  const move = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev]
+      const [item] = next.splice(index, 1)
+      next.splice(index + offset, 0, item)
+      return next
+    })
+  }
+
+  const remove = (index: number) => {
+    const draft = drafts[index]
+    setDrafts(prev => prev.filter((_, i) => i !== index))
+    // New statuses have no beads to move
+    if (draft.original) setRemoved(prev => [...prev, { name: draft.original!, replacement: "open" }])
+  }
+
+  const add = () => {
+    if (!trimmedNew || newNameError) return
+    // Add before closed, so new statuses land inside the workflow
+    const closedIndex = drafts.findIndex(d => d.name === "closed")
+    const definition = { ...defaultStatusDefinition(trimmedNew), key: `new-${trimmedNew}-${drafts.length}` }
+    setDrafts(prev => closedIndex === -1
+      ? [...prev, definition]
+      : [...prev.slice(0, closedIndex), definition, ...prev.slice(closedIndex)])
+    setNewName("")
+  }
+
+  const handleSave = () => {
+    const migrations: Record<string, string> = {}
+    for (const draft of drafts) {
+      if (draft.original && draft.original !== draft.name) migrations[draft.original] = draft.name
+    }
+    for (const { name, replacement } of removed) {
+      // The replacement may itself have been renamed (or removed) in this edit
+      migrations[name] = drafts.find(d => d.original === replacement)?.name ?? "open"
+    }
+    onSave(drafts.map(({ name, label, color, icon, done, core }) => ({ name, label, color, icon, done, core })), migrations)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Statuses
+            {isSaving && <Spinner className="h-4 w-4" />}
+          </DialogTitle>
+          <DialogDescription>
+            The workflow for this workspace, in order. Renaming or removing a status moves its beads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[26rem] overflow-y-auto divide-y divide-border/50 rounded-md border border-border/50">
+          {drafts.map((draft, index) => {
+            const error = nameError(draft)
+            const count = usage.get(draft.original ?? "") ?? 0
+            return (
+              <div key={draft.key} className="px-3 py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      disabled={index === 0 || isSaving}
+                      onClick={() => move(index, -1)}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      disabled={index === drafts.length - 1 || isSaving}
+                      onClick={() => move(index, 1)}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </button>
+                  </div>
+                  <span
+                    className={cn(
+                      "inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-md border w-32 shrink-0 truncate",
+                      STATUS_COLORS[draft.color].pill
+                    )}
+                  >
+                    <StatusIcon icon={draft.icon} />
+                    <span className="truncate">{draft.label || draft.name}</span>
+                  </span>
+                  <Input
+                    value={draft.label}
+                    onChange={(e) => update(index, { label: e.target.value })}
+                    placeholder="Label"
+                    className="h-8 flex-1"
+                    disabled={isSaving}
+                  />
+                  <span className="w-16 text-right text-xs text-muted-foreground tabular-nums">
+                    {count} bead{count === 1 ? "" : "s"}
+                  </span>
+                  {draft.core ? (
+                    <span className="w-7 text-center text-xs italic text-muted-foreground/60">core</span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 hover:text-red-400"
+                      title="Remove"
+                      disabled={isSaving || !supportsCustom}
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 pl-5">
+                  {draft.core ? (
+                    <span className="h-8 w-40 flex items-center text-xs font-mono text-muted-foreground">{draft.name}</span>
+                  ) : (
+                    <Input
+                      value={draft.name}
+                      onChange={(e) => update(index, { name: e.target.value.trim() })}
+                      className={cn("h-8 w-40 font-mono text-xs", error && "border-destructive")}
+                      title={error ?? "Status name in bd"}
+                      disabled={isSaving || !supportsCustom}
+                    />
+                  )}
+                  <Select value={draft.color} onValueChange={(color) => update(index, { color: color as StatusColor })} disabled={isSaving}>
+                    <SelectTrigger className="h-8 w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STATUS_COLORS) as StatusColor[]).map((color) => (
+                        <SelectItem key={color} value={color}>
+                          <span className="flex items-center gap-1.5 capitalize">
+                            <span className={cn("w-2 h-2 rounded-full", STATUS_COLORS[color].dot)} />
+                            {color}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={draft.icon} onValueChange={(icon) => update(index, { icon: icon as StatusDefinition["icon"] })} disabled={isSaving}>
+                    <SelectTrigger className="h-8 w-36 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATUS_ICONS.map((icon) => (
+                        <SelectItem key={icon} value={icon}>
+                          <span className="flex items-center gap-1.5">
+                            <StatusIcon icon={icon} />
+                            {icon}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                    <Checkbox
+                      checked={draft.done}
+                      disabled={draft.name === "closed" || isSaving}
+                      onCheckedChange={(checked) => update(index, { done: checked === true })}
+                    />
+                    Counts as done
+                  </label>
+                </div>
+                {error && <p className="pl-5 text-xs text-destructive">{error}</p>}
+                {draft.original && draft.original !== draft.name && !error && (
+                  <p className="pl-5 text-xs text-muted-foreground">
+                    Beads in &quot;{draft.original}&quot; will move to &quot;{draft.name}&quot;
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {removed.length > 0 && (
+          <div className="space-y-2 rounded-md border border-border/50 px-3 py-2">
+            <p className="text-xs font-medium text-muted-foreground">Removed statuses</p>
+            {removed.map((r, i) => (
+              <div key={r.name} className="flex items-center gap-2 text-xs">
+                <span className="font-mono line-through text-muted-foreground">{r.name}</span>
+                <span className="text-muted-foreground">
+                  ({usage.get(r.name) ?? 0} bead{usage.get(r.name) === 1 ? "" : "s"})
+                </span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <Select
+                  value={r.replacement}
+                  onValueChange={(replacement) => setRemoved(prev => prev.map((p, j) => (j === i ? { ...p, replacement } : p)))}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="h-7 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {drafts.filter(d => d.original).map((d) => (
+                      <SelectItem key={d.original} value={d.original!}>
+                        {d.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {supportsCustom ? (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="new_status"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && add()}
+                className="h-8 font-mono text-xs"
+                disabled={isSaving}
+              />
+              <Button size="sm" variant="outline" className="h-8" onClick={add} disabled={!trimmedNew || !!newNameError || isSaving}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add status
+              </Button>
+            </div>
+            {newNameError && <p className="text-xs text-destructive">{newNameError}</p>}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            This bd version doesn&apos;t support custom statuses; only the core statuses&apos; appearance can be changed.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={hasErrors || isSaving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,22 @@
+import { WORKSPACE_COLORS } from "@/lib/workspaces"
+import type { BeadWorkspace } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface WorkspaceBadgeProps {
+  workspace?: BeadWorkspace
+  className?: string
+}
+
+// Which workspace a bead belongs to (only set in the all-workspaces view)
+export function WorkspaceBadge({ workspace, className }: WorkspaceBadgeProps) {
+  if (!workspace) return null
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 text-[11px] text-muted-foreground shrink-0 max-w-32", className)}
+      title={workspace.databasePath}
+    >
+      <span className={cn("h-1.5 w-1.5 rounded-full shrink-0", workspace.color ? WORKSPACE_COLORS[workspace.color] : "bg-muted-foreground")} />
+      <span className="truncate">{workspace.name}</span>
+    </span>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, ArrowDown, ArrowUp, Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import { WORKSPACE_COLORS } from "@/lib/workspaces"
+import type { Workspace, WorkspaceColor } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface WorkspaceManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  workspaces: Workspace[]
+  currentWorkspaceId?: string
+  onAdd: (path: string, name: string) => Promise<boolean>
+  onUpdate: (id: string, changes: { name?: string; color?: WorkspaceColor; hidden?: boolean }) => void
+  onReorder: (ids: string[]) => void
+  onRemove: (workspace: Workspace) => void
+  isSaving: boolean
+}
+
+const NO_COLOR = "_none"
+
+export function WorkspaceManagerDialog({
+  open,
+  onOpenChange,
+  workspaces,
+  currentWorkspaceId,
+  onAdd,
+  onUpdate,
+  onReorder,
+  onRemove,
+  isSaving,
+}: WorkspaceManagerDialogProps) {
+  const [path, setPath] = useState("")
+  const [name, setName] = useState("")
+
+  const handleAdd = async () => {
+    if (!path.trim()) return
+    if (await onAdd(path.trim(), name.trim())) {
+      setPath("")
+      setName("")
+    }
+  }
+
+  const move = (index: number, offset: number) => {
+    const ids = workspaces.map(ws => ws.id)
+    const [id] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, id)
+    onReorder(ids)
+  }
+
+  const commitName = (workspace: Workspace, value: string) => {
+    if (value.trim() !== workspace.name) onUpdate(workspace.id, { name: value })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Workspaces
+            {isSaving && <Spinner className="h-4 w-4" />}
+          </DialogTitle>
+          <DialogDescription>
+            Workspaces from bd&apos;s registry and the current directory, plus any you add here.
+            Settings are saved in ~/.config/beads-ui/workspaces.json.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto divide-y divide-border/50 rounded-md border border-border/50">
+          {workspaces.length === 0 && (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">No workspaces</div>
+          )}
+          {workspaces.map((workspace, index) => (
+            <div key={workspace.id} className={cn("flex items-center gap-2 px-3 py-2", workspace.hidden && "opacity-60")}>
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  disabled={index === 0 || isSaving}
+                  onClick={() => move(index, -1)}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  disabled={index === workspaces.length - 1 || isSaving}
+                  onClick={() => move(index, 1)}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </button>
+              </div>
+
+              <Select
+                value={workspace.color ?? NO_COLOR}
+                onValueChange={(color) => onUpdate(workspace.id, { color: color === NO_COLOR ? undefined : color as WorkspaceColor })}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="h-8 w-14 px-2" title="Color">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COLOR}>
+                    <span className="w-2.5 h-2.5 rounded-full border border-border" />
+                  </SelectItem>
+                  {(Object.keys(WORKSPACE_COLORS) as WorkspaceColor[]).map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <span className={cn("w-2.5 h-2.5 rounded-full", WORKSPACE_COLORS[color])} />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <Input
+                  // Remount when the saved name changes so the field shows it
+                  key={workspace.name}
+                  defaultValue={workspace.name}
+                  onBlur={(e) => commitName(workspace, e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  className="h-7 text-sm"
+                  disabled={isSaving}
+                />
+                <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                  {workspace.missing && (
+                    <span className="flex items-center gap-0.5 text-amber-500 shrink-0" title="Database not found">
+                      <AlertTriangle className="h-3 w-3" />
+                      missing
+                    </span>
+                  )}
+                  {workspace.added && <span className="shrink-0 italic">added</span>}
+                  {workspace.id === currentWorkspaceId && <span className="shrink-0 italic">current</span>}
+                  <span className="truncate font-mono" title={workspace.databasePath}>
+                    {workspace.path ?? workspace.databasePath}
+                  </span>
+                </div>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title={workspace.hidden ? "Show in header" : "Hide from header"}
+                disabled={isSaving}
+                onClick={() => onUpdate(workspace.id, { hidden: !workspace.hidden })}
+              >
+                {workspace.hidden ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 hover:text-red-400"
+                title={workspace.added ? "Remove" : "Remove from the list"}
+                disabled={isSaving || (!workspace.added && !workspace.missing)}
+                onClick={() => onRemove(workspace)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Add a workspace</p>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="~/projects/my-app or path/to/beads.db"
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              className="h-8 flex-1 font-mono text-xs"
+              disabled={isSaving}
+            />
+            <Input
+              placeholder="Name (optional)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              className="h-8 w-40 text-xs"
+              disabled={isSaving}
+            />
+            <Button size="sm" variant="outline" className="h-8" onClick={handleAdd} disabled={!path.trim() || isSaving}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
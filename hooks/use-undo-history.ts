@@ -0,0 +1,87 @@
+"use client"
+
+import { useCallback, useRef } from "react"
+import { toast } from "sonner"
+import type { BdErrorCode } from "@/lib/bd-error"
+import { toastActionError } from "@/lib/error-toast"
+
+type ActionResult = { success: boolean; error?: string; code?: BdErrorCode }
+
+// A recorded mutation and how to reverse it
+export interface UndoEntry {
+  label: string // e.g. "Status of bd-12 set to closed"
+  undo: () => Promise<ActionResult>
+  redo: () => Promise<ActionResult>
+}
+
+interface UseUndoHistoryOptions {
+  onApplied?: () => void // Called after an undo/redo so the UI can reload
+}
+
+const MAX_HISTORY = 100
+
+// Client-side command history for bead mutations
+export function useUndoHistory({ onApplied }: UseUndoHistoryOptions = {}) {
+  const undoStackRef = useRef<UndoEntry[]>([])
+  const redoStackRef = useRef<UndoEntry[]>([])
+  const isApplyingRef = useRef(false)
+  const onAppliedRef = useRef(onApplied)
+  onAppliedRef.current = onApplied
+
+  // Undo or redo an entry (defaults to the most recent one)
+  const apply = useCallback(async (direction: "undo" | "redo", entry?: UndoEntry) => {
+    if (isApplyingRef.current) return
+    const from = direction === "undo" ? undoStackRef.current : redoStackRef.current
+    const to = direction === "undo" ? redoStackRef.current : undoStackRef.current
+
+    const target = entry ?? from[from.length - 1]
+    const index = target ? from.lastIndexOf(target) : -1
+    if (index === -1) {
+      if (!entry) toast(direction === "undo" ? "Nothing to undo" : "Nothing to redo")
+      return
+    }
+    from.splice(index, 1)
+
+    isApplyingRef.current = true
+    try {
+      const result = await (direction === "undo" ? target.undo() : target.redo())
+      if (result.success) {
+        to.push(target)
+        const opposite = direction === "undo" ? "redo" : "undo"
+        toast.success(`${direction === "undo" ? "Undid" : "Redid"}: ${target.label}`, {
+          action: {
+            label: opposite === "undo" ? "Undo" : "Redo",
+            onClick: () => { apply(opposite, target) },
+          },
+        })
+      } else {
+        // Keep the entry so it can be retried
+        from.push(target)
+        toastActionError(`Couldn't ${direction}: ${target.label}`, result, () => { apply(direction, target) })
+      }
+    } finally {
+      isApplyingRef.current = false
+      onAppliedRef.current?.()
+    }
+  }, [])
+
+  // Record a successful mutation and offer an Undo button
+  const record = useCallback((entry: UndoEntry) => {
+    undoStackRef.current.push(entry)
+    if (undoStackRef.current.length > MAX_HISTORY) undoStackRef.current.shift()
+    redoStackRef.current = []
+    toast.success(entry.label, {
+      action: { label: "Undo", onClick: () => { apply("undo", entry) } },
+    })
+  }, [apply])
+
+  const undo = useCallback(() => apply("undo"), [apply])
+  const redo = useCallback(() => apply("redo"), [apply])
+
+  const clear = useCallback(() => {
+    undoStackRef.current = []
+    redoStackRef.current = []
+  }, [])
+
+  return { record, undo, redo, clear }
+}
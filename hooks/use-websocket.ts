@@ -1,50 +1,53 @@
 "use client"
 
-import { useEffect, useRef, useCallback } from "react"
+import { useEffect, useRef } from "react"
 
 interface UseWebSocketOptions {
-  dbPath?: string
+  dbPath?: string | string[] // Several in the all-workspaces view (one connection each)
   onChange?: () => void
   enabled?: boolean
 }
 
 export function useWebSocket({ dbPath, onChange, enabled = true }: UseWebSocketOptions) {
-  const wsRef = useRef<WebSocket | null>(null)
   const onChangeRef = useRef(onChange)
-  const reconnectRef = useRef<NodeJS.Timeout | null>(null)
 
   useEffect(() => {
     onChangeRef.current = onChange
   }, [onChange])
 
-  const connect = useCallback(() => {
-    if (!enabled || !dbPath) return
-    wsRef.current?.close()
-    if (reconnectRef.current) clearTimeout(reconnectRef.current)
-
-    const wsPort = process.env.NEXT_PUBLIC_WS_PORT || "3001"
-    const ws = new WebSocket(`ws://localhost:${wsPort}?db=${encodeURIComponent(dbPath)}`)
-    wsRef.current = ws
-
-    ws.onmessage = (e) => {
-      try {
-        const data = JSON.parse(e.data)
-        if (data.type === "change") onChangeRef.current?.()
-      } catch {
-        // Ignore parse errors
+  // Stable key so a new array with the same paths doesn't reconnect
+  const pathsKey = (Array.isArray(dbPath) ? dbPath : dbPath ? [dbPath] : []).join("\n")
+
+  useEffect(() => {
+    if (!enabled || !pathsKey) return
+    const sockets = new Map<string, WebSocket>()
+    const reconnects = new Map<string, NodeJS.Timeout>()
+    let closed = false
+
+    const connect = (path: string) => {
+      const wsPort = process.env.NEXT_PUBLIC_WS_PORT || "3001"
+      const ws = new WebSocket(`ws://localhost:${wsPort}?db=${encodeURIComponent(path)}`)
+      sockets.set(path, ws)
+
+      ws.onmessage = (e) => {
+        try {
+          const data = JSON.parse(e.data)
+          if (data.type === "change") onChangeRef.current?.()
+        } catch {
+          // Ignore parse errors
+        }
       }
-    }
 
-    ws.onclose = () => {
-      reconnectRef.current = setTimeout(() => enabled && connect(), 3000)
+      ws.onclose = () => {
+        if (!closed) reconnects.set(path, setTimeout(() => connect(path), 3000))
+      }
     }
-  }, [dbPath, enabled])
 
-  useEffect(() => {
-    connect()
+    pathsKey.split("\n").forEach(connect)
     return () => {
-      if (reconnectRef.current) clearTimeout(reconnectRef.current)
-      wsRef.current?.close()
+      closed = true
+      reconnects.forEach(clearTimeout)
+      sockets.forEach(ws => ws.close())
     }
-  }, [connect])
+  }, [pathsKey, enabled])
 }
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+const POLL_INTERVAL_MS = 400
+
+// Number of bd writes queued on the server for a database (summed for several)
+// Polls only while `active` (e.g. a mutation transition is pending), then checks once more to settle
+export function useWriteQueueDepth(dbPath: string | string[] | undefined, active: boolean): number {
+  const [depth, setDepth] = useState(0)
+  const dbPaths = (Array.isArray(dbPath) ? dbPath : dbPath ? [dbPath] : []).join("\n")
+
+  useEffect(() => {
+    let cancelled = false
+    const params = new URLSearchParams(dbPaths ? dbPaths.split("\n").map(path => ["db", path]) : []).toString()
+    const query = params ? `?${params}` : ""
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/bd/queue${query}`)
+        const data = await res.json() as { depth?: number }
+        if (!cancelled) setDepth(data.depth ?? 0)
+      } catch {
+        // Server unreachable - keep the last known depth
+      }
+    }
+
+    poll()
+    if (!active) return () => { cancelled = true }
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [dbPaths, active])
+
+  return depth
+}
@@ -0,0 +1,140 @@
+// Typed errors for bd command failures.
+// Shared by server (classification) and client (messages and retry hints), so no Node imports here.
+
+import type { BdBead } from "@/lib/bd"
+
+export type BdErrorCode =
+  | "binary_not_found" // bd isn't installed or BD_PATH is wrong
+  | "database_locked"  // Another process holds the SQLite write lock
+  | "not_found"        // The bead (or comment) doesn't exist
+  | "validation"       // bd rejected the arguments (bad status, priority, flag...)
+  | "timeout"          // bd didn't finish in time
+  | "conflict"         // The bead changed since the editor loaded it
+  | "unknown"
+
+interface BdErrorInfo {
+  message: string   // Fallback message when bd gave nothing useful
+  hint?: string     // What the user can do about it
+  retryable: boolean
+}
+
+export const bdErrorInfo: Record<BdErrorCode, BdErrorInfo> = {
+  binary_not_found: {
+    message: "bd executable not found",
+    hint: "Install bd or set BD_PATH to its location, then restart the server.",
+    retryable: false,
+  },
+  database_locked: {
+    message: "The database is locked by another process",
+    hint: "Another bd command is writing. Try again in a moment.",
+    retryable: true,
+  },
+  not_found: {
+    message: "Bead not found",
+    hint: "It may have been deleted elsewhere. Refresh to update the list.",
+    retryable: false,
+  },
+  validation: {
+    message: "bd rejected the request",
+    retryable: false,
+  },
+  timeout: {
+    message: "bd took too long to respond",
+    hint: "The database may be busy or very large. Try again.",
+    retryable: true,
+  },
+  conflict: {
+    message: "This bead was changed elsewhere",
+    hint: "Compare both versions before saving.",
+    retryable: false,
+  },
+  unknown: {
+    message: "bd command failed",
+    retryable: true,
+  },
+}
+
+export class BdError extends Error {
+  code: BdErrorCode
+  exitCode?: number
+  stderr?: string
+
+  constructor(code: BdErrorCode, message: string, options: { exitCode?: number; stderr?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = "BdError"
+    this.code = code
+    this.exitCode = options.exitCode
+    this.stderr = options.stderr
+  }
+}
+
+// A write was rejected because the bead changed since the client read it
+export class BdConflictError extends BdError {
+  current: BdBead // The bead as it is now
+
+  constructor(current: BdBead) {
+    super("conflict", `${current.id} was changed elsewhere`)
+    this.name = "BdConflictError"
+    this.current = current
+  }
+}
+
+// Stderr patterns per error code, checked in order
+const STDERR_PATTERNS: [BdErrorCode, RegExp][] = [
+  ["database_locked", /database is locked|SQLITE_BUSY|database table is locked/i],
+  ["not_found", /not found|no issue found|no such issue|does not exist/i],
+  ["validation", /invalid|unknown flag|unknown command|required flag|must be|cannot be|not allowed|accepts \d+ arg/i],
+]
+
+// Pick the most useful line from bd's stderr (skipping warnings and usage dumps)
+function stderrMessage(stderr: string): string | undefined {
+  const lines = stderr
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line && !/^warning/i.test(line) && !line.includes("Staleness check skipped"))
+  const errorLine = lines.find(line => /^error:?/i.test(line)) ?? lines[0]
+  return errorLine?.replace(/^error:?\s*/i, "")
+}
+
+// Classify a failure from execFile (or anything thrown around a bd call)
+export function classifyBdError(error: unknown): BdError {
+  if (error instanceof BdError) return error
+
+  const execError = error as {
+    code?: string | number
+    killed?: boolean
+    signal?: string | null
+    stderr?: string
+    message?: string
+  }
+  const stderr = execError.stderr?.trim() ?? ""
+  const exitCode = typeof execError.code === "number" ? execError.code : undefined
+  const options = { exitCode, stderr: stderr || undefined, cause: error }
+
+  if (execError.code === "ENOENT") {
+    return new BdError("binary_not_found", bdErrorInfo.binary_not_found.message, options)
+  }
+  if (execError.code === "ETIMEDOUT" || (execError.killed && execError.signal === "SIGTERM")) {
+    return new BdError("timeout", bdErrorInfo.timeout.message, options)
+  }
+
+  const message = stderrMessage(stderr)
+  const haystack = stderr || execError.message || ""
+  for (const [code, pattern] of STDERR_PATTERNS) {
+    if (pattern.test(haystack)) {
+      return new BdError(code, message ?? bdErrorInfo[code].message, options)
+    }
+  }
+
+  // Errors thrown by our own code (e.g. "Database path required") keep their message
+  const fallback = exitCode === undefined && execError.message && !execError.message.startsWith("Command failed")
+    ? execError.message
+    : bdErrorInfo.unknown.message
+  return new BdError("unknown", message ?? fallback, options)
+}
+
+// Shape a caught error for a server action result
+export function toActionError(error: unknown): { error: string; code: BdErrorCode } {
+  const bdError = classifyBdError(error)
+  return { error: bdError.message, code: bdError.code }
+}
@@ -1,8 +1,11 @@
 import { execFile } from "child_process"
 import { promisify } from "util"
 import { existsSync } from "fs"
-import { homedir } from "os"
+import { homedir, userInfo } from "os"
 import { join } from "path"
+import { BdConflictError, BdError, classifyBdError } from "@/lib/bd-error"
+import { resolveDbPath } from "@/lib/db"
+import type { BdCapabilities, BdInfo, BeadLink, ExpectedField } from "@/lib/types"
 
 const execFileAsync = promisify(execFile)
 
@@ -15,6 +18,9 @@ const COMMON_BD_PATHS = [
   "/usr/bin/bd",                    // System install
 ]
 
+// Kill bd commands that hang (e.g. waiting on a lock) after this long
+const BD_TIMEOUT_MS = 60_000
+
 // Cache the resolved bd path
 let resolvedBdPath: string | null = null
 
@@ -71,6 +77,7 @@ export interface BdBead {
   dependency_count?: number
   dependent_count?: number
   // Epic/parent-specific (from show command)
+  dependencies?: BdBead[]
   dependents?: BdBead[]
   total_children?: number
   closed_children?: number
@@ -83,6 +90,17 @@ export interface BdComment {
   created_at: string  // ISO date string
 }
 
+// A row of bd's events table (audit history, read through SQLite)
+export interface BdEvent {
+  id: number
+  event_type: string  // created, updated, status_changed, closed, reopened, label_added, dependency_added, ...
+  actor: string
+  old_value?: string | null  // Plain value, or the bead as JSON before an update
+  new_value?: string | null  // Plain value, or the updated fields as JSON
+  comment?: string | null    // Close reason, or bd's description of the change
+  created_at: string  // ISO date string
+}
+
 export interface BdEpicStatus {
   id: string
   title: string
@@ -99,9 +117,106 @@ export interface BdWorkspace {
   started_at: string
 }
 
+// Version detection and capability negotiation.
+// Features bdui relies on that only exist in some bd releases. Rather than trusting version
+// numbers, each one is probed on the installed bd: its help must list the flag or type
+// (custom statuses: the config command must exist).
+// A probe that can't run assumes the feature is available (the behavior before detection existed).
+
+// Help text for a bd command, or null if it can't be read
+async function readHelp(args: string[]): Promise<string | null> {
+  try {
+    const { stdout, stderr } = await execFileAsync(getBdPath(), [...args, "--help"], { timeout: 10_000 })
+    return stdout + stderr
+  } catch {
+    return null
+  }
+}
+
+// Custom statuses live in the status.custom config key; only a bd without the config command lacks them
+async function hasConfigCommand(): Promise<boolean> {
+  try {
+    await execFileAsync(getBdPath(), ["config", "get", "status.custom"], { timeout: 10_000 })
+    return true
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr ?? ""
+    return !/unknown command/i.test(stderr)
+  }
+}
+
+async function hasSqliteCli(): Promise<boolean> {
+  try {
+    await execFileAsync("sqlite3", ["-version"], { timeout: 5_000 })
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function detectBdInfo(): Promise<BdInfo> {
+  let version: string | null = null
+  try {
+    // e.g. "bd version 0.29.0 (dev)"
+    const { stdout } = await execFileAsync(getBdPath(), ["version"], { timeout: 10_000 })
+    version = stdout.match(/(\d+\.\d+\.\d+)/)?.[1] ?? null
+  } catch (error) {
+    console.error("Failed to detect bd version:", (error as Error).message)
+  }
+
+  const [rootHelp, depListHelp, createHelp, customStatuses, commentDeletion] = await Promise.all([
+    readHelp([]),
+    readHelp(["dep", "list"]),
+    readHelp(["create"]),
+    hasConfigCommand(),
+    hasSqliteCli(),
+  ])
+  const lists = (help: string | null, pattern: RegExp) => help === null || pattern.test(help)
+  // The --type flag's help lists the issue types bd accepts
+  const typeFlag = createHelp?.split("\n").find(line => /--type\b/.test(line))
+
+  const capabilities: BdCapabilities = {
+    noDaemon: lists(rootHelp, /--no-daemon\b/),
+    allowStale: lists(rootHelp, /--allow-stale\b/),
+    depDirection: lists(depListHelp, /--direction\b/),
+    customStatuses,
+    messageType: !typeFlag || /\bmessage\b/.test(typeFlag),
+    commentDeletion,
+  }
+  return { version, capabilities }
+}
+
+// Cache detection for the life of the server (one bd binary per process)
+let bdInfoPromise: Promise<BdInfo> | null = null
+
+// Installed bd version and what it supports
+export function getBdInfo(): Promise<BdInfo> {
+  bdInfoPromise ??= detectBdInfo()
+  return bdInfoPromise
+}
+
+let actorPromise: Promise<string> | null = null
+
+// The name bd records as the actor: BD_ACTOR, then git user.name, then the OS user
+export function getActor(): Promise<string> {
+  actorPromise ??= (async () => {
+    if (process.env.BD_ACTOR) return process.env.BD_ACTOR
+    try {
+      const { stdout } = await execFileAsync("git", ["config", "user.name"], { timeout: 5_000 })
+      if (stdout.trim()) return stdout.trim()
+    } catch {
+      // No git or no user.name configured
+    }
+    return userInfo().username
+  })()
+  return actorPromise
+}
+
 // Build argument array for bd command (prevents command injection)
-function buildArgs(args: string[], options: BdOptions, includeJson: boolean): string[] {
-  const result: string[] = ["--no-daemon", "--allow-stale"] // Skip daemon and staleness check
+function buildArgs(args: string[], options: BdOptions, includeJson: boolean, capabilities: BdCapabilities): string[] {
+  const result: string[] = []
+  // Skip daemon and staleness check where bd supports it
+  if (capabilities.noDaemon) result.push("--no-daemon")
+  if (capabilities.allowStale) result.push("--allow-stale")
   if (options.db) {
     result.push("--db", options.db)
   }
@@ -114,12 +229,14 @@ function buildArgs(args: string[], options: BdOptions, includeJson: boolean): st
 
 // Execute a bd command and return parsed JSON
 async function bdExec<T>(args: string[], options: BdOptions = {}): Promise<T> {
-  const execArgs = buildArgs(args, options, true)
+  const { capabilities } = await getBdInfo()
+  const execArgs = buildArgs(args, options, true, capabilities)
 
   try {
     const { stdout, stderr } = await execFileAsync(getBdPath(), execArgs, {
       cwd: options.cwd,
       maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      timeout: BD_TIMEOUT_MS,
     })
 
     if (stderr && !stderr.includes("Warning") && !stderr.includes("Staleness check skipped")) {
@@ -131,27 +248,164 @@ async function bdExec<T>(args: string[], options: BdOptions = {}): Promise<T> {
     const execError = error as { stdout?: string; stderr?: string; message?: string }
     // Suppress "context canceled" errors during shutdown
     if (execError.message?.includes("context canceled") || execError.stderr?.includes("context canceled")) {
-      throw error
+      throw classifyBdError(error)
     }
     console.error("bd command failed: bd", execArgs.join(" "))
     console.error("Error:", execError.message)
     if (execError.stderr) {
       console.error("Stderr:", execError.stderr)
     }
-    throw error
+    throw classifyBdError(error)
   }
 }
 
 // Execute a bd command that doesn't return JSON
 async function bdExecRaw(args: string[], options: BdOptions = {}): Promise<string> {
-  const execArgs = buildArgs(args, options, false)
+  const { capabilities } = await getBdInfo()
+  const execArgs = buildArgs(args, options, false, capabilities)
 
-  const { stdout } = await execFileAsync(getBdPath(), execArgs, {
-    cwd: options.cwd,
-    maxBuffer: 10 * 1024 * 1024,
+  try {
+    const { stdout } = await execFileAsync(getBdPath(), execArgs, {
+      cwd: options.cwd,
+      maxBuffer: 10 * 1024 * 1024,
+      timeout: BD_TIMEOUT_MS,
+    })
+    return stdout.trim()
+  } catch (error) {
+    throw classifyBdError(error)
+  }
+}
+
+// Per-database write queue.
+// bd runs with --no-daemon, so concurrent writers race for the SQLite lock ("database is locked").
+// Mutations against one database run one at a time in FIFO order. A queued update to the same
+// field of the same bead replaces the earlier one (last write wins) and both callers get its result.
+
+interface WriteTarget {
+  ids: string[]    // Beads the write touches
+  field?: string   // Set for single-field updates that may be coalesced
+}
+
+interface QueuedWrite {
+  target: WriteTarget
+  run: () => Promise<unknown>
+  waiters: { resolve: (value: unknown) => void; reject: (error: unknown) => void }[]
+}
+
+interface WriteQueue {
+  pending: QueuedWrite[]
+  running: boolean
+}
+
+// Kept on globalThis so server actions and route handlers share the same queues
+const globalForBd = globalThis as typeof globalThis & { bdWriteQueues?: Map<string, WriteQueue> }
+const writeQueues = (globalForBd.bdWriteQueues ??= new Map<string, WriteQueue>())
+
+// Queue keys by options, resolved once per process. A promise per key keeps writes issued in order
+// for the same options in that order (they all wait on the same resolution).
+const queueKeys = new Map<string, Promise<string>>()
+
+// Key a queue by the database file bd will open, so an explicit --db and the default database
+// it resolves to share one queue; the raw option when discovery finds nothing
+function getQueueKey(options: BdOptions): Promise<string> {
+  const raw = options.db ?? options.cwd ?? ""
+  let key = queueKeys.get(raw)
+  if (!key) {
+    key = resolveDbPath(options.db, options.cwd).then(path => path ?? raw, () => raw)
+    queueKeys.set(raw, key)
+  }
+  return key
+}
+
+async function getWriteQueue(options: BdOptions): Promise<WriteQueue> {
+  const key = await getQueueKey(options)
+  let queue = writeQueues.get(key)
+  if (!queue) {
+    queue = { pending: [], running: false }
+    writeQueues.set(key, queue)
+  }
+  return queue
+}
+
+// Find a pending write the new one can replace: the latest pending write for the bead,
+// if it updates the same field (anything later for that bead must still run after it)
+function findCoalescable(queue: WriteQueue, target: WriteTarget): QueuedWrite | undefined {
+  if (!target.field || target.ids.length !== 1) return undefined
+  const [id] = target.ids
+  for (let i = queue.pending.length - 1; i >= 0; i--) {
+    const write = queue.pending[i]
+    if (!write.target.ids.includes(id)) continue
+    return write.target.field === target.field && write.target.ids.length === 1 ? write : undefined
+  }
+  return undefined
+}
+
+async function drainWriteQueue(queue: WriteQueue): Promise<void> {
+  if (queue.running) return
+  queue.running = true
+  while (queue.pending.length > 0) {
+    const write = queue.pending.shift()!
+    try {
+      const result = await write.run()
+      write.waiters.forEach(w => w.resolve(result))
+    } catch (error) {
+      write.waiters.forEach(w => w.reject(error))
+    }
+  }
+  queue.running = false
+}
+
+// Queue a mutation for the database in options
+async function enqueueWrite<T>(options: BdOptions, target: WriteTarget, run: () => Promise<T>): Promise<T> {
+  const queue = await getWriteQueue(options)
+  return new Promise<T>((resolve, reject) => {
+    const waiter = { resolve: resolve as (value: unknown) => void, reject }
+    const existing = findCoalescable(queue, target)
+    if (existing) {
+      existing.run = run
+      existing.waiters.push(waiter)
+    } else {
+      queue.pending.push({ target, run, waiters: [waiter] })
+    }
+    drainWriteQueue(queue)
   })
+}
+
+// Text fields that support conflict checks
+type ExpectableField = "title" | "description" | "design" | "acceptance_criteria" | "notes" | "external_ref" | "assignee" | "status"
 
-  return stdout.trim()
+// Reject the write if someone else changed the field since the editor started.
+// A newer updated_at alone isn't a conflict (another field may have changed); the field must differ too.
+async function assertUnchanged(id: string, field: ExpectableField, expected: ExpectedField, options: BdOptions): Promise<void> {
+  const current = await showBead(id, options)
+  if (!current) throw new BdError("not_found", `${id} not found`)
+  const sameVersion = new Date(current.updated_at).getTime() === new Date(expected.updatedAt).getTime()
+  if (!sameVersion && (current[field] ?? "") !== expected.value) {
+    throw new BdConflictError(current)
+  }
+}
+
+// Execute a mutating bd command through the write queue
+// With `expected`, the bead is re-read inside the queue (so no other queued write can interleave)
+async function bdWrite(
+  args: string[],
+  options: BdOptions,
+  target: WriteTarget,
+  expected?: ExpectedField
+): Promise<string> {
+  return enqueueWrite(options, target, async () => {
+    if (expected && target.field) {
+      await assertUnchanged(target.ids[0], target.field as ExpectableField, expected, options)
+    }
+    return bdExecRaw(args, options)
+  })
+}
+
+// Number of queued or running writes for a database (for the "saving" indicator)
+export async function getWriteQueueDepth(options: BdOptions = {}): Promise<number> {
+  const queue = writeQueues.get(await getQueueKey(options))
+  if (!queue) return 0
+  return queue.pending.length + (queue.running ? 1 : 0)
 }
 
 // List all epics
@@ -184,7 +438,7 @@ export async function getComments(id: string, options: BdOptions = {}): Promise<
 
 // Add a comment to a bead
 export async function addComment(id: string, text: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["comment", id, text], options)
+  await bdWrite(["comment", id, text], options, { ids: [id] })
 }
 
 // Delete a comment by ID (direct SQLite since bd CLI doesn't support this)
@@ -193,10 +447,48 @@ export async function deleteComment(commentId: string | number, options: BdOptio
   if (!dbPath) {
     throw new Error("Database path required for deleteComment")
   }
+  const { capabilities } = await getBdInfo()
+  if (!capabilities.commentDeletion) {
+    throw new BdError("validation", "Deleting comments requires the sqlite3 CLI")
+  }
   const { execSync } = await import("child_process")
   const idStr = String(commentId).replace(/'/g, "''")
   const sql = `DELETE FROM comments WHERE id = '${idStr}'`
-  execSync(`sqlite3 "${dbPath}" "${sql}"`, { encoding: "utf-8" })
+  await enqueueWrite(options, { ids: [] }, async () => {
+    execSync(`sqlite3 "${dbPath}" "${sql}"`, { encoding: "utf-8" })
+  })
+}
+
+// Fields accepted by bd create
+export interface BdCreateInput {
+  title: string
+  type: "bug" | "feature" | "task" | "epic" | "chore"
+  priority: number
+  assignee?: string
+  labels?: string[]
+  parent?: string
+  description?: string
+}
+
+// Create a new bead (returns the created bead)
+export async function createBead(input: BdCreateInput, options: BdOptions = {}): Promise<BdBead> {
+  // Title as a flag value: a positional title starting with "-" would be parsed as a flag
+  const args = ["create", "--title", input.title, "--type", input.type, "--priority", input.priority.toString()]
+  if (input.assignee) {
+    args.push("--assignee", input.assignee)
+  }
+  if (input.labels && input.labels.length > 0) {
+    args.push("--labels", input.labels.join(","))
+  }
+  if (input.parent) {
+    args.push("--parent", input.parent)
+  }
+  if (input.description) {
+    args.push("--description", input.description)
+  }
+  const result = await enqueueWrite(options, { ids: [] }, () => bdExec<BdBead | BdBead[]>(args, options))
+  // Some bd versions wrap the created bead in an array
+  return Array.isArray(result) ? result[0] : result
 }
 
 // Update bead status
@@ -205,41 +497,127 @@ export async function updateStatus(
   status: string,
   options: BdOptions = {}
 ): Promise<void> {
-  await bdExecRaw(["update", id, "--status", status], options)
+  await bdWrite(["update", id, "--status", status], options, { ids: [id], field: "status" })
 }
 
-// Get custom statuses from bd config
-export async function getCustomStatuses(options: BdOptions = {}): Promise<string[]> {
+// Read a bd config value (null when the key isn't set)
+export async function getConfig(key: string, options: BdOptions = {}): Promise<string | null> {
   try {
-    const result = await bdExecRaw(["config", "get", "status.custom"], options)
-    // Result may be a comma-separated list or single status
-    const trimmed = result.trim()
-    if (!trimmed) return []
-    return trimmed.split(",").map(s => s.trim()).filter(Boolean)
+    const result = (await bdExecRaw(["config", "get", key], options)).trim()
+    return result || null
   } catch {
     // Config key doesn't exist or other error
-    return []
+    return null
+  }
+}
+
+// Write a bd config value (queued with the other writes to this database)
+export async function setConfig(key: string, value: string, options: BdOptions = {}): Promise<void> {
+  await bdWrite(["config", "set", key, value], options, { ids: [] })
+}
+
+// Get custom statuses from bd config
+export async function getCustomStatuses(options: BdOptions = {}): Promise<string[]> {
+  const { capabilities } = await getBdInfo()
+  if (!capabilities.customStatuses) return []
+  // Result may be a comma-separated list or single status
+  const result = await getConfig("status.custom", options)
+  if (!result) return []
+  return result.split(",").map(s => s.trim()).filter(Boolean)
+}
+
+// Set the custom statuses bd accepts, in workflow order
+export async function setCustomStatuses(statuses: string[], options: BdOptions = {}): Promise<void> {
+  if (statuses.length === 0) {
+    await bdWrite(["config", "unset", "status.custom"], options, { ids: [] })
+  } else {
+    await setConfig("status.custom", statuses.join(","), options)
   }
 }
 
 // Update bead priority (0=critical, 1=high, 2=medium, 3=low, 4=none)
 export async function updatePriority(id: string, priority: number, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--priority", priority.toString()], options)
+  await bdWrite(["update", id, "--priority", priority.toString()], options, { ids: [id], field: "priority" })
 }
 
 // Update bead assignee
 export async function updateAssignee(id: string, assignee: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--assignee", assignee], options)
+  await bdWrite(["update", id, "--assignee", assignee], options, { ids: [id], field: "assignee" })
+}
+
+// Assign a bead and start it, unless its assignee or status changed since it was loaded
+// (someone else claimed it first). Both are checked inside the write queue, like single-field saves.
+export async function claimBead(
+  id: string,
+  assignee: string,
+  expected: { assignee: ExpectedField; status: ExpectedField },
+  options: BdOptions = {}
+): Promise<void> {
+  await enqueueWrite(options, { ids: [id] }, async () => {
+    await assertUnchanged(id, "assignee", expected.assignee, options)
+    await assertUnchanged(id, "status", expected.status, options)
+    return bdExecRaw(["update", id, "--assignee", assignee, "--status", "in_progress"], options)
+  })
 }
 
 // Update bead title
-export async function updateTitle(id: string, title: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--title", title], options)
+export async function updateTitle(
+  id: string,
+  title: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--title", title], options, { ids: [id], field: "title" }, expected)
 }
 
 // Update bead description
-export async function updateDescription(id: string, description: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--description", description], options)
+export async function updateDescription(
+  id: string,
+  description: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--description", description], options, { ids: [id], field: "description" }, expected)
+}
+
+// Update bead design notes
+export async function updateDesign(
+  id: string,
+  design: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--design", design], options, { ids: [id], field: "design" }, expected)
+}
+
+// Update bead acceptance criteria
+export async function updateAcceptanceCriteria(
+  id: string,
+  acceptance: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--acceptance", acceptance], options, { ids: [id], field: "acceptance_criteria" }, expected)
+}
+
+// Update bead notes
+export async function updateNotes(
+  id: string,
+  notes: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--notes", notes], options, { ids: [id], field: "notes" }, expected)
+}
+
+// Update bead external reference (e.g. gh-123, JIRA-456)
+export async function updateExternalRef(
+  id: string,
+  externalRef: string,
+  options: BdOptions = {},
+  expected?: ExpectedField
+): Promise<void> {
+  await bdWrite(["update", id, "--external-ref", externalRef], options, { ids: [id], field: "external_ref" }, expected)
 }
 
 // Update bead type
@@ -248,22 +626,63 @@ export async function updateType(
   type: "bug" | "feature" | "task" | "epic" | "chore",
   options: BdOptions = {}
 ): Promise<void> {
-  await bdExecRaw(["update", id, "--type", type], options)
+  await bdWrite(["update", id, "--type", type], options, { ids: [id], field: "type" })
 }
 
 // Close a bead
 export async function closeBead(id: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["close", id], options)
+  await bdWrite(["close", id], options, { ids: [id] })
 }
 
 // Reopen a bead
 export async function reopenBead(id: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--status", "open"], options)
+  await bdWrite(["update", id, "--status", "open"], options, { ids: [id], field: "status" })
 }
 
 // Delete a bead
 export async function deleteBead(id: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["delete", id, "--force"], options)
+  await bdWrite(["delete", id, "--force"], options, { ids: [id] })
+}
+
+// Dependency edges of each bead in either direction, keyed by bead (the ones bd drops on delete)
+export async function listLinks(ids: string[], options: BdOptions = {}): Promise<Record<string, BeadLink[]>> {
+  const links: Record<string, BeadLink[]> = {}
+  for (const bead of await showBeads(ids, options)) {
+    links[bead.id] = [
+      ...(bead.dependencies ?? []).map(d => ({ id: bead.id, dependsOnId: d.id, type: d.dependency_type ?? "blocks" })),
+      ...(bead.dependents ?? []).map(d => ({ id: d.id, dependsOnId: bead.id, type: d.dependency_type ?? "blocks" })),
+    ]
+  }
+  return links
+}
+
+// Restore a deleted (tombstoned) bead to its previous status and parent, then re-add the
+// dependencies recorded before the delete (other than the parent edge)
+// Only works while the tombstone exists
+export async function restoreBead(
+  id: string,
+  status: string,
+  parentId: string | null,
+  links: BeadLink[] = [],
+  options: BdOptions = {}
+): Promise<void> {
+  const args = ["update", id, "--status", status]
+  if (parentId) args.push("--parent", parentId)
+  await bdWrite(args, options, { ids: [id] })
+  for (const link of links) {
+    if (link.type === "parent-child" && link.id === id) continue
+    await addDependency(link.id, link.dependsOnId, link.type, options)
+  }
+}
+
+// List deleted (tombstoned) beads
+export async function listTombstones(options: BdOptions = {}): Promise<BdBead[]> {
+  return bdExec<BdBead[]>(["list", "--status", "tombstone", "--limit", "0"], options)
+}
+
+// Permanently delete a bead (skips the tombstone, cannot be restored)
+export async function purgeBead(id: string, options: BdOptions = {}): Promise<void> {
+  await bdWrite(["delete", id, "--force", "--hard"], options, { ids: [id] })
 }
 
 // List all beads (not just epics)
@@ -272,28 +691,30 @@ export async function listBeads(options: BdOptions = {}): Promise<BdBead[]> {
 }
 
 // Get beads that are ready (no blockers)
+// bd ready shows only the top 10 by default
 export async function listReady(options: BdOptions = {}): Promise<BdBead[]> {
-  return bdExec<BdBead[]>(["ready"], options)
+  return bdExec<BdBead[]>(["ready", "--limit", "0"], options)
 }
 
 // Map bd priority number to our priority type
-export function mapPriority(priority: number): "critical" | "high" | "medium" | "low" {
+// One-to-one for bd's 0-4 range so values round-trip; out-of-range values are clamped
+export function mapPriority(priority: number): "critical" | "high" | "medium" | "low" | "none" {
+  if (priority <= 0) return "critical"
   switch (priority) {
-    case 0:
-      return "critical"
     case 1:
       return "high"
     case 2:
       return "medium"
     case 3:
+      return "low"
     case 4:
     default:
-      return "low"
+      return "none"
   }
 }
 
 // Map our priority type to bd priority number
-export function unmapPriority(priority: "critical" | "high" | "medium" | "low"): number {
+export function unmapPriority(priority: "critical" | "high" | "medium" | "low" | "none"): number {
   switch (priority) {
     case "critical":
       return 0
@@ -303,6 +724,8 @@ export function unmapPriority(priority: "critical" | "high" | "medium" | "low"):
       return 2
     case "low":
       return 3
+    case "none":
+      return 4
   }
 }
 
@@ -315,7 +738,7 @@ export async function updateParent(
   const args = parentId
     ? ["update", id, "--parent", parentId]
     : ["update", id, "--parent", ""] // Empty string removes parent
-  await bdExecRaw(args, options)
+  await bdWrite(args, options, { ids: [id], field: "parent" })
 }
 
 // Map bd issue_type to our BeadType
@@ -354,16 +777,77 @@ export async function listDependencies(id: string, options: BdOptions = {}): Pro
 }
 
 // List dependents for a bead (beads that depend on this bead)
+// Older bd has no --direction flag, so fall back to the dependents in bd show
 export async function listDependents(id: string, options: BdOptions = {}): Promise<BdDependency[]> {
-  return bdExec<BdDependency[]>(["dep", "list", id, "--direction=up"], options)
+  const { capabilities } = await getBdInfo()
+  if (capabilities.depDirection) {
+    return bdExec<BdDependency[]>(["dep", "list", id, "--direction=up"], options)
+  }
+  const bead = await showBead(id, options)
+  return (bead.dependents ?? []).map(d => ({
+    id: d.id,
+    title: d.title,
+    status: d.status,
+    dependency_type: d.dependency_type ?? "blocks",
+  }))
 }
 
 // Add a label to a bead
 export async function addLabel(id: string, label: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--add-label", label], options)
+  await bdWrite(["update", id, "--add-label", label], options, { ids: [id], field: `label:${label}` })
 }
 
 // Remove a label from a bead
 export async function removeLabel(id: string, label: string, options: BdOptions = {}): Promise<void> {
-  await bdExecRaw(["update", id, "--remove-label", label], options)
+  await bdWrite(["update", id, "--remove-label", label], options, { ids: [id], field: `label:${label}` })
+}
+
+// Add a dependency: id depends on dependsOnId (e.g. dependsOnId blocks id)
+export async function addDependency(
+  id: string,
+  dependsOnId: string,
+  type: BdDependency["dependency_type"],
+  options: BdOptions = {}
+): Promise<void> {
+  await bdWrite(["dep", "add", id, dependsOnId, "--type", type], options, { ids: [id, dependsOnId] })
+}
+
+// Remove a dependency between id and dependsOnId
+export async function removeDependency(id: string, dependsOnId: string, options: BdOptions = {}): Promise<void> {
+  await bdWrite(["dep", "remove", id, dependsOnId], options, { ids: [id, dependsOnId] })
+}
+
+// Fields that can be applied to several beads in one bd update call
+export interface BdUpdateFields {
+  status?: string
+  priority?: number
+  assignee?: string
+  parent?: string | null // null removes parent
+  addLabels?: string[]
+  removeLabels?: string[]
+}
+
+// Update several beads at once with the same fields
+export async function updateBeads(ids: string[], fields: BdUpdateFields, options: BdOptions = {}): Promise<void> {
+  if (ids.length === 0) return
+  const args = ["update", ...ids]
+  if (fields.status !== undefined) args.push("--status", fields.status)
+  if (fields.priority !== undefined) args.push("--priority", fields.priority.toString())
+  if (fields.assignee !== undefined) args.push("--assignee", fields.assignee)
+  if (fields.parent !== undefined) args.push("--parent", fields.parent ?? "")
+  for (const label of fields.addLabels ?? []) args.push("--add-label", label)
+  for (const label of fields.removeLabels ?? []) args.push("--remove-label", label)
+  await bdWrite(args, options, { ids })
+}
+
+// Close several beads at once
+export async function closeBeads(ids: string[], options: BdOptions = {}): Promise<void> {
+  if (ids.length === 0) return
+  await bdWrite(["close", ...ids], options, { ids })
+}
+
+// Delete several beads at once
+export async function deleteBeads(ids: string[], options: BdOptions = {}): Promise<void> {
+  if (ids.length === 0) return
+  await bdWrite(["delete", ...ids, "--force"], options, { ids })
 }
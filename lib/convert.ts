@@ -0,0 +1,93 @@
+import { mapPriority, mapType, type BdBead, type BdComment, type BdEvent } from "@/lib/bd"
+import type { ActivityChange, ActivityEvent, Bead, Comment, BeadStatus, BeadPriority, BeadType } from "@/lib/types"
+
+// Convert bd ISO date string to Date
+export function toDate(isoString?: string): Date | undefined {
+  if (!isoString) return undefined
+  return new Date(isoString)
+}
+
+// Convert BdComment to Comment
+export function convertComment(bdComment: BdComment): Comment {
+  return {
+    id: bdComment.id,
+    author: bdComment.author,
+    content: bdComment.text,
+    timestamp: new Date(bdComment.created_at),
+  }
+}
+
+// Convert BdBead to Bead (without children/childEpics)
+export function convertBead(bdBead: BdBead, comments: Comment[] = []): Bead {
+  return {
+    id: bdBead.id,
+    type: mapType(bdBead.issue_type) as BeadType,
+    title: bdBead.title,
+    description: bdBead.description || "",
+    design: bdBead.design,
+    acceptanceCriteria: bdBead.acceptance_criteria,
+    notes: bdBead.notes,
+    externalRef: bdBead.external_ref,
+    status: bdBead.status as BeadStatus,
+    priority: mapPriority(bdBead.priority) as BeadPriority,
+    assignee: bdBead.assignee || "",
+    labels: bdBead.labels || [],
+    comments,
+    parentId: bdBead.parent,
+    createdAt: toDate(bdBead.created_at),
+    updatedAt: toDate(bdBead.updated_at),
+    closedAt: toDate(bdBead.closed_at),
+    deletedAt: toDate(bdBead.deleted_at),
+  }
+}
+
+// Long text fields show as edited, without their values
+const TEXT_FIELDS = ["description", "design", "acceptance_criteria", "notes"]
+// Bookkeeping fields bd writes alongside real changes
+const IGNORED_FIELDS = ["updated_at", "closed_at"]
+
+function parseJsonObject(value?: string | null): Record<string, unknown> | null {
+  if (!value?.startsWith("{")) return null
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function formatEventValue(field: string, value: unknown): string | undefined {
+  if (value === null || value === undefined || value === "") return undefined
+  if (field === "priority") return mapPriority(Number(value))
+  if (field === "issue_type") return mapType(String(value))
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+// Convert BdEvent to ActivityEvent.
+// Updates store the bead before (old_value) and the updated fields (new_value) as JSON;
+// other events store plain values or only a comment.
+export function convertEvent(bdEvent: BdEvent): ActivityEvent {
+  const before = parseJsonObject(bdEvent.old_value)
+  const after = parseJsonObject(bdEvent.new_value)
+  const changes: ActivityChange[] = []
+
+  if (after) {
+    for (const [field, value] of Object.entries(after)) {
+      if (IGNORED_FIELDS.includes(field)) continue
+      changes.push(TEXT_FIELDS.includes(field)
+        ? { field }
+        : { field, from: formatEventValue(field, before?.[field]), to: formatEventValue(field, value) })
+    }
+  } else if (bdEvent.event_type === "status_changed" && (bdEvent.old_value || bdEvent.new_value)) {
+    changes.push({ field: "status", from: bdEvent.old_value || undefined, to: bdEvent.new_value || undefined })
+  }
+
+  return {
+    id: String(bdEvent.id),
+    kind: bdEvent.event_type,
+    actor: bdEvent.actor,
+    timestamp: new Date(bdEvent.created_at),
+    changes,
+    text: bdEvent.comment || (after ? undefined : bdEvent.new_value || bdEvent.old_value) || undefined,
+  }
+}
@@ -1,7 +1,8 @@
-import { readFile, access, stat } from "fs/promises"
+import { readFile, writeFile, rename, mkdir, access, stat } from "fs/promises"
 import { constants } from "fs"
 import { join, dirname, basename, resolve, normalize, relative } from "path"
 import { homedir } from "os"
+import { emptyWorkspaceConfig, normalizeWorkspaceConfig, type WorkspaceConfig } from "@/lib/workspaces"
 
 // Get the list of allowed base directories for database paths
 function getAllowedBaseDirs(): string[] {
@@ -66,35 +67,38 @@ async function findNearestBeadsDir(startPath: string): Promise<string | null> {
   let current = resolve(startPath)
 
   while (current !== "/" && isPathWithinAllowedDirs(current)) {
-    const beadsDir = join(current, ".beads")
+    const dbPath = await findBeadsDbIn(current)
+    if (dbPath) return dbPath
+    current = dirname(current)
+  }
 
-    // Verify beadsDir is still within allowed directories before accessing
-    if (!isPathWithinAllowedDirs(beadsDir)) {
-      current = dirname(current)
-      continue
-    }
+  return null
+}
 
-    try {
-      const stats = await stat(beadsDir)
-      if (stats.isDirectory()) {
-        // Find the .db file in this directory
-        const { readdir } = await import("fs/promises")
-        const files = await readdir(beadsDir)
-        // Only accept .db files with safe names (no path separators)
-        const dbFile = files.find((f) => f.endsWith(".db") && !f.includes("/") && !f.includes("\\"))
-        if (dbFile) {
-          const dbPath = join(beadsDir, dbFile)
-          if (isValidDbPath(dbPath)) {
-            return dbPath
-          }
-        }
+// The .db file in <dir>/.beads, without looking at parent directories
+async function findBeadsDbIn(dir: string): Promise<string | null> {
+  const beadsDir = join(dir, ".beads")
+
+  // Verify beadsDir is within allowed directories before accessing
+  if (!isPathWithinAllowedDirs(beadsDir)) return null
+
+  try {
+    const stats = await stat(beadsDir)
+    if (!stats.isDirectory()) return null
+    // Find the .db file in this directory
+    const { readdir } = await import("fs/promises")
+    const files = await readdir(beadsDir)
+    // Only accept .db files with safe names (no path separators)
+    const dbFile = files.find((f) => f.endsWith(".db") && !f.includes("/") && !f.includes("\\"))
+    if (dbFile) {
+      const dbPath = join(beadsDir, dbFile)
+      if (isValidDbPath(dbPath)) {
+        return dbPath
       }
-    } catch {
-      // Directory doesn't exist, continue walking up
     }
-    current = dirname(current)
+  } catch {
+    // Directory doesn't exist
   }
-
   return null
 }
 
@@ -229,6 +233,51 @@ export async function detectWorkspaces(cwd?: string): Promise<Workspace[]> {
   return workspaces
 }
 
+// bdui's workspace settings (added workspaces, names, colors, order), separate from bd's registry
+const WORKSPACE_CONFIG_PATH = join(
+  process.env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+  "beads-ui",
+  "workspaces.json"
+)
+
+export async function readWorkspaceConfig(): Promise<WorkspaceConfig> {
+  try {
+    return normalizeWorkspaceConfig(JSON.parse(await readFile(WORKSPACE_CONFIG_PATH, "utf-8")))
+  } catch {
+    // No config yet or it's unreadable
+    return emptyWorkspaceConfig()
+  }
+}
+
+// Write via a temp file so a crash never leaves a half-written config
+export async function writeWorkspaceConfig(config: WorkspaceConfig): Promise<void> {
+  await mkdir(dirname(WORKSPACE_CONFIG_PATH), { recursive: true })
+  const tempPath = `${WORKSPACE_CONFIG_PATH}.${process.pid}.tmp`
+  await writeFile(tempPath, JSON.stringify(config, null, 2) + "\n", "utf-8")
+  await rename(tempPath, WORKSPACE_CONFIG_PATH)
+}
+
+// Find the database for a workspace the user points at: a .db file, or a project
+// directory (its own .beads folder only - a parent's database is a different workspace).
+// Validated like any explicit --db path.
+export async function findWorkspaceDb(inputPath: string): Promise<string | null> {
+  const expanded = inputPath.startsWith("~") ? join(homedir(), inputPath.slice(1)) : inputPath
+  const target = resolve(expanded)
+  if (target.endsWith(".db")) return resolveDbPath(target)
+
+  const dbPath = await findBeadsDbIn(target)
+  return dbPath ? resolveDbPath(dbPath) : null
+}
+
+export async function isDbAccessible(dbPath: string): Promise<boolean> {
+  try {
+    await access(dbPath, constants.R_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
 // Watch registry for changes (returns cleanup function)
 export function watchRegistry(callback: () => void): () => void {
   // Import fs synchronously for watch
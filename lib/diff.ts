@@ -0,0 +1,52 @@
+// Minimal diff for comparing two versions of a text field (LCS over lines or words)
+
+export interface DiffPart {
+  type: "same" | "added" | "removed"
+  text: string
+}
+
+// Diff two token lists; "removed" is in `before` only, "added" in `after` only
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const n = before.length
+  const m = after.length
+  // lcs[i][j] = length of the longest common subsequence of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      push("same", before[i++])
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", before[i++])
+    } else {
+      push("added", after[j++])
+    }
+  }
+  while (i < n) push("removed", before[i++])
+  while (j < m) push("added", after[j++])
+  return parts
+}
+
+// Line diff for multi-line fields (newlines are tokens of their own)
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffTokens(before.match(/[^\n]+|\n/g) ?? [], after.match(/[^\n]+|\n/g) ?? [])
+}
+
+// Word diff for single-line fields (whitespace runs are tokens of their own)
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(before.match(/\S+|\s+/g) ?? [], after.match(/\S+|\s+/g) ?? [])
+}
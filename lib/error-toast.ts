@@ -0,0 +1,18 @@
+import { toast } from "sonner"
+import { bdErrorInfo, type BdErrorCode } from "@/lib/bd-error"
+
+interface FailedResult {
+  error?: string
+  code?: BdErrorCode
+}
+
+// Show a failed action with a hint for its error code
+// Transient failures (locked database, timeout) get a Retry button when a retry is given
+export function toastActionError(title: string, result: FailedResult, retry?: () => void) {
+  const info = bdErrorInfo[result.code ?? "unknown"]
+  const message = result.error || info.message
+  toast.error(title, {
+    description: info.hint ? `${message} — ${info.hint}` : message,
+    action: retry && info.retryable ? { label: "Retry", onClick: retry } : undefined,
+  })
+}
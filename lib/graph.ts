@@ -0,0 +1,225 @@
+import type { Bead } from "@/lib/types"
+
+// Dependency graph of a workspace: beads as nodes, bd dependencies as edges.
+// Pure functions shared by the graph view - the server only collects nodes and edges.
+
+export type GraphEdgeType = "blocks" | "parent-child" | "related"
+
+export interface GraphEdge {
+  from: string  // The blocker or parent (either side for related)
+  to: string
+  type: GraphEdgeType
+}
+
+export interface DependencyGraph {
+  nodes: Bead[]
+  edges: GraphEdge[]
+}
+
+export function edgeKey(edge: GraphEdge): string {
+  return `${edge.type}:${edge.from}->${edge.to}`
+}
+
+// Outgoing neighbors along the directed edges (blocks and parent-child)
+function adjacency(edges: GraphEdge[], reverse = false): Map<string, string[]> {
+  const result = new Map<string, string[]>()
+  for (const edge of edges) {
+    if (edge.type === "related") continue
+    const [from, to] = reverse ? [edge.to, edge.from] : [edge.from, edge.to]
+    result.set(from, [...(result.get(from) ?? []), to])
+  }
+  return result
+}
+
+function reachable(start: string, next: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>()
+  const queue = [start]
+  while (queue.length > 0) {
+    for (const id of next.get(queue.shift()!) ?? []) {
+      if (id !== start && !seen.has(id)) {
+        seen.add(id)
+        queue.push(id)
+      }
+    }
+  }
+  return seen
+}
+
+// Beads `id` transitively waits on (upstream) and beads waiting on it (downstream)
+export function dependencyClosure(edges: GraphEdge[], id: string): { upstream: Set<string>; downstream: Set<string> } {
+  return {
+    upstream: reachable(id, adjacency(edges, true)),
+    downstream: reachable(id, adjacency(edges)),
+  }
+}
+
+// Chain of dependencies (blocks/parent-child) from `fromId` to `toId`, each bead waiting on the next:
+// fromId ... toId, or null if `fromId` doesn't transitively depend on `toId`
+export function dependencyPath(edges: GraphEdge[], fromId: string, toId: string): string[] | null {
+  const next = adjacency(edges, true)
+  const previous = new Map<string, string | null>([[fromId, null]])
+  const queue = [fromId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === toId) {
+      const path: string[] = []
+      for (let node: string | null = current; node; node = previous.get(node) ?? null) path.unshift(node)
+      return path
+    }
+    for (const id of next.get(current) ?? []) {
+      if (previous.has(id)) continue
+      previous.set(id, current)
+      queue.push(id)
+    }
+  }
+  return null
+}
+
+// Beads on a blocking cycle (Tarjan's strongly connected components over blocks edges)
+export function findCycles(edges: GraphEdge[]): Set<string> {
+  const blocks = edges.filter(e => e.type === "blocks")
+  const next = adjacency(blocks)
+  const index = new Map<string, number>()
+  const low = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const result = new Set<string>()
+  let counter = 0
+
+  function visit(id: string) {
+    index.set(id, counter)
+    low.set(id, counter)
+    counter++
+    stack.push(id)
+    onStack.add(id)
+
+    for (const to of next.get(id) ?? []) {
+      if (!index.has(to)) {
+        visit(to)
+        low.set(id, Math.min(low.get(id)!, low.get(to)!))
+      } else if (onStack.has(to)) {
+        low.set(id, Math.min(low.get(id)!, index.get(to)!))
+      }
+    }
+
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+      const selfLoop = blocks.some(e => e.from === id && e.to === id)
+      if (component.length > 1 || selfLoop) component.forEach(m => result.add(m))
+    }
+  }
+
+  for (const id of new Set(blocks.flatMap(e => [e.from, e.to]))) {
+    if (!index.has(id)) visit(id)
+  }
+  return result
+}
+
+// Order beads so every edge goes forward, ignoring edges between beads on cycles
+function topologicalOrder(ids: string[], edges: GraphEdge[], cycles: Set<string>): string[] {
+  const acyclic = edges.filter(e => e.type !== "related" && !(cycles.has(e.from) && cycles.has(e.to)))
+  const next = adjacency(acyclic)
+  const indegree = new Map(ids.map(id => [id, 0]))
+  for (const edge of acyclic) indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1)
+
+  const queue = ids.filter(id => indegree.get(id) === 0)
+  const order: string[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    order.push(id)
+    for (const to of next.get(id) ?? []) {
+      indegree.set(to, indegree.get(to)! - 1)
+      if (indegree.get(to) === 0) queue.push(to)
+    }
+  }
+  return order
+}
+
+// Longest chain of blocks edges through unfinished beads, blockers first (empty without a chain).
+// Beads on cycles are left out - the chain would never end.
+export function longestOpenChain(graph: DependencyGraph, isDone: (bead: Bead) => boolean, cycles: Set<string>): string[] {
+  const open = new Set(graph.nodes.filter(b => !isDone(b) && !cycles.has(b.id)).map(b => b.id))
+  const edges = graph.edges.filter(e => e.type === "blocks" && open.has(e.from) && open.has(e.to))
+  const next = adjacency(edges)
+
+  const length = new Map<string, number>()
+  const previous = new Map<string, string>()
+  for (const id of topologicalOrder(Array.from(open), edges, cycles)) {
+    const here = length.get(id) ?? 1
+    length.set(id, here)
+    for (const to of next.get(id) ?? []) {
+      if (here + 1 > (length.get(to) ?? 1)) {
+        length.set(to, here + 1)
+        previous.set(to, id)
+      }
+    }
+  }
+
+  let end: string | null = null
+  for (const [id, value] of length) {
+    if (value > 1 && (end === null || value > length.get(end)!)) end = id
+  }
+  const chain: string[] = []
+  for (let id: string | undefined = end ?? undefined; id; id = previous.get(id)) chain.unshift(id)
+  return chain
+}
+
+export const NODE_WIDTH = 200
+export const NODE_HEIGHT = 52
+const GAP_X = 80
+const GAP_Y = 16
+
+export interface GraphLayout {
+  positions: Map<string, { x: number; y: number }>
+  width: number
+  height: number
+}
+
+// Layered layout, left to right: each bead sits one column right of its furthest blocker or parent.
+// Within a column beads are ordered by the average row of their predecessors to cut down crossings.
+export function layoutGraph(nodes: Bead[], allEdges: GraphEdge[], cycles: Set<string>): GraphLayout {
+  const ids = nodes.map(n => n.id).sort()
+  const present = new Set(ids)
+  const edges = allEdges.filter(e => present.has(e.from) && present.has(e.to))
+  const directed = edges.filter(e => e.type !== "related" && !(cycles.has(e.from) && cycles.has(e.to)))
+  const predecessors = adjacency(directed, true)
+
+  const rank = new Map<string, number>()
+  for (const id of topologicalOrder(ids, edges, cycles)) {
+    rank.set(id, Math.max(0, ...(predecessors.get(id) ?? []).map(p => (rank.get(p) ?? 0) + 1)))
+  }
+
+  const columns: string[][] = []
+  for (const id of ids) {
+    const column = rank.get(id) ?? 0
+    columns[column] = [...(columns[column] ?? []), id]
+  }
+
+  const row = new Map<string, number>()
+  columns.forEach((column) => {
+    const weight = (id: string) => {
+      const rows = (predecessors.get(id) ?? []).map(p => row.get(p)).filter((r): r is number => r !== undefined)
+      return rows.length > 0 ? rows.reduce((a, b) => a + b, 0) / rows.length : Number.MAX_SAFE_INTEGER
+    }
+    column.sort((a, b) => weight(a) - weight(b))
+    column.forEach((id, index) => row.set(id, index))
+  })
+
+  const positions = new Map<string, { x: number; y: number }>()
+  columns.forEach((column, c) => column.forEach((id, r) => {
+    positions.set(id, { x: c * (NODE_WIDTH + GAP_X), y: r * (NODE_HEIGHT + GAP_Y) })
+  }))
+
+  const tallest = Math.max(0, ...columns.map(c => c.length))
+  return {
+    positions,
+    width: Math.max(0, columns.length * (NODE_WIDTH + GAP_X) - GAP_X),
+    height: Math.max(0, tallest * (NODE_HEIGHT + GAP_Y) - GAP_Y),
+  }
+}
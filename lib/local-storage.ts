@@ -1,14 +1,21 @@
 import type { SortOption, Filters } from "@/components/filter-bar"
+import type { ReadyGrouping } from "@/components/ready-queue"
+import type { Swimlanes } from "@/components/kanban-board"
+import { setClause, type QueryKey } from "@/lib/query"
+import { parseMetricsRange, type MetricsRange } from "@/lib/metrics"
+import { createViewId, normalizeView, type SavedView } from "@/lib/views"
 
 const SORT_KEY = "beads-sort"
 const FILTERS_KEY = "beads-filters"
+const VIEWS_KEY = "beads-saved-views"
+const READY_GROUPING_KEY = "beads-ready-grouping"
+const SWIMLANES_KEY = "beads-board-swimlanes"
+const WIP_LIMITS_KEY = "beads-wip-limits"
+const METRICS_RANGE_KEY = "beads-metrics-range"
 
 const DEFAULT_SORT: SortOption = { field: "updated", direction: "desc" }
 
 const DEFAULT_FILTERS: Filters = {
-  status: "all",
-  assignee: "all",
-  priority: "all",
   showMessages: false,
   search: "",
 }
@@ -46,8 +53,16 @@ export function getFiltersPreference(): Filters {
   try {
     const stored = localStorage.getItem(FILTERS_KEY)
     if (stored) {
-      const parsed = JSON.parse(stored)
-      return { ...DEFAULT_FILTERS, ...parsed }
+      const { status, priority, assignee, ...parsed } = JSON.parse(stored)
+      const filters: Filters = { ...DEFAULT_FILTERS, ...parsed }
+      // Older versions stored dropdown values separately - fold them into the query
+      const legacy: [QueryKey, unknown][] = [["status", status], ["priority", priority], ["assignee", assignee]]
+      for (const [key, value] of legacy) {
+        if (typeof value === "string" && value !== "all") {
+          filters.search = setClause(filters.search, key, [value])
+        }
+      }
+      return filters
     }
   } catch {
     // Invalid JSON or other error, use default
@@ -64,3 +79,123 @@ export function setFiltersPreference(filters: Filters): void {
     // localStorage might be full or disabled
   }
 }
+
+export function getSavedViews(): SavedView[] {
+  if (typeof window === "undefined") return []
+
+  try {
+    const stored = localStorage.getItem(VIEWS_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as unknown[]
+      return parsed.flatMap((raw) => {
+        const view = normalizeView(raw)
+        const id = (raw as { id?: unknown }).id
+        return view ? [{ id: typeof id === "string" ? id : createViewId(), ...view }] : []
+      })
+    }
+  } catch {
+    // Invalid JSON or other error, no views
+  }
+  return []
+}
+
+export function setSavedViews(views: SavedView[]): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(VIEWS_KEY, JSON.stringify(views))
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+export function getReadyGroupingPreference(): ReadyGrouping {
+  if (typeof window === "undefined") return "priority"
+
+  try {
+    return localStorage.getItem(READY_GROUPING_KEY) === "assignee" ? "assignee" : "priority"
+  } catch {
+    return "priority"
+  }
+}
+
+export function setReadyGroupingPreference(grouping: ReadyGrouping): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(READY_GROUPING_KEY, grouping)
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+export function getSwimlanesPreference(): Swimlanes {
+  if (typeof window === "undefined") return "none"
+
+  try {
+    const stored = localStorage.getItem(SWIMLANES_KEY)
+    return stored === "epic" || stored === "assignee" ? stored : "none"
+  } catch {
+    return "none"
+  }
+}
+
+export function setSwimlanesPreference(swimlanes: Swimlanes): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(SWIMLANES_KEY, swimlanes)
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+// WIP limits per board column, stored per workspace
+export function getWipLimits(workspaceId: string): Record<string, number> {
+  if (typeof window === "undefined") return {}
+
+  try {
+    const stored = localStorage.getItem(WIP_LIMITS_KEY)
+    const limits = stored ? JSON.parse(stored)[workspaceId] : null
+    if (limits && typeof limits === "object") {
+      return Object.fromEntries(
+        Object.entries(limits).filter((entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] > 0)
+      )
+    }
+  } catch {
+    // Invalid JSON or other error, no limits
+  }
+  return {}
+}
+
+export function setWipLimits(workspaceId: string, limits: Record<string, number>): void {
+  if (typeof window === "undefined") return
+
+  try {
+    const stored = localStorage.getItem(WIP_LIMITS_KEY)
+    const all = stored ? JSON.parse(stored) : {}
+    localStorage.setItem(WIP_LIMITS_KEY, JSON.stringify({ ...all, [workspaceId]: limits }))
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+export function getMetricsRangePreference(): MetricsRange {
+  if (typeof window === "undefined") return "30d"
+
+  try {
+    return parseMetricsRange(localStorage.getItem(METRICS_RANGE_KEY))
+  } catch {
+    return "30d"
+  }
+}
+
+export function setMetricsRangePreference(range: MetricsRange): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(METRICS_RANGE_KEY, range)
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
@@ -0,0 +1,186 @@
+import { addDays, addWeeks, differenceInCalendarDays, format, startOfDay, startOfWeek } from "date-fns"
+import type { Bead, Epic } from "@/lib/types"
+import { findStatus, type StatusDefinition } from "@/lib/status"
+
+// Metrics for the dashboard: pure functions over the beads already loaded for the tree.
+// A bead counts as closed from its closed_at (or its last update when a done status has none).
+
+export type MetricsRange = "14d" | "30d" | "90d" | "180d" | "all"
+
+export const METRICS_RANGES: { value: MetricsRange; label: string }[] = [
+  { value: "14d", label: "Last 14 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "180d", label: "Last 180 days" },
+  { value: "all", label: "All time" },
+]
+
+export function parseMetricsRange(value: string | null): MetricsRange {
+  return METRICS_RANGES.some(r => r.value === value) ? value as MetricsRange : "30d"
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// When a bead was closed, or undefined while it's still open (reopened beads keep a stale closed_at)
+export function closedTime(bead: Bead, isDone: (bead: Bead) => boolean): Date | undefined {
+  if (!isDone(bead)) return undefined
+  return bead.closedAt ?? bead.updatedAt
+}
+
+// First day of the range; "all" starts at the oldest bead
+export function rangeStart(range: MetricsRange, beads: Bead[], now: Date): Date {
+  if (range === "all") {
+    const created = beads.map(b => b.createdAt?.getTime()).filter((t): t is number => t !== undefined)
+    return startOfDay(created.length > 0 ? Math.min(...created) : now)
+  }
+  return startOfDay(addDays(now, 1 - parseInt(range, 10)))
+}
+
+// Sample days from start to end: daily for short ranges, weekly past four months
+function sampleDays(start: Date, end: Date): Date[] {
+  const step = differenceInCalendarDays(end, start) > 120 ? 7 : 1
+  const result: Date[] = []
+  for (let day = startOfDay(start); day <= end; day = addDays(day, step)) result.push(day)
+  if (result.length === 0 || differenceInCalendarDays(end, result[result.length - 1]) > 0) result.push(startOfDay(end))
+  return result
+}
+
+// Open at the end of `day`: created by then and not yet closed
+function openAt(bead: Bead, day: Date, closed?: Date): boolean {
+  const end = day.getTime() + DAY
+  return !!bead.createdAt && bead.createdAt.getTime() < end && !(closed && closed.getTime() < end)
+}
+
+export interface OpenClosedPoint {
+  date: string
+  open: number
+  closed: number  // Closed since the start of the range
+}
+
+export function openClosedSeries(beads: Bead[], start: Date, end: Date, isDone: (bead: Bead) => boolean): OpenClosedPoint[] {
+  const closed = beads.map(bead => closedTime(bead, isDone))
+  return sampleDays(start, end).map(day => {
+    const dayEnd = day.getTime() + DAY
+    return {
+      date: format(day, "MMM d"),
+      open: beads.filter((bead, i) => openAt(bead, day, closed[i])).length,
+      closed: closed.filter(c => c && c.getTime() >= start.getTime() && c.getTime() < dayEnd).length,
+    }
+  })
+}
+
+export interface ThroughputPoint {
+  week: string  // Monday of the week
+  created: number
+  closed: number
+}
+
+export function weeklyThroughput(beads: Bead[], start: Date, end: Date, isDone: (bead: Bead) => boolean): ThroughputPoint[] {
+  const weekOf = (date: Date) => startOfWeek(date, { weekStartsOn: 1 }).getTime()
+  const points = new Map<number, ThroughputPoint>()
+  for (let week = weekOf(start); week <= end.getTime(); week = addWeeks(week, 1).getTime()) {
+    points.set(week, { week: format(week, "MMM d"), created: 0, closed: 0 })
+  }
+
+  // Dates past the last generated week (later on the end day, or in the future) have no point and are skipped
+  const inRange = (date?: Date): date is Date => !!date && date >= start && date.getTime() < end.getTime() + DAY
+  for (const bead of beads) {
+    const closed = closedTime(bead, isDone)
+    const createdPoint = inRange(bead.createdAt) ? points.get(weekOf(bead.createdAt)) : undefined
+    const closedPoint = inRange(closed) ? points.get(weekOf(closed)) : undefined
+    if (createdPoint) createdPoint.created++
+    if (closedPoint) closedPoint.closed++
+  }
+  return Array.from(points.values())
+}
+
+export interface CycleTimeBucket {
+  label: string
+  count: number
+}
+
+const CYCLE_TIME_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: "< 1d", maxDays: 1 },
+  { label: "1-3d", maxDays: 3 },
+  { label: "3-7d", maxDays: 7 },
+  { label: "1-2w", maxDays: 14 },
+  { label: "2-4w", maxDays: 28 },
+  { label: "> 4w", maxDays: Infinity },
+]
+
+// Days from created to closed for beads closed in the range, bucketed, with the median
+export function cycleTimeDistribution(
+  beads: Bead[],
+  start: Date,
+  isDone: (bead: Bead) => boolean
+): { buckets: CycleTimeBucket[]; medianDays: number | null } {
+  const durations = beads
+    .map(bead => ({ created: bead.createdAt, closed: closedTime(bead, isDone) }))
+    .filter(({ created, closed }) => created && closed && closed >= start)
+    .map(({ created, closed }) => Math.max(0, closed!.getTime() - created!.getTime()) / DAY)
+    .sort((a, b) => a - b)
+
+  const buckets = CYCLE_TIME_BUCKETS.map(({ label }) => ({ label, count: 0 }))
+  for (const days of durations) {
+    buckets[CYCLE_TIME_BUCKETS.findIndex(b => days < b.maxDays)].count++
+  }
+
+  const middle = Math.floor(durations.length / 2)
+  const medianDays = durations.length === 0 ? null
+    : durations.length % 2 === 1 ? durations[middle]
+    : (durations[middle - 1] + durations[middle]) / 2
+  return { buckets, medianDays }
+}
+
+// Beads per status in the workspace's order, then any undefined status in use; empty statuses left out
+export function statusBreakdown(beads: Bead[], statuses: StatusDefinition[]): { status: StatusDefinition; count: number }[] {
+  const names = [...statuses.map(s => s.name), ...beads.map(b => b.status)]
+  return Array.from(new Set(names))
+    .map(name => ({ status: findStatus(statuses, name), count: beads.filter(b => b.status === name).length }))
+    .filter(entry => entry.count > 0)
+}
+
+export interface BurndownPoint {
+  date: string
+  remaining: number
+  ideal: number
+}
+
+// Beads still open each day, against a straight line from the first day's scope down to zero
+export function burndown(beads: Bead[], start: Date, end: Date, isDone: (bead: Bead) => boolean): BurndownPoint[] {
+  const closed = beads.map(bead => closedTime(bead, isDone))
+  const days = sampleDays(start, end)
+  const remaining = days.map(day => beads.filter((bead, i) => openAt(bead, day, closed[i])).length)
+  const last = Math.max(1, days.length - 1)
+  return days.map((day, i) => ({
+    date: format(day, "MMM d"),
+    remaining: remaining[i],
+    ideal: Math.round(remaining[0] * (1 - i / last) * 10) / 10,
+  }))
+}
+
+// Every epic in the tree, nested ones included (without the standalone bucket)
+export function flattenEpics(epics: Epic[]): Epic[] {
+  return epics.flatMap(epic => [
+    ...(epic.id === "_standalone" ? [] : [epic]),
+    ...flattenEpics(epic.childEpics ?? []),
+  ])
+}
+
+// IDs of every bead under an epic: its children, their subtasks and everything in child epics
+export function epicDescendantIds(epic: Epic): Set<string> {
+  const result = new Set<string>()
+  const visitBead = (bead: Bead) => {
+    result.add(bead.id)
+    bead.children?.forEach(visitBead)
+  }
+  const visitEpic = (child: Epic) => {
+    child.children?.forEach(visitBead)
+    child.childEpics?.forEach(nested => {
+      result.add(nested.id)
+      visitEpic(nested)
+    })
+  }
+  visitEpic(epic)
+  return result
+}
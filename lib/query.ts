@@ -0,0 +1,320 @@
+import type { Bead, BeadPriority, BeadType } from "@/lib/types"
+
+// Filter queries typed into the search box, e.g.
+//   status:open,in_progress assignee:me label:backend -label:archived type:bug updated:<7d blocked:true
+// Clauses are ANDed, comma-separated values within a clause are ORed, and a leading "-" negates a clause.
+// Tokens that aren't clauses are free text for the full-text search.
+
+export const QUERY_KEYS = ["status", "priority", "assignee", "label", "type", "updated", "created", "blocked"] as const
+export type QueryKey = typeof QUERY_KEYS[number]
+
+export interface QueryClause {
+  key: QueryKey
+  values: string[]  // ORed, lowercased (priority aliases resolved)
+  negated: boolean
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[]
+  text: string      // Free text left after removing clauses
+  errors: string[]  // Clauses with invalid values (ignored when filtering)
+}
+
+// Values the evaluator needs from outside the query
+export interface QueryContext {
+  me?: string  // Current user, for assignee:me
+  now: number
+}
+
+export interface QuerySuggestion {
+  label: string        // Text shown in the list
+  detail?: string      // Secondary description
+  replacement: string  // Token that replaces the one under the cursor
+  start: number        // Replaced range in the input
+  end: number
+}
+
+// Values known to the UI, offered by autocomplete
+export interface SuggestionSource {
+  statuses: string[]
+  assignees: string[]
+  labels: string[]
+}
+
+const keyDescriptions: Record<QueryKey, string> = {
+  status: "Status is one of",
+  priority: "Priority is one of",
+  assignee: "Assigned to (me, none or a name)",
+  label: "Has one of the labels",
+  type: "Type is one of",
+  updated: "Updated within (<7d) or before (>30d)",
+  created: "Created within (<7d) or before (>30d)",
+  blocked: "Has open blockers",
+}
+
+const PRIORITIES: BeadPriority[] = ["critical", "high", "medium", "low", "none"]
+const TYPES: BeadType[] = ["bug", "feature", "task", "epic", "chore", "message", "gate"]
+
+// Accept bd's numeric priorities (p0-p4 / 0-4) as aliases
+const PRIORITY_ALIASES: Record<string, BeadPriority> = {
+  "0": "critical", p0: "critical",
+  "1": "high", p1: "high",
+  "2": "medium", p2: "medium",
+  "3": "low", p3: "low",
+  "4": "none", p4: "none",
+}
+
+const DATE_SUGGESTIONS: [string, string][] = [
+  ["<1d", "Last 24 hours"],
+  ["<7d", "Last week"],
+  ["<30d", "Last month"],
+  [">30d", "More than a month ago"],
+  [">90d", "More than 3 months ago"],
+]
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+}
+
+interface Token {
+  raw: string
+  start: number
+  end: number
+}
+
+// Split on whitespace outside double quotes
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let quoted = false
+    while (i < input.length && (quoted || !/\s/.test(input[i]))) {
+      if (input[i] === '"') quoted = !quoted
+      i++
+    }
+    tokens.push({ raw: input.slice(start, i), start, end: i })
+  }
+  return tokens
+}
+
+// Split a clause value on commas outside quotes, dropping the quotes
+function splitValues(value: string): string[] {
+  const values: string[] = []
+  let current = ""
+  let quoted = false
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    else if (char === "," && !quoted) {
+      values.push(current)
+      current = ""
+    } else current += char
+  }
+  values.push(current)
+  return values.map(v => v.trim()).filter(Boolean)
+}
+
+function quoteValue(value: string): string {
+  return /[\s,"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value
+}
+
+function isQueryKey(key: string): key is QueryKey {
+  return (QUERY_KEYS as readonly string[]).includes(key)
+}
+
+// Split a token into clause parts, or null if it's free text
+function parseClauseToken(raw: string): { key: QueryKey; value: string; negated: boolean } | null {
+  const match = raw.match(/^(-?)([a-z]+):(.*)$/i)
+  if (!match) return null
+  const key = match[2].toLowerCase()
+  if (!isQueryKey(key)) return null
+  return { key, value: match[3], negated: match[1] === "-" }
+}
+
+// Relative age ("<7d") or absolute date (">2024-01-01") comparison
+interface DateComparison {
+  op: "<" | ">" | "="
+  age?: number   // Milliseconds, for relative values
+  date?: Date    // For absolute values
+}
+
+function parseDateValue(value: string): DateComparison | null {
+  const match = value.match(/^([<>]=?|=)?(.+)$/)
+  if (!match) return null
+  const op = (match[1]?.[0] ?? "=") as DateComparison["op"]
+  const age = match[2].match(/^(\d+)([hdwmy])$/)
+  if (age) {
+    // A bare duration means "within"
+    return { op: op === "=" ? "<" : op, age: Number(age[1]) * UNIT_MS[age[2]] }
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(match[2])) return null
+  const date = new Date(match[2])
+  return isNaN(date.getTime()) ? null : { op, date }
+}
+
+function validateValue(key: QueryKey, value: string): boolean {
+  switch (key) {
+    case "priority":
+      return PRIORITIES.includes(value as BeadPriority)
+    case "type":
+      return TYPES.includes(value as BeadType)
+    case "updated":
+    case "created":
+      return parseDateValue(value) !== null
+    case "blocked":
+      return ["true", "false", "yes", "no"].includes(value)
+    default:
+      return true
+  }
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const clauses: QueryClause[] = []
+  const text: string[] = []
+  const errors: string[] = []
+
+  for (const token of tokenize(input)) {
+    const clause = parseClauseToken(token.raw)
+    if (!clause) {
+      text.push(token.raw.replace(/"/g, ""))
+      continue
+    }
+    const values = splitValues(clause.value)
+      .map(v => v.toLowerCase())
+      .map(v => (clause.key === "priority" ? PRIORITY_ALIASES[v] ?? v : v))
+    if (values.length === 0) continue // Still being typed ("status:")
+
+    const invalid = values.filter(v => !validateValue(clause.key, v))
+    if (invalid.length > 0) {
+      errors.push(`Invalid ${clause.key}: ${invalid.join(", ")}`)
+      continue
+    }
+    clauses.push({ key: clause.key, values, negated: clause.negated })
+  }
+
+  return { clauses, text: text.join(" "), errors }
+}
+
+function matchesDate(date: Date | undefined, value: string, now: number): boolean {
+  const comparison = parseDateValue(value)
+  if (!date || !comparison) return false
+  if (comparison.age !== undefined) {
+    const age = now - date.getTime()
+    return comparison.op === "<" ? age < comparison.age : age > comparison.age
+  }
+  const target = comparison.date!
+  if (comparison.op === "<") return date < target
+  if (comparison.op === ">") return date > target
+  return date.toDateString() === target.toDateString()
+}
+
+function matchesValue(bead: Bead, key: QueryKey, value: string, context: QueryContext): boolean {
+  switch (key) {
+    case "status":
+      return bead.status.toLowerCase() === value
+    case "priority":
+      return bead.priority === value
+    case "assignee":
+      if (value === "none") return !bead.assignee
+      if (value === "me") return !!context.me && bead.assignee.toLowerCase() === context.me.toLowerCase()
+      return bead.assignee.toLowerCase() === value
+    case "label":
+      return bead.labels?.some(label => label.toLowerCase() === value) ?? false
+    case "type":
+      return bead.type === value
+    case "updated":
+      return matchesDate(bead.updatedAt, value, context.now)
+    case "created":
+      return matchesDate(bead.createdAt, value, context.now)
+    case "blocked":
+      return !!bead.blocked === (value === "true" || value === "yes")
+  }
+}
+
+// Does a bead satisfy every clause? (Free text is handled by the full-text search)
+export function matchesQuery(bead: Bead, query: ParsedQuery, context: QueryContext): boolean {
+  return query.clauses.every(clause =>
+    clause.values.some(value => matchesValue(bead, clause.key, value, context)) !== clause.negated
+  )
+}
+
+// Values of the clauses for a key (what the dropdowns show), non-negated unless asked
+export function getClauseValues(query: ParsedQuery, key: QueryKey, negated = false): string[] {
+  return query.clauses.filter(c => c.key === key && c.negated === negated).flatMap(c => c.values)
+}
+
+// Replace the clauses for a key (non-negated unless asked) with one clause, keeping everything else as typed
+export function setClause(input: string, key: QueryKey, values: string[], negated = false): string {
+  const kept = tokenize(input)
+    .filter(token => {
+      const clause = parseClauseToken(token.raw)
+      return !clause || clause.key !== key || clause.negated !== negated
+    })
+    .map(token => token.raw)
+  if (values.length > 0) kept.push(`${negated ? "-" : ""}${key}:${values.map(quoteValue).join(",")}`)
+  return kept.join(" ")
+}
+
+// Completions for the token under the cursor: keys first, then values once a key is typed
+export function getSuggestions(input: string, cursor: number, source: SuggestionSource): QuerySuggestion[] {
+  let start = cursor
+  while (start > 0 && !/\s/.test(input[start - 1])) start--
+  let end = cursor
+  while (end < input.length && !/\s/.test(input[end])) end++
+  const word = input.slice(start, cursor)
+  const negation = word.startsWith("-") ? "-" : ""
+  const body = word.slice(negation.length).toLowerCase()
+
+  const colon = body.indexOf(":")
+  if (colon === -1) {
+    return QUERY_KEYS
+      .filter(key => key.startsWith(body))
+      .map(key => ({
+        label: `${negation}${key}:`,
+        detail: keyDescriptions[key],
+        replacement: `${negation}${key}:`,
+        start,
+        end,
+      }))
+  }
+
+  const key = body.slice(0, colon)
+  if (!isQueryKey(key)) return []
+  const valuePart = word.slice(negation.length + colon + 1)
+  const lastComma = valuePart.lastIndexOf(",")
+  const chosen = valuePart.slice(0, lastComma + 1)
+  const partial = valuePart.slice(lastComma + 1).replace(/"/g, "").toLowerCase()
+  const taken = new Set(splitValues(chosen).map(v => v.toLowerCase()))
+
+  const candidates: [string, string?][] = (() => {
+    switch (key) {
+      case "status": return source.statuses.map(s => [s] as [string])
+      case "priority": return PRIORITIES.map(p => [p] as [string])
+      case "assignee": return [["me", "Current user"], ["none", "Unassigned"], ...source.assignees.map(a => [a] as [string])]
+      case "label": return source.labels.map(l => [l] as [string])
+      case "type": return TYPES.map(t => [t] as [string])
+      case "updated":
+      case "created": return DATE_SUGGESTIONS
+      case "blocked": return [["true", "Waiting on open blockers"], ["false", "Not blocked"]]
+    }
+  })()
+
+  return candidates
+    .filter(([value]) => value.toLowerCase().startsWith(partial) && !taken.has(value.toLowerCase()))
+    .slice(0, 8)
+    .map(([value, detail]) => ({
+      label: value,
+      detail,
+      replacement: `${negation}${key}:${chosen}${quoteValue(value)}`,
+      start,
+      end,
+    }))
+}
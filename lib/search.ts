@@ -0,0 +1,131 @@
+import type { Bead } from "@/lib/types"
+
+// Full-text search over bead fields, with per-field snippets for the tree
+
+export type SearchField =
+  | "id"
+  | "title"
+  | "labels"
+  | "description"
+  | "design"
+  | "acceptanceCriteria"
+  | "notes"
+  | "comments"
+
+// Weight of a term hit per field - title and ID hits rank first
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  id: 100,
+  title: 80,
+  labels: 30,
+  description: 20,
+  acceptanceCriteria: 12,
+  design: 10,
+  notes: 10,
+  comments: 5,
+}
+
+export const searchFieldLabels: Record<SearchField, string> = {
+  id: "ID",
+  title: "Title",
+  labels: "Labels",
+  description: "Description",
+  design: "Design",
+  acceptanceCriteria: "Acceptance criteria",
+  notes: "Notes",
+  comments: "Comment",
+}
+
+export interface SearchMatch {
+  field: SearchField
+  snippet: string // Text around the first hit in this field
+}
+
+export interface SearchHit {
+  score: number
+  matches: SearchMatch[] // Ordered by field weight
+}
+
+// Matches for a whole tree, plus the terms used (for highlighting)
+export interface SearchState {
+  terms: string[]
+  hits: Map<string, SearchHit>  // Beads that match, keyed by ID
+  best: Map<string, number>     // Best score of each bead or any of its descendants
+}
+
+const SNIPPET_RADIUS = 40
+
+// Split a query into lowercase terms ("fix login" -> ["fix", "login"])
+export function parseSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)))
+}
+
+// Single-line excerpt around a hit, with ellipses where text was cut
+export function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS)
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim()
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`
+}
+
+// Searchable text per field
+function fieldTexts(bead: Bead, comments: string[]): [SearchField, string[]][] {
+  return [
+    ["id", [bead.id]],
+    ["title", [bead.title]],
+    ["labels", bead.labels ?? []],
+    ["description", [bead.description ?? ""]],
+    ["design", [bead.design ?? ""]],
+    ["acceptanceCriteria", [bead.acceptanceCriteria ?? ""]],
+    ["notes", [bead.notes ?? ""]],
+    ["comments", comments],
+  ]
+}
+
+// Score a bead against the query terms; every term must match some field
+// `extraComments` are comment texts found server-side (comments aren't always loaded in the tree)
+export function searchBead(bead: Bead, terms: string[], extraComments: string[] = []): SearchHit | null {
+  if (terms.length === 0) return null
+
+  const comments = [...bead.comments.map(c => c.content), ...extraComments]
+  const fields = fieldTexts(bead, comments)
+  const matches = new Map<SearchField, SearchMatch>()
+  let score = 0
+
+  for (const term of terms) {
+    let termMatched = false
+    for (const [field, texts] of fields) {
+      for (const text of texts) {
+        const index = text.toLowerCase().indexOf(term)
+        if (index === -1) continue
+        termMatched = true
+        score += FIELD_WEIGHTS[field]
+        if (!matches.has(field)) {
+          matches.set(field, { field, snippet: makeSnippet(text, index, term.length) })
+        }
+        break
+      }
+    }
+    if (!termMatched) return null
+  }
+
+  // Exact ID and title-prefix hits outrank everything else
+  const query = terms.join(" ")
+  if (bead.id.toLowerCase() === query) score += 1000
+  else if (bead.title.toLowerCase().startsWith(query)) score += 50
+
+  return {
+    score,
+    matches: Array.from(matches.values()).sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field]),
+  }
+}
+
+// Split text into highlighted and plain runs for the given terms
+export function highlightParts(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }]
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi")
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
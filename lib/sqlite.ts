@@ -0,0 +1,223 @@
+import { execFile } from "child_process"
+import { promisify } from "util"
+import type { BdBead, BdComment, BdEvent } from "@/lib/bd"
+
+const execFileAsync = promisify(execFile)
+
+// Direct read-only access to a bd SQLite database.
+// Used as a faster alternative to spawning bd several times per tree refresh.
+// All reads go through the sqlite3 CLI (same as deleteComment in lib/bd.ts).
+// Only the tree snapshot is behind BEADS_UI_DATA_SOURCE: comment search and the activity
+// timeline read here regardless, since bd has no command for either (both are skipped without sqlite3).
+
+// Enable with BEADS_UI_DATA_SOURCE=sqlite
+export function isSqliteSourceEnabled(): boolean {
+  return process.env.BEADS_UI_DATA_SOURCE === "sqlite"
+}
+
+// Columns the snapshot query depends on, per table.
+// bd has no stable schema version, so a database is "known" when all of these exist.
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  issues: [
+    "id", "title", "description", "design", "acceptance_criteria", "notes",
+    "status", "priority", "issue_type", "assignee", "created_at", "updated_at",
+    "closed_at", "external_ref",
+  ],
+  dependencies: ["issue_id", "depends_on_id", "type"],
+  labels: ["issue_id", "label"],
+  comments: ["id", "issue_id", "author", "text", "created_at"],
+}
+
+interface SchemaInfo {
+  supported: boolean
+  hasDeletedAt: boolean // Added in later bd versions
+}
+
+// Cache schema checks per database path
+const schemaCache = new Map<string, SchemaInfo>()
+
+export interface SqliteSnapshot {
+  beads: BdBead[]           // Every live bead, with labels, parent, dependent_count and dependents
+  trash: BdBead[]           // Deleted (tombstoned) beads, with labels
+  comments: Map<string, BdComment[]> // Comments keyed by bead ID
+  blockedIds: Set<string>   // Beads with a "blocks" dependency on an unclosed bead
+}
+
+// Raw rows as returned by the snapshot query
+interface SnapshotRows {
+  issues: (Omit<BdBead, "labels"> & { deleted_at?: string | null })[]
+  dependencies: { issue_id: string; depends_on_id: string; type: BdBead["dependency_type"] }[]
+  labels: { issue_id: string; label: string }[]
+  comments: (BdComment & { issue_id: string })[]
+}
+
+async function sqliteQuery(dbPath: string, sql: string): Promise<string> {
+  const { stdout } = await execFileAsync("sqlite3", ["-readonly", dbPath, sql], {
+    maxBuffer: 50 * 1024 * 1024, // 50MB buffer - whole database in one result
+  })
+  return stdout.trim()
+}
+
+// Check the database schema against the columns we read
+async function getSchemaInfo(dbPath: string): Promise<SchemaInfo> {
+  const cached = schemaCache.get(dbPath)
+  if (cached) return cached
+
+  const tables = Object.keys(REQUIRED_COLUMNS).map(t => `'${t}'`).join(", ")
+  const output = await sqliteQuery(
+    dbPath,
+    `SELECT json_group_array(json_object('table', m.name, 'column', p.name))
+     FROM sqlite_master m JOIN pragma_table_info(m.name) p
+     WHERE m.type = 'table' AND m.name IN (${tables});`
+  )
+  const rows = JSON.parse(output || "[]") as { table: string; column: string }[]
+  const columns = new Set(rows.map(r => `${r.table}.${r.column}`))
+
+  const supported = Object.entries(REQUIRED_COLUMNS).every(([table, cols]) =>
+    cols.every(col => columns.has(`${table}.${col}`))
+  )
+  const info: SchemaInfo = { supported, hasDeletedAt: columns.has("issues.deleted_at") }
+  schemaCache.set(dbPath, info)
+  return info
+}
+
+// Read issues, dependencies, labels and comments in one read-only transaction
+// Returns null when the schema is unknown or sqlite3 is unavailable (caller falls back to bd CLI)
+export async function readSnapshot(dbPath: string): Promise<SqliteSnapshot | null> {
+  let rows: SnapshotRows
+  try {
+    const schema = await getSchemaInfo(dbPath)
+    if (!schema.supported) {
+      console.warn(`Unknown bd schema in ${dbPath}, using bd CLI`)
+      return null
+    }
+
+    const issueColumns = [...REQUIRED_COLUMNS.issues, "deleted_at"]
+      .map(col => `'${col}', ${col === "deleted_at" && !schema.hasDeletedAt ? "NULL" : col}`)
+      .join(", ")
+
+    const output = await sqliteQuery(
+      dbPath,
+      `BEGIN;
+       SELECT json_object(
+         'issues', (SELECT json_group_array(json_object(${issueColumns})) FROM issues),
+         'dependencies', (SELECT json_group_array(json_object('issue_id', issue_id, 'depends_on_id', depends_on_id, 'type', type)) FROM dependencies),
+         'labels', (SELECT json_group_array(json_object('issue_id', issue_id, 'label', label)) FROM (SELECT * FROM labels ORDER BY label)),
+         'comments', (SELECT json_group_array(json_object('id', id, 'issue_id', issue_id, 'author', author, 'text', text, 'created_at', created_at)) FROM (SELECT * FROM comments ORDER BY created_at))
+       );
+       COMMIT;`
+    )
+    rows = JSON.parse(output) as SnapshotRows
+  } catch (error) {
+    console.warn("SQLite read failed, using bd CLI:", (error as Error).message)
+    return null
+  }
+
+  return buildSnapshot(rows)
+}
+
+// Shape raw rows like bd list/show output
+function buildSnapshot(rows: SnapshotRows): SqliteSnapshot {
+  const labelsById = new Map<string, string[]>()
+  for (const { issue_id, label } of rows.labels) {
+    const labels = labelsById.get(issue_id) ?? []
+    labels.push(label)
+    labelsById.set(issue_id, labels)
+  }
+
+  const rawById = new Map<string, BdBead>()
+  for (const issue of rows.issues) {
+    rawById.set(issue.id, {
+      ...issue,
+      description: issue.description || undefined,
+      design: issue.design || undefined,
+      acceptance_criteria: issue.acceptance_criteria || undefined,
+      notes: issue.notes || undefined,
+      external_ref: issue.external_ref || undefined,
+      assignee: issue.assignee || undefined,
+      closed_at: issue.closed_at || undefined,
+      deleted_at: issue.deleted_at || undefined,
+      labels: labelsById.get(issue.id) ?? [],
+    })
+  }
+
+  // Attach parent and dependents from dependency edges
+  const dependentsById = new Map<string, BdBead[]>()
+  const parentById = new Map<string, string>()
+  const blockedIds = new Set<string>()
+  for (const dep of rows.dependencies) {
+    const dependent = rawById.get(dep.issue_id)
+    const dependency = rawById.get(dep.depends_on_id)
+    if (!dependent || !dependency) continue
+    if (dep.type === "parent-child") parentById.set(dep.issue_id, dep.depends_on_id)
+    if (dep.type === "blocks" && !["closed", "tombstone"].includes(dependency.status) && !dependency.deleted_at) {
+      blockedIds.add(dep.issue_id)
+    }
+    const list = dependentsById.get(dep.depends_on_id) ?? []
+    list.push({ ...dependent, dependency_type: dep.type })
+    dependentsById.set(dep.depends_on_id, list)
+  }
+
+  // Live beads only, matching bd list
+  const beads: BdBead[] = []
+  const trash: BdBead[] = []
+  for (const bead of rawById.values()) {
+    if (bead.status === "tombstone" || bead.deleted_at) {
+      trash.push(bead)
+      continue
+    }
+    const dependents = dependentsById.get(bead.id) ?? []
+    beads.push({
+      ...bead,
+      parent: parentById.get(bead.id),
+      dependent_count: dependents.length,
+      dependents,
+    })
+  }
+
+  const comments = new Map<string, BdComment[]>()
+  for (const comment of rows.comments) {
+    const { issue_id, ...rest } = comment
+    const list = comments.get(issue_id) ?? []
+    list.push(rest)
+    comments.set(issue_id, list)
+  }
+
+  return { beads, trash, comments, blockedIds }
+}
+
+// Comments containing any of the search terms, keyed by bead ID, newest first (the limit keeps the latest)
+// Lets search cover comments even when the tree was loaded through bd CLI (which omits them)
+export async function searchComments(dbPath: string, terms: string[]): Promise<Map<string, string[]>> {
+  const results = new Map<string, string[]>()
+  if (terms.length === 0) return results
+
+  const conditions = terms
+    .map(term => `instr(lower(text), '${term.toLowerCase().replace(/'/g, "''")}') > 0`)
+    .join(" OR ")
+  const output = await sqliteQuery(
+    dbPath,
+    `SELECT json_group_array(json_object('issue_id', issue_id, 'text', text))
+     FROM (SELECT issue_id, text FROM comments WHERE ${conditions} ORDER BY created_at DESC LIMIT 1000);`
+  )
+  const rows = JSON.parse(output || "[]") as { issue_id: string; text: string }[]
+  for (const { issue_id, text } of rows) {
+    const list = results.get(issue_id) ?? []
+    list.push(text)
+    results.set(issue_id, list)
+  }
+  return results
+}
+
+// Audit history of one bead, oldest first; null when the database has no events table
+export async function readEvents(dbPath: string, issueId: string): Promise<BdEvent[] | null> {
+  const tables = await sqliteQuery(dbPath, "SELECT count(*) FROM sqlite_master WHERE type = 'table' AND name = 'events';")
+  if (tables !== "1") return null
+
+  const output = await sqliteQuery(
+    dbPath,
+    `SELECT json_group_array(json_object('id', id, 'event_type', event_type, 'actor', actor, 'old_value', old_value, 'new_value', new_value, 'comment', comment, 'created_at', created_at))
+     FROM (SELECT * FROM events WHERE issue_id = '${issueId.replace(/'/g, "''")}' ORDER BY created_at, id);`
+  )
+  return JSON.parse(output || "[]") as BdEvent[]
+}
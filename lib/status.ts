@@ -0,0 +1,144 @@
+// Status definitions shared by the tree, tables and detail panel.
+// bd stores the custom status names in `status.custom`; the UI-only parts (label, color,
+// icon, "counts as done", order) live alongside it in the `bdui.statuses` config key.
+
+export const CORE_STATUSES = ["open", "in_progress", "closed"]
+
+export const STATUS_METADATA_KEY = "bdui.statuses"
+
+// bd status names: lowercase, starting with a letter
+export const STATUS_NAME_PATTERN = /^[a-z][a-z0-9_]*$/
+
+export type StatusColor =
+  | "white" | "zinc" | "amber" | "orange" | "red" | "pink"
+  | "purple" | "blue" | "sky" | "cyan" | "emerald" | "lime"
+
+export type StatusIconName =
+  | "circle" | "circle-dot" | "check-circle" | "clock" | "eye"
+  | "flask" | "rocket" | "pause" | "ban" | "x-circle"
+
+export interface StatusDefinition {
+  name: string
+  label: string
+  color: StatusColor
+  icon: StatusIconName
+  done: boolean  // Counts towards epic progress
+  core: boolean  // Built into bd - can't be renamed or removed
+}
+
+// Class names per color (spelled out so Tailwind picks them up)
+export const STATUS_COLORS: Record<StatusColor, { pill: string; text: string; dot: string; fill: string }> = {
+  white: { pill: "bg-white/10 text-white border-white/30", text: "text-white", dot: "bg-white", fill: "fill-white" },
+  zinc: { pill: "bg-zinc-600/20 text-zinc-400 border-zinc-500/40", text: "text-zinc-500", dot: "bg-zinc-600", fill: "fill-zinc-600" },
+  amber: { pill: "bg-amber-500/20 text-amber-400 border-amber-500/40", text: "text-amber-400", dot: "bg-amber-500", fill: "fill-amber-500" },
+  orange: { pill: "bg-orange-500/20 text-orange-400 border-orange-500/40", text: "text-orange-400", dot: "bg-orange-500", fill: "fill-orange-500" },
+  red: { pill: "bg-red-500/20 text-red-400 border-red-500/40", text: "text-red-400", dot: "bg-red-500", fill: "fill-red-500" },
+  pink: { pill: "bg-pink-500/20 text-pink-400 border-pink-500/40", text: "text-pink-400", dot: "bg-pink-500", fill: "fill-pink-500" },
+  purple: { pill: "bg-purple-500/20 text-purple-400 border-purple-500/40", text: "text-purple-400", dot: "bg-purple-500", fill: "fill-purple-500" },
+  blue: { pill: "bg-blue-500/20 text-blue-400 border-blue-500/40", text: "text-blue-400", dot: "bg-blue-500", fill: "fill-blue-500" },
+  sky: { pill: "bg-sky-500/20 text-sky-400 border-sky-500/40", text: "text-sky-400", dot: "bg-sky-500", fill: "fill-sky-500" },
+  cyan: { pill: "bg-cyan-500/20 text-cyan-400 border-cyan-500/40", text: "text-cyan-400", dot: "bg-cyan-500", fill: "fill-cyan-500" },
+  emerald: { pill: "bg-emerald-500/20 text-emerald-400 border-emerald-500/40", text: "text-emerald-400", dot: "bg-emerald-500", fill: "fill-emerald-500" },
+  lime: { pill: "bg-lime-500/20 text-lime-400 border-lime-500/40", text: "text-lime-400", dot: "bg-lime-500", fill: "fill-lime-500" },
+}
+
+export const STATUS_ICONS: StatusIconName[] = [
+  "circle", "circle-dot", "check-circle", "clock", "eye", "flask", "rocket", "pause", "ban", "x-circle",
+]
+
+type StatusStyle = Pick<StatusDefinition, "label" | "color" | "icon" | "done">
+
+// Core statuses and well-known custom ones; anything else gets a generic style
+const KNOWN_STATUSES: Record<string, StatusStyle> = {
+  open: { label: "Open", color: "white", icon: "circle", done: false },
+  in_progress: { label: "In Progress", color: "amber", icon: "circle-dot", done: false },
+  closed: { label: "Closed", color: "zinc", icon: "check-circle", done: true },
+  ready_for_qa: { label: "Ready for QA", color: "purple", icon: "circle-dot", done: false },
+  ready_to_ship: { label: "Ready to Ship", color: "emerald", icon: "check-circle", done: true },
+}
+
+export function formatStatusName(name: string): string {
+  return name.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase())
+}
+
+export function defaultStatusDefinition(name: string): StatusDefinition {
+  const known = KNOWN_STATUSES[name]
+  return {
+    name,
+    ...(known ?? { label: formatStatusName(name), color: "blue", icon: "circle", done: false }),
+    core: CORE_STATUSES.includes(name),
+  }
+}
+
+// What `bdui.statuses` holds
+export interface StatusMetadata {
+  order: string[]
+  statuses: Record<string, Partial<StatusStyle>>
+}
+
+// Apply stored overrides to a default definition, ignoring anything malformed
+function applyStyle(definition: StatusDefinition, style: Partial<StatusStyle> | undefined): StatusDefinition {
+  if (!style || typeof style !== "object") return definition
+  return {
+    ...definition,
+    label: typeof style.label === "string" && style.label.trim() ? style.label.trim() : definition.label,
+    color: style.color && style.color in STATUS_COLORS ? style.color : definition.color,
+    icon: style.icon && STATUS_ICONS.includes(style.icon) ? style.icon : definition.icon,
+    // Closed always counts as done
+    done: definition.name === "closed" ? true : typeof style.done === "boolean" ? style.done : definition.done,
+  }
+}
+
+// Build the definitions for a workspace from its custom status names and stored metadata.
+// Without a stored order: open, in_progress, custom statuses as configured, closed.
+export function buildStatusDefinitions(custom: string[], metadata: unknown): StatusDefinition[] {
+  const stored = (metadata && typeof metadata === "object" ? metadata : {}) as Partial<StatusMetadata>
+  const names = ["open", "in_progress", ...custom.filter(s => !CORE_STATUSES.includes(s)), "closed"]
+  const order = Array.isArray(stored.order) ? stored.order.filter(name => names.includes(name)) : []
+  const ordered = [...new Set([...order, ...names])]
+
+  return ordered.map(name => applyStyle(defaultStatusDefinition(name), stored.statuses?.[name]))
+}
+
+export function toStatusMetadata(definitions: StatusDefinition[]): StatusMetadata {
+  return {
+    order: definitions.map(d => d.name),
+    statuses: Object.fromEntries(
+      definitions.map(({ name, label, color, icon, done }) => [name, { label, color, icon, done }])
+    ),
+  }
+}
+
+// Combine several workspaces' statuses (all-workspaces view): the first definition of a name wins,
+// and a status new to the list goes right after the status it follows in its own workspace
+export function mergeStatusDefinitions(lists: StatusDefinition[][]): StatusDefinition[] {
+  const merged: StatusDefinition[] = []
+  for (const list of lists) {
+    let previous: string | null = null
+    for (const definition of list) {
+      if (!merged.some(d => d.name === definition.name)) {
+        const index = previous === null ? 0 : merged.findIndex(d => d.name === previous) + 1
+        merged.splice(index, 0, definition)
+      }
+      previous = definition.name
+    }
+  }
+  return merged
+}
+
+export const DEFAULT_STATUS_DEFINITIONS = buildStatusDefinitions([], null)
+
+// Definition for a status, with a fallback for statuses the workspace doesn't define
+export function findStatus(definitions: StatusDefinition[], name: string): StatusDefinition {
+  return definitions.find(d => d.name === name) ?? defaultStatusDefinition(name)
+}
+
+export function isDoneStatus(definitions: StatusDefinition[], name: string): boolean {
+  return findStatus(definitions, name).done
+}
+
+// Position in the workflow (for sorting); unknown statuses go last
+export function statusRank(definitions: StatusDefinition[], name: string): number {
+  const index = definitions.findIndex(d => d.name === name)
+  return index === -1 ? definitions.length : index
+}
@@ -1,3 +1,5 @@
+import type { BdErrorCode } from "@/lib/bd-error"
+
 export type BeadType = "bug" | "task" | "feature" | "epic" | "chore" | "message" | "gate"
 
 // Core statuses that always exist
@@ -5,7 +7,7 @@ export type CoreStatus = "open" | "in_progress" | "closed"
 
 // BeadStatus can be a core status or any custom string
 export type BeadStatus = CoreStatus | (string & {})
-export type BeadPriority = "critical" | "high" | "medium" | "low"
+export type BeadPriority = "critical" | "high" | "medium" | "low" | "none"
 
 export interface Comment {
   id: string
@@ -14,6 +16,23 @@ export interface Comment {
   timestamp: Date
 }
 
+// A field change in an activity entry; values are left out for long text fields
+export interface ActivityChange {
+  field: string  // bd field name (status, priority, assignee, issue_type, description, ...)
+  from?: string
+  to?: string
+}
+
+// An entry in a bead's activity history (bd's events table)
+export interface ActivityEvent {
+  id: string
+  kind: string  // bd event type: created, updated, status_changed, closed, reopened, label_added, dependency_added, ...
+  actor: string
+  timestamp: Date
+  changes: ActivityChange[]
+  text?: string  // Close reason, or bd's description of label and dependency changes
+}
+
 export interface BeadDependency {
   id: string
   title: string
@@ -36,20 +55,95 @@ export interface Bead {
   parentId?: string
   createdAt?: Date
   updatedAt?: Date
+  closedAt?: Date
+  deletedAt?: Date // Set on tombstoned beads shown in Trash
+  blocked?: boolean // Waiting on an open blocker (set on tree beads)
   children?: Bead[]  // Subtasks (nested parent-child relationships)
   blockedBy?: BeadDependency[]  // Beads that must complete before this one
   blocks?: BeadDependency[]     // Beads waiting on this one to complete
+  related?: BeadDependency[]    // Loosely related beads (no ordering)
+  childOf?: BeadDependency[]    // Parent-child dependencies where this bead is the child
+  parentOf?: BeadDependency[]   // Parent-child dependencies where this bead is the parent
+  workspace?: BeadWorkspace     // Set in the all-workspaces view
 }
 
+// The workspace a bead was loaded from (for routing edits in the all-workspaces view)
+export type BeadWorkspace = Pick<Workspace, "id" | "name" | "color" | "databasePath">
+
+// Relationship of another bead to this one, as edited from the detail panel
+export type DependencyRelation = "blocked-by" | "blocks" | "related" | "parent" | "child"
+
 export interface Epic extends Bead {
   type: "epic"
   children: Bead[]
   childEpics?: Epic[]
 }
 
+export type WorkspaceColor = "slate" | "red" | "orange" | "amber" | "emerald" | "teal" | "sky" | "blue" | "violet" | "pink"
+
 export interface Workspace {
   id: string
   name: string
   path?: string
   databasePath?: string
+  color?: WorkspaceColor
+  hidden?: boolean   // Kept out of the header tabs
+  added?: boolean    // Added in the workspace manager (not detected from bd)
+  missing?: boolean  // Its database no longer exists
+}
+
+export interface CreateBeadInput {
+  type: Exclude<BeadType, "message" | "gate">
+  title: string
+  priority: BeadPriority
+  assignee?: string
+  labels?: string[]
+  parentId?: string
+  description?: string
+}
+
+// An action applied to every selected bead from the bulk action bar
+export type BulkAction =
+  | { kind: "status"; status: BeadStatus }
+  | { kind: "priority"; priority: BeadPriority }
+  | { kind: "assignee"; assignee: string }
+  | { kind: "labels"; add: string[]; remove: string[] }
+  | { kind: "move"; parentId: string | null }
+  | { kind: "backlog"; inBacklog: boolean }
+  | { kind: "archive"; archived: boolean }
+  | { kind: "close" }
+  | { kind: "delete" }
+
+// The state a field edit started from, sent with saves to detect conflicting edits
+export interface ExpectedField {
+  updatedAt: string // ISO updated_at of the bead when editing started
+  value: string     // Field value when editing started
+}
+
+// A dependency edge (id depends on dependsOnId), recorded before a delete since bd drops them
+export interface BeadLink {
+  id: string
+  dependsOnId: string
+  type: "blocks" | "parent-child" | "related"
+}
+
+export interface BulkFailure {
+  id: string
+  error: string
+  code?: BdErrorCode
+}
+
+// Optional bd features, probed on the installed bd
+export interface BdCapabilities {
+  noDaemon: boolean        // --no-daemon flag
+  allowStale: boolean      // --allow-stale flag
+  depDirection: boolean    // bd dep list --direction=up
+  customStatuses: boolean  // bd config get status.custom
+  messageType: boolean     // "message" issue type
+  commentDeletion: boolean // Needs the sqlite3 CLI (bd has no delete-comment command)
+}
+
+export interface BdInfo {
+  version: string | null // null when bd is missing or its output couldn't be parsed
+  capabilities: BdCapabilities
 }
@@ -0,0 +1,71 @@
+import type { Bead, BulkAction } from "@/lib/types"
+
+// A bulk action to apply to a subset of beads
+export interface BulkStep {
+  ids: string[]
+  action: BulkAction
+}
+
+// Group beads by a key and emit one step per distinct value
+function groupSteps<K>(beads: Bead[], key: (bead: Bead) => K, toAction: (value: K) => BulkAction): BulkStep[] {
+  const groups = new Map<K, string[]>()
+  for (const bead of beads) {
+    const value = key(bead)
+    groups.set(value, [...(groups.get(value) ?? []), bead.id])
+  }
+  return Array.from(groups, ([value, ids]) => ({ ids, action: toAction(value) }))
+}
+
+// Beads that didn't already have the label (only those were changed by adding it)
+function withoutLabel(beads: Bead[], label: string): string[] {
+  return beads.filter(b => !b.labels?.includes(label)).map(b => b.id)
+}
+
+function withLabel(beads: Bead[], label: string): string[] {
+  return beads.filter(b => b.labels?.includes(label)).map(b => b.id)
+}
+
+// Build the steps that reverse a bulk action, given the beads as they were before it ran
+// Delete is not covered here - deleted beads are restored individually
+export function invertBulkAction(before: Bead[], action: BulkAction): BulkStep[] {
+  let steps: BulkStep[] = []
+
+  switch (action.kind) {
+    case "status":
+    case "close":
+      steps = groupSteps(before, b => b.status, status => ({ kind: "status", status }))
+      break
+    case "priority":
+      steps = groupSteps(before, b => b.priority, priority => ({ kind: "priority", priority }))
+      break
+    case "assignee":
+      steps = groupSteps(before, b => b.assignee, assignee => ({ kind: "assignee", assignee }))
+      break
+    case "move":
+      steps = groupSteps(before, b => b.parentId ?? null, parentId => ({ kind: "move", parentId }))
+      break
+    case "labels":
+      // Only touch beads whose labels actually changed
+      for (const label of action.add) {
+        steps.push({ ids: withoutLabel(before, label), action: { kind: "labels", add: [], remove: [label] } })
+      }
+      for (const label of action.remove) {
+        steps.push({ ids: withLabel(before, label), action: { kind: "labels", add: [label], remove: [] } })
+      }
+      break
+    case "backlog":
+      steps.push(action.inBacklog
+        ? { ids: withoutLabel(before, "backlog"), action: { kind: "backlog", inBacklog: false } }
+        : { ids: withLabel(before, "backlog"), action: { kind: "backlog", inBacklog: true } })
+      break
+    case "archive":
+      steps.push(action.archived
+        ? { ids: withoutLabel(before, "archived"), action: { kind: "archive", archived: false } }
+        : { ids: withLabel(before, "archived"), action: { kind: "archive", archived: true } })
+      break
+    case "delete":
+      break
+  }
+
+  return steps.filter(step => step.ids.length > 0)
+}
@@ -0,0 +1,119 @@
+import type { Filters, SortField, SortOption } from "@/components/filter-bar"
+import type { TreeSection } from "@/components/epic-tree"
+
+// Named presets of the tree's filters, sort, expanded epics and open sections.
+// Stored in localStorage, shared as a ?share= link, and exported/imported as JSON.
+
+export interface SavedView {
+  id: string
+  name: string
+  filters: Filters
+  sort: SortOption
+  expandedEpics: string[]
+  openSections: TreeSection[]
+}
+
+// A view without its local ID (what links and files carry)
+export type ViewDefinition = Omit<SavedView, "id">
+
+export const DEFAULT_SECTIONS: TreeSection[] = ["epics", "backlog"]
+
+const SECTIONS: TreeSection[] = ["epics", "backlog", "archived", "trash"]
+const SORT_FIELDS: SortField[] = ["title", "priority", "status", "updated"]
+const VIEWS_FILE_VERSION = 1
+
+export function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+// Validate a view from an untrusted source (link, file, old localStorage), filling in defaults
+export function normalizeView(raw: unknown): ViewDefinition | null {
+  if (!raw || typeof raw !== "object") return null
+  const view = raw as Record<string, unknown>
+  if (typeof view.name !== "string" || !view.name.trim()) return null
+
+  const filters = (view.filters ?? {}) as Partial<Filters>
+  const sort = (view.sort ?? {}) as Partial<SortOption>
+  return {
+    name: view.name.trim(),
+    filters: {
+      search: typeof filters.search === "string" ? filters.search : "",
+      showMessages: filters.showMessages === true,
+    },
+    sort: {
+      field: SORT_FIELDS.includes(sort.field as SortField) ? sort.field as SortField : "updated",
+      direction: sort.direction === "asc" ? "asc" : "desc",
+    },
+    expandedEpics: Array.isArray(view.expandedEpics)
+      ? view.expandedEpics.filter((id): id is string => typeof id === "string")
+      : [],
+    openSections: Array.isArray(view.openSections)
+      ? view.openSections.filter((s): s is TreeSection => SECTIONS.includes(s as TreeSection))
+      : DEFAULT_SECTIONS,
+  }
+}
+
+function toDefinition({ name, filters, sort, expandedEpics, openSections }: ViewDefinition): ViewDefinition {
+  return { name, filters, sort, expandedEpics, openSections }
+}
+
+// Does the current state match a view? (Expanded epics don't count - they change while browsing)
+export function viewMatches(view: SavedView, filters: Filters, sort: SortOption, openSections: Set<TreeSection>): boolean {
+  return (
+    view.filters.search.trim() === filters.search.trim() &&
+    view.filters.showMessages === filters.showMessages &&
+    view.sort.field === sort.field &&
+    view.sort.direction === sort.direction &&
+    view.openSections.length === openSections.size &&
+    view.openSections.every(s => openSections.has(s))
+  )
+}
+
+// Encode a view for a ?share= URL parameter (base64url JSON, unicode-safe)
+export function encodeViewParam(view: ViewDefinition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(toDefinition(view)))
+  const binary = Array.from(bytes, b => String.fromCharCode(b)).join("")
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function decodeViewParam(param: string): ViewDefinition | null {
+  try {
+    const binary = atob(param.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0))
+    return normalizeView(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch {
+    return null
+  }
+}
+
+export function exportViews(views: SavedView[]): string {
+  return JSON.stringify({ version: VIEWS_FILE_VERSION, views: views.map(toDefinition) }, null, 2)
+}
+
+// Parse an exported views file; throws with a readable message when it isn't one
+export function parseViewsFile(text: string): ViewDefinition[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("File is not valid JSON")
+  }
+  // Accept a bare array as well as the { version, views } wrapper
+  const list = Array.isArray(data) ? data : (data as { views?: unknown })?.views
+  if (!Array.isArray(list)) throw new Error("File doesn't contain saved views")
+
+  const views = list.map(normalizeView).filter((v): v is ViewDefinition => v !== null)
+  if (views.length === 0) throw new Error("File doesn't contain any valid views")
+  return views
+}
+
+// Add imported views, replacing existing views with the same name
+export function mergeViews(existing: SavedView[], imported: ViewDefinition[]): SavedView[] {
+  const result = [...existing]
+  for (const definition of imported) {
+    const index = result.findIndex(v => v.name.toLowerCase() === definition.name.toLowerCase())
+    if (index === -1) result.push({ id: createViewId(), ...definition })
+    else result[index] = { id: result[index].id, ...definition }
+  }
+  return result
+}
@@ -0,0 +1,119 @@
+import type { Workspace, WorkspaceColor } from "@/lib/types"
+
+// bdui's own workspace settings, kept in ~/.config/beads-ui/workspaces.json (separate from
+// bd's registry). Entries either add a workspace bd doesn't know about (path + databasePath)
+// or override a detected one by ID. Their order is the display order.
+
+export interface WorkspaceEntry {
+  id: string
+  name?: string
+  color?: WorkspaceColor
+  hidden?: boolean
+  removed?: boolean       // Detected workspace the user removed (e.g. a stale registry entry)
+  path?: string           // Set for added workspaces
+  databasePath?: string
+}
+
+export interface WorkspaceConfig {
+  version: number
+  workspaces: WorkspaceEntry[]
+}
+
+export const WORKSPACE_CONFIG_VERSION = 1
+
+// Pseudo-workspace for the aggregated view of every visible workspace
+export const ALL_WORKSPACES: Workspace = { id: "_all", name: "All workspaces" }
+
+// Workspaces the aggregated view loads: visible ones with a database
+export function aggregatedWorkspaces(workspaces: Workspace[]): Workspace[] {
+  return workspaces.filter(ws => !ws.hidden && !ws.missing && ws.databasePath)
+}
+
+// Dot classes per color (spelled out so Tailwind picks them up)
+export const WORKSPACE_COLORS: Record<WorkspaceColor, string> = {
+  slate: "bg-slate-400",
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  amber: "bg-amber-500",
+  emerald: "bg-emerald-500",
+  teal: "bg-teal-500",
+  sky: "bg-sky-500",
+  blue: "bg-blue-500",
+  violet: "bg-violet-500",
+  pink: "bg-pink-500",
+}
+
+export function emptyWorkspaceConfig(): WorkspaceConfig {
+  return { version: WORKSPACE_CONFIG_VERSION, workspaces: [] }
+}
+
+// Validate a config read from disk, dropping malformed entries
+export function normalizeWorkspaceConfig(raw: unknown): WorkspaceConfig {
+  const list = (raw as { workspaces?: unknown } | null)?.workspaces
+  if (!Array.isArray(list)) return emptyWorkspaceConfig()
+
+  const workspaces: WorkspaceEntry[] = []
+  for (const item of list) {
+    if (!item || typeof item !== "object" || typeof item.id !== "string") continue
+    const entry: WorkspaceEntry = { id: item.id }
+    if (typeof item.name === "string" && item.name.trim()) entry.name = item.name.trim()
+    if (item.color in WORKSPACE_COLORS) entry.color = item.color
+    if (item.hidden === true) entry.hidden = true
+    if (item.removed === true) entry.removed = true
+    if (typeof item.path === "string" && typeof item.databasePath === "string") {
+      entry.path = item.path
+      entry.databasePath = item.databasePath
+    }
+    workspaces.push(entry)
+  }
+  return { version: WORKSPACE_CONFIG_VERSION, workspaces }
+}
+
+// Combine detected workspaces with the config: configured workspaces first (in their order),
+// then newly detected ones. A detected workspace with the same database as an added one is dropped.
+export function applyWorkspaceConfig(detected: Workspace[], config: WorkspaceConfig): Workspace[] {
+  const byId = new Map(detected.map(w => [w.id, w]))
+  const addedDbs = new Set(config.workspaces.filter(e => e.databasePath).map(e => e.databasePath))
+  const result: Workspace[] = []
+
+  for (const entry of config.workspaces) {
+    const found = byId.get(entry.id)
+    byId.delete(entry.id)
+    if (entry.removed) continue
+
+    const base: Workspace | undefined = entry.databasePath
+      ? { id: entry.id, name: entry.name ?? entry.id, path: entry.path, databasePath: entry.databasePath, added: true }
+      : found
+    // Overrides for workspaces bd no longer reports are skipped
+    if (!base) continue
+    result.push({ ...base, name: entry.name ?? base.name, color: entry.color, hidden: entry.hidden })
+  }
+
+  for (const workspace of byId.values()) {
+    if (!addedDbs.has(workspace.databasePath)) result.push(workspace)
+  }
+  return result
+}
+
+// Change one entry, creating it for a detected workspace that has none yet
+export function updateWorkspaceEntry(
+  config: WorkspaceConfig,
+  id: string,
+  changes: Partial<Omit<WorkspaceEntry, "id">>
+): WorkspaceConfig {
+  const exists = config.workspaces.some(e => e.id === id)
+  return {
+    ...config,
+    workspaces: exists
+      ? config.workspaces.map(e => (e.id === id ? { ...e, ...changes } : e))
+      : [...config.workspaces, { id, ...changes }],
+  }
+}
+
+// Put entries in the given order (IDs without an entry get one); others keep their place after them
+export function reorderWorkspaceEntries(config: WorkspaceConfig, ids: string[]): WorkspaceConfig {
+  const byId = new Map(config.workspaces.map(e => [e.id, e]))
+  const ordered = ids.map(id => byId.get(id) ?? { id })
+  const rest = config.workspaces.filter(e => !ids.includes(e.id))
+  return { ...config, workspaces: [...ordered, ...rest] }
+}